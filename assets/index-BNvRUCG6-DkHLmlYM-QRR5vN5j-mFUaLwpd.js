@@ -1,360 +0,0 @@
-import{U as oe,R as ce,F as ue,A as le,a as de,N as I,M as he,m as fe,T as me,b as pe,k as V,l as ge,c as we,d as be,e as ye,f as ve,g as x,X as Se,Y as Ce,Z as xe,B as Ae,J as d,y as R,h as ke,W as T,i as p,L as Ee,j as P,n as l,o as O,p as y,q as Ne,r as Fe,s as _e,t as ze,u as De,v as Me,w as Re,x as Te,_ as Pe,z as Oe,O as Be,D as $e,C as Le,E as qe,G as Ie,H as Ve,Q as je,I as We,K as Ue,P as Ge,S as He,V as Qe,$ as Ke,a0 as Je,a1 as Xe,a2 as Ze,a3 as Ye,a4 as ea,a5 as aa,a6 as sa,a7 as ta,a8 as na,a9 as ra,aa as ia,ab as oa,ac as ca,ad as ua,ae as la,af as da,ag as ha,ah as fa,ai as ma,aj as pa,ak as ga,al as wa,am as ba,an as ya,ao as va,ap as Sa,aq as Ca,ar as xa,as as Aa,at as ka,au as Ea,av as Na,aw as Fa,ax as _a,ay as za,az as Da,aA as Ma,aB as Ra,aC as Ta,aD as Pa,aE as Oa,aF as Ba,aG as $a,aH as La,aI as qa,aJ as Ia,aK as Va,aL as ja,aM as Wa,aN as Ua,aO as Ga,aP as Ha,aQ as Qa,aR as Ka,aS as Ja,aT as Xa,aU as Za,aV as Ya,aW as es,aX as as,aY as ss,aZ as ts,a_ as ns,a$ as rs,b0 as is,b1 as os,b2 as cs,b3 as us,b4 as ls,b5 as ds,b6 as hs,b7 as fs,b8 as A,b9 as k,ba as ms,bb as ps,bc as gs,bd as ws,be as h,bf as j,bg as W,bh as v,bi as bs,bj as ys,bk as vs,bl as B,bm as Ss,bn as Cs,bo as xs,bp as As,bq as ks,br as Es,bs as U}from"./index-BljAAt9b.js";import{bt as xr,bu as Ar,bv as kr,bw as Er,bx as Nr,by as Fr,bz as _r,bA as zr,bB as Dr,bC as Mr,bD as Rr,bE as Tr,bF as Pr,bG as Or,bH as Br,bI as $r,bJ as Lr,bK as qr,bL as Ir,bM as Vr,bN as jr,bO as Wr,bP as Ur,bQ as Gr,bR as Hr,bS as Qr,bT as Kr,bU as Jr,bV as Xr,bW as Zr,bX as Yr,bY as ei,bZ as ai,b_ as si,b$ as ti,c0 as ni,c1 as ri,c2 as ii,c3 as oi,c4 as ci,c5 as ui,c6 as li,c7 as di,c8 as hi,c9 as fi,ca as mi,cb as pi,cc as gi,cd as wi,ce as bi,cf as yi,cg as vi,ch as Si,ci as Ci,cj as xi,ck as Ai,cl as ki,cm as Ei,cn as Ni,co as Fi,cp as _i,cq as zi,cr as Di,cs as Mi,ct as Ri,cu as Ti,cv as Pi,cw as Oi,cx as Bi,cy as $i,cz as Li,cA as qi,cB as Ii,cC as Vi,cD as ji,cE as Wi,cF as Ui,cG as Gi,cH as Hi,cI as Qi,cJ as Ki,cK as Ji,cL as Xi,cM as Zi,cN as Yi,cO as eo,cP as ao,cQ as so,cR as to,cS as no,cT as ro,cU as io,cV as oo,cW as co,cX as uo,cY as lo,cZ as ho,c_ as fo,c$ as mo,d0 as po,d1 as go,d2 as wo,d3 as bo,d4 as yo,d5 as vo,d6 as So,d7 as Co,d8 as xo,d9 as Ao,da as ko,db as Eo,dc as No,dd as Fo,de as _o,df as zo,dg as Do,dh as Mo,di as Ro,dj as To,dk as Po,dl as Oo,dm as Bo,dn as $o,dp as Lo,dq as qo,dr as Io,ds as Vo,dt as jo,du as Wo,dv as Uo,dw as Go,dx as Ho,dy as Qo,dz as Ko,dA as Jo,dB as Xo,dC as Zo,dD as Yo,dE as ec,dF as ac,dG as sc,dH as tc,dI as nc,dJ as rc,dK as ic,dL as oc,dM as cc,dN as uc,dO as lc,dP as dc,dQ as hc,dR as fc,dS as mc,dT as pc,dU as gc,dV as wc,dW as bc,dX as yc,dY as vc,dZ as Sc,d_ as Cc,d$ as xc,e0 as Ac,e1 as kc,e2 as Ec,e3 as Nc,e4 as Fc,e5 as _c,e6 as zc,e7 as Dc,e8 as Mc,e9 as Rc,ea as Tc,eb as Pc,ec as Oc,ed as Bc,ee as $c,ef as Lc,eg as qc,eh as Ic,ei as Vc,ej as jc,ek as Wc,el as Uc,em as Gc,en as Hc,eo as Qc,ep as Kc,eq as Jc,er as Xc,es as Zc,et as Yc,eu,ev as au,ew as su,ex as tu,ey as nu,ez as ru,eA as iu,eB as ou,eC as cu,eD as uu,eE as lu,eF as du,eG as hu,eH as fu,eI as mu,eJ as pu,eK as gu,eL as wu,eM as bu,eN as yu,eO as vu,eP as Su,eQ as Cu,eR as xu,eS as Au,eT as ku,eU as Eu,eV as Nu,eW as Fu,eX as _u,eY as zu,eZ as Du,e_ as Mu,e$ as Ru,f0 as Tu,f1 as Pu,f2 as Ou,f3 as Bu,f4 as $u,f5 as Lu,f6 as qu,f7 as Iu,f8 as Vu,f9 as ju,fa as Wu,fb as Uu,fc as Gu,fd as Hu,fe as Qu,ff as Ku,fg as Ju,fh as Xu,fi as Zu,fj as Yu,fk as el,fl as al,fm as sl,fn as tl,fo as nl,fp as rl,fq as il,fr as ol,fs as cl,ft as ul,fu as ll,fv as dl,fw as hl,fx as fl,fy as ml,fz as pl,fA as gl,fB as wl,fC as bl,fD as yl,fE as vl,fF as Sl,fG as Cl,fH as xl,fI as Al,fJ as kl,fK as El,fL as Nl,fM as Fl,fN as _l,fO as zl,fP as Dl,fQ as Ml,fR as Rl,fS as Tl,fT as Pl,fU as Ol,fV as Bl,fW as $l,fX as Ll,fY as ql,fZ as Il,f_ as Vl,f$ as jl,g0 as Wl,g1 as Ul,g2 as Gl,g3 as Hl,g4 as Ql,g5 as Kl,g6 as Jl,g7 as Xl,g8 as Zl,g9 as Yl,ga as ed,gb as ad,gc as sd,gd as td,ge as nd,gf as rd,gg as id,gh as od,gi as cd,gj as ud,gk as ld,gl as dd,gm as hd,gn as fd,go as md,gp as pd,gq as gd,gr as wd,gs as bd,gt as yd,gu as vd,gv as Sd,gw as Cd,gx as xd,gy as Ad,gz as kd,gA as Ed,gB as Nd,gC as Fd,gD as _d,gE as zd,gF as Dd,gG as Md,gH as Rd,gI as Td,gJ as Pd,gK as Od,gL as Bd,gM as $d,gN as Ld,gO as qd,gP as Id,gQ as Vd,gR as jd,gS as Wd,gT as Ud,gU as Gd,gV as Hd,gW as Qd,gX as Kd,gY as Jd,gZ as Xd,g_ as Zd,g$ as Yd,h0 as eh,h1 as ah,h2 as sh,h3 as th,h4 as nh,h5 as rh,h6 as ih,h7 as oh,h8 as ch,h9 as uh,ha as lh,hb as dh,hc as hh,hd as fh,he as mh,hf as ph,hg as gh,hh as wh,hi as bh,hj as yh,hk as vh,hl as Sh,hm as Ch,hn as xh,ho as Ah,hp as kh,hq as Eh,hr as Nh,hs as Fh,ht as _h,hu as zh,hv as Dh,hw as Mh,hx as Rh,hy as Th,hz as Ph,hA as Oh,hB as Bh,hC as $h,hD as Lh,hE as qh,hF as Ih,hG as Vh,hH as jh,hI as Wh,hJ as Uh,hK as Gh,hL as Hh,hM as Qh,hN as Kh,hO as Jh,hP as Xh,hQ as Zh,hR as Yh,hS as ef,hT as af,hU as sf,hV as tf,hW as nf,hX as rf,hY as of,hZ as cf,h_ as uf,h$ as lf,i0 as df,i1 as hf,i2 as ff,i3 as mf,i4 as pf,i5 as gf,i6 as wf,i7 as bf,i8 as yf,i9 as vf,ia as Sf,ib as Cf,ic as xf,id as Af,ie as kf,ig as Ef,ih as Nf,ii as Ff,ij as _f,ik as zf,il as Df,im as Mf,io as Rf,ip as Tf,iq as Pf,ir as Of,is as Bf,it as $f,iu as Lf,iv as qf,iw as If,ix as Vf,iy as jf,iz as Wf,iA as Uf,iB as Gf,iC as Hf,iD as Qf,iE as Kf,iF as Jf,iG as Xf,iH as Zf,iI as Yf,iJ as em,iK as am,iL as sm,iM as tm,iN as nm,iO as rm,iP as im,iQ as om,iR as cm,iS as um,iT as lm,iU as dm,iV as hm}from"./index-BljAAt9b.js";/**
- * @license
- * Copyright 2017 Google LLC. All Rights Reserved.
- * Licensed under the Apache License, Version 2.0 (the "License");
- * you may not use this file except in compliance with the License.
- * You may obtain a copy of the License at
- *
- * http://www.apache.org/licenses/LICENSE-2.0
- *
- * Unless required by applicable law or agreed to in writing, software
- * distributed under the License is distributed on an "AS IS" BASIS,
- * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
- * See the License for the specific language governing permissions and
- * limitations under the License.
- * =============================================================================
- */const Ns=.001,G=.1;function Fs(e,a,s){return s==null&&(s=E()),C(e,a,(t,n)=>N(t,n,s))}function E(){return Ae.backend.floatPrecision()===32?Ns:G}function C(e,a,s){let t=!0;if((d(e)||d(a))&&(t=!1),d(e)&&d(a)&&(t=!0),t){const i=e.constructor.name,r=a.constructor.name;if(i!==r)throw new Error(`Arrays are of different type. Actual: ${i}. Expected: ${r}`)}if(Array.isArray(e)&&Array.isArray(a)){const i=R(e),r=R(a);if(!ke(i,r))throw new Error(`Arrays have different shapes. Actual: [${i}]. Expected: [${r}]`)}const n=d(e)?e:T(e),o=d(a)?a:T(a);if(n.length!==o.length)throw new Error(`Arrays have different lengths actual: ${n.length} vs expected: ${o.length}.
-Actual:   ${n}.
-Expected: ${o}.`);for(let i=0;i<o.length;++i){const r=n[i],c=o[i];if(!s(r,c))throw new Error(`Arrays differ: actual[${i}] = ${r}, expected[${i}] = ${c}.
-Actual:   ${n}.
-Expected: ${o}.`)}typeof expect<"u"&&expect().nothing()}function _s(e,a){e().then(()=>a.fail(),()=>a()),typeof expect<"u"&&expect().nothing()}function zs(e,a){const s=typeof a=="string"||typeof a=="number"||typeof a=="boolean"?[a]:a;return p(e)||p(e[0])||p(a)||p(a[0])?C(e,s,(t,n)=>t==n):C(e,a,(t,n)=>N(t,n,0))}function Ds(e,a,s){if(s==null&&(s=E()),!N(e,a,s))throw new Error(`Numbers differ: actual === ${e}, expected === ${a}`);typeof expect<"u"&&expect().nothing()}function N(e,a,s){return!isFinite(e)&&!isFinite(a)?!0:!(isNaN(e)||isNaN(a)||Math.abs(e-a)>s)}function Ms(e,a,s){for(let t=0;t<e.length;t++)if(e[t]<a||e[t]>s)throw new Error(`Value out of range:${e[t]} low: ${a}, high: ${s}`)}function Rs(e,a){const s=new Float32Array(e),t=new Float32Array(a);if(s.length!==t.length)throw new Error(`Expected ArrayBuffer to be of length ${t.length}, but it was ${s.length}`);for(let n=0;n<t.length;n++)if(s[n]!==t[n])throw new Error(`Expected ArrayBuffer value at ${n} to be ${t[n]} but got ${s[n]} instead`)}function H(e){for(let a=0;a<e.length;a++){const s=e[a];Array.isArray(s)?H(s):e[a]=Ee(s)}return e}function Ts(e){const a=document.createElement("video");return"playsInline"in a&&(a.playsInline=!0),a.muted=!0,a.loop=!0,a.style.position="fixed",a.style.left="0px",a.style.top="0px",a.preload="auto",a.appendChild(e),new Promise(s=>{a.addEventListener("loadeddata",t=>s(a)),a.load()})}async function Ps(e){await e.play(),"requestVideoFrameCallback"in e&&await new Promise(a=>{e.requestVideoFrameCallback(a)})}const ir=Object.freeze(Object.defineProperty({__proto__:null,TEST_EPSILON_FLOAT16:G,createVideoElement:Ts,encodeStrings:H,expectArrayBuffersEqual:Rs,expectArraysClose:Fs,expectArraysEqual:zs,expectNumbersClose:Ds,expectPromiseToFail:_s,expectValuesInRange:Ms,play:Ps,testEpsilon:E},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-* =============================================================================
-*/function Os(e,a,s){const t=P(e,"labels","confusionMatrix"),n=P(a,"predictions","confusionMatrix");l(s==null||s>0&&Number.isInteger(s),()=>`If provided, numClasses must be a positive integer, but got ${s}`),l(t.rank===1,()=>`Expected the rank of labels to be 1, but got ${t.rank}`),l(n.rank===1,()=>`Expected the rank of predictions to be 1, but got ${n.rank}`),l(t.shape[0]===n.shape[0],()=>`Mismatch in the number of examples: ${t.shape[0]} vs. ${n.shape[0]}. Labels and predictions should have the same number of elements.`),l(s>0&&Number.isInteger(s),()=>`numClasses is required to be a positive integer, but got ${s}`);const o=O(y(t,"int32"),s),i=O(y(n,"int32"),s),r=Ne(o),c=Fe(r,i);return y(c,"int32")}const Bs=oe({confusionMatrix_:Os});/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-* =============================================================================
-*/const or=Object.freeze(Object.defineProperty({__proto__:null,confusionMatrix:Bs},Symbol.toStringTag,{value:"Module"}));/** @license See the LICENSE file. */const $s="4.22.0";/**
-* @license
-* Copyright 2020 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-* =============================================================================
-*/const cr=Object.freeze(Object.defineProperty({__proto__:null,nonMaxSuppressionV3Impl:ce,nonMaxSuppressionV4Impl:ue,nonMaxSuppressionV5Impl:le,whereImpl:de},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/function Ls(e){return new _e(e)}function qs(e){return new ze(e)}function Is(){return new De}function Vs(e){return new Me(e)}const ur=Object.freeze(Object.defineProperty({__proto__:null,maxNorm:Ls,minMaxNorm:Vs,nonNeg:Is,unitNorm:qs},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/function js(){return new Re}function Ws(){return new Te}function Us(e){return new Pe(e)}function Gs(e){return new Oe(e)}function Hs(e){return new Be(e)}function Qs(e){return new $e(e)}function Ks(e){return new Le(e)}function Js(e){return new qe(e)}function Xs(e){return new Ie(e)}function Zs(e){return new Ve(e)}function Ys(e){return new je(e)}function et(e){return new We(e)}function at(e){return new Ue(e)}function st(e){return new Ge(e)}function tt(e){return new He(e)}const lr=Object.freeze(Object.defineProperty({__proto__:null,constant:Us,glorotNormal:Zs,glorotUniform:Xs,heNormal:Ys,heUniform:et,identity:Ks,leCunNormal:at,leCunUniform:st,ones:Ws,orthogonal:tt,randomNormal:Hs,randomUniform:Gs,truncatedNormal:Qs,varianceScaling:Js,zeros:js},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/function dr(e){return new I(e)}function hr(e){return new he(e)}function nt(e){return fe(e)}function fr(e,a){me.registerCallbackConstructor(e,a)}/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/function rt(e){return new Qe(e)}function it(e){return new Ke(e)}function ot(e){return new Je(e)}function ct(e){return new Xe(e)}function ut(e){return new Ze(e)}function lt(e){return new Ye(e)}function dt(e){return new ea(e)}function ht(e){return new aa(e)}function ft(e){return new sa(e)}function mt(e){return new ta(e)}function pt(e){return new na(e)}function gt(e){return new ra(e)}function wt(e){return new ia(e)}function bt(e){return new oa(e)}function yt(e){return new ca(e)}function vt(e){return new ua(e)}function St(e){return new la(e)}function Ct(e){return new da(e)}function xt(e){return new ha(e)}function At(e){return new fa(e)}function kt(e){return new ma(e)}function Et(e){return new pa(e)}function Nt(e){return new ga(e)}function Ft(e){return new wa(e)}function _t(e){return new ba(e)}function zt(e){return new ya(e)}function Dt(e){return new va(e)}function Mt(e){return new Sa(e)}function Rt(e){return new Ca(e)}function Tt(e){return new xa(e)}function Pt(e){return new Aa(e)}function Ot(e){return new ka(e)}function Bt(e){return new Ea(e)}function $t(e){return new Na(e)}function Lt(e){return new Fa(e)}function F(e){return new _a(e)}function qt(e){return F(e)}function It(e){return F(e)}function _(e){return new za(e)}function Vt(e){return _(e)}function jt(e){return _(e)}function z(e){return new Da(e)}function Wt(e){return z(e)}function Ut(e){return z(e)}function Gt(e){return new Ma(e)}function Ht(e){return new Ra(e)}function Q(e){return new Ta(e)}function K(e){return new Pa(e)}function J(e){return new Oa(e)}function X(e){return new Ba(e)}function Qt(e){return new $a(e)}function Kt(e){return new La(e)}function Jt(e){return new qa(e)}function Xt(e){return new Ia(e)}function Zt(e){return new Va(e)}function Yt(e){return new ja(e)}function en(e){return new Wa(e)}function an(e){return new Ua(e)}function sn(e){return new Ga(e)}function tn(e){return new V(e)}function nn(e){return new Ha(e)}function rn(e){return new Qa(e)}function on(e){return new Ka(e)}const cn=Q,un=K,ln=J,dn=X;function hn(e){return new Ja(e)}function fn(e){return new Xa(e)}function mn(e){return new Za(e)}function pn(e){return new Ya(e)}function gn(e){return new es(e)}function wn(e){return new as(e)}function bn(e){return new ss(e)}function yn(e){return new ts(e)}function vn(e){return new ns(e)}const mr=Object.freeze(Object.defineProperty({__proto__:null,Layer:pe,RNN:V,RNNCell:ge,activation:St,add:zt,alphaDropout:mn,average:Dt,averagePooling1d:F,averagePooling2d:_,averagePooling3d:z,avgPool1d:qt,avgPool2d:Vt,avgPool3d:Wt,avgPooling1d:It,avgPooling2d:jt,avgPooling3d:Ut,batchNormalization:Bt,bidirectional:rn,categoryEncoding:yn,centerCrop:wn,concatenate:Mt,conv1d:ht,conv2d:ft,conv2dTranspose:mt,conv3d:pt,conv3dTranspose:gt,convLstm2d:an,convLstm2dCell:sn,cropping2D:bt,dense:Ct,depthwiseConv2d:vt,dot:Ot,dropout:xt,elu:it,embedding:_t,flatten:kt,gaussianDropout:fn,gaussianNoise:hn,globalAveragePooling1d:Gt,globalAveragePooling2d:Ht,globalMaxPool1d:cn,globalMaxPool2d:un,globalMaxPooling1d:Q,globalMaxPooling2d:K,gru:Kt,gruCell:Jt,input:nt,inputLayer:rt,layerNormalization:$t,leakyReLU:ct,lstm:Xt,lstmCell:Zt,masking:pn,maxPool1d:ln,maxPool2d:dn,maxPooling1d:J,maxPooling2d:X,maxPooling3d:Qt,maximum:Rt,minimum:Tt,multiply:Pt,permute:Ft,prelu:ut,randomWidth:vn,reLU:ot,repeatVector:Et,rescaling:gn,reshape:Nt,resizing:bn,rnn:tn,separableConv2d:wt,simpleRNN:Yt,simpleRNNCell:en,softmax:lt,spatialDropout1d:At,stackedRNNCells:nn,thresholdedReLU:dt,timeDistributed:on,upSampling2d:yt,zeroPadding2d:Lt},Symbol.toStringTag,{value:"Module"}));function Sn(e,a){return rs(e,a)}function Cn(e,a){return is(e,a)}function xn(e,a){return os(e,a)}function An(e,a){return cs(e,a)}function kn(e,a){return us(e,a)}function En(e,a){return ls(e,a)}function Nn(e,a){return ds(e,a)}function Fn(e,a){return hs(e,a)}function _n(e,a){return fs(e,a)}function zn(e,a){return A(e,a)}function Dn(e,a){return A(e,a)}function Mn(e,a){return A(e,a)}function Rn(e,a){return k(e,a)}function Tn(e,a){return k(e,a)}function Pn(e,a){return k(e,a)}function On(e,a){return ms(e,a)}const pr=Object.freeze(Object.defineProperty({__proto__:null,MAPE:Dn,MSE:Tn,binaryAccuracy:Sn,binaryCrossentropy:Cn,categoricalAccuracy:An,categoricalCrossentropy:kn,cosineProximity:Fn,mape:Mn,meanAbsoluteError:_n,meanAbsolutePercentageError:zn,meanSquaredError:Rn,mse:Pn,precision:En,r2Score:On,recall:Nn,sparseCategoricalAccuracy:xn},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/const gr=Object.freeze(Object.defineProperty({__proto__:null,modelFromJSON:we},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/function Bn(e){return new ps(e)}function $n(e){return gs(e)}function Ln(e){return ws(e)}const wr=Object.freeze(Object.defineProperty({__proto__:null,l1:$n,l1l2:Bn,l2:Ln},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/class qn extends be{constructor(){super(...arguments),this.model=null}setModel(a){if(!(a instanceof I))throw new Error("model must be a LayersModel, not some other Container");this.model=a}}function g(e,a){return e<a}function $(e,a){return e>a}class In extends qn{constructor(a){if(super(),a==null&&(a={}),a.restoreBestWeights)throw new ye("restoreBestWeights = True is not implemented in EarlyStopping yet.");this.monitor=a.monitor||"val_loss",this.minDelta=Math.abs(a.minDelta||0),this.patience=a.patience||0,this.verbose=a.verbose||0,this.mode=a.mode||"auto",this.baseline=a.baseline,["auto","min","max"].indexOf(this.mode)===-1&&(console.warn(`EarlyStopping mode '${this.mode}' is invalid. Falling back to mode 'auto'.`),this.mode="auto"),this.mode==="min"?this.monitorFunc=g:this.mode==="max"?this.monitorFunc=$:this.monitor.indexOf("acc")!==-1?this.monitorFunc=$:this.monitorFunc=g,this.monitorFunc===g&&(this.minDelta*=-1)}async onTrainBegin(a){this.wait=0,this.stoppedEpoch=0,this.baseline!=null?this.best=this.baseline:this.best=this.monitorFunc===g?1/0:-1/0}async onEpochEnd(a,s){await ve(s);const t=this.getMonitorValue(s);t!=null&&(this.monitorFunc(t-this.minDelta,this.best)?(this.best=t,this.wait=0):(this.wait++,this.wait>=this.patience&&(this.stoppedEpoch=a,this.model.stopTraining=!0)))}async onTrainEnd(a){this.stoppedEpoch>0&&this.verbose&&console.log(`Epoch ${this.stoppedEpoch}: early stopping.`)}getMonitorValue(a){a==null&&(a={});const s=a[this.monitor];return s==null&&console.warn(`Metric for EarlyStopping ${this.monitor} is not available. Available metrics are: ${Object.keys(a)}`),s}}function Vn(e){return new In(e)}const br={earlyStopping:Vn};/** @license See the LICENSE file. */const jn="4.22.0";/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class Z extends x{constructor(a){super(),this.input=a}async iterator(){return(await this.input.iterator()).decodeUTF8().split(`
-`).map(a=>(a.endsWith("\r")&&(a=a.slice(0,-1)),a))}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/const w='"',m=Symbol("out"),L=Symbol("field"),b=Symbol("quote"),S=Symbol("quoteafterquote"),q=Symbol("quoteinquote");class Y extends x{async columnNames(){return this.columnNamesValidated||await this.setColumnNames(),this.configuredColumnsOnly?Object.keys(this.columnConfigs):this.fullColumnNames}async setColumnNames(){const a=await this.maybeReadHeaderLine();if(!this.fullColumnNames&&!a)throw new Error("Column names must be provided if there is no header line.");this.fullColumnNames&&a&&l(a.length===this.fullColumnNames.length,()=>"The length of provided columnNames ("+this.fullColumnNames.length.toString()+") does not match the length of the header line read from file ("+a.length.toString()+")."),this.fullColumnNames||(this.fullColumnNames=a);const s=this.fullColumnNames.reduce((n,o)=>(n[o]=n[o]+1||1,n),{}),t=Object.keys(s).filter(n=>s[n]>1);if(l(t.length===0,()=>"Duplicate column names found: "+t.toString()),this.columnConfigs){for(const n of Object.keys(this.columnConfigs))if(this.fullColumnNames.indexOf(n)===-1)throw new Error('The key "'+n+'" provided in columnConfigs does not match any of the column names ('+this.fullColumnNames.toString()+").")}this.columnNamesValidated=!0}async maybeReadHeaderLine(){if(this.hasHeader){const a=await(await this.base.iterator()).next();if(a.done)throw new Error("No data was found for CSV parsing.");const s=a.value;return this.parseRow(s,!1)}else return null}constructor(a,s){super(),this.input=a,this.hasHeader=!0,this.fullColumnNames=null,this.columnNamesValidated=!1,this.columnConfigs=null,this.configuredColumnsOnly=!1,this.delimiter=",",this.delimWhitespace=!1,this.base=new Z(a),s||(s={}),this.hasHeader=s.hasHeader!==!1,this.fullColumnNames=s.columnNames,this.columnConfigs=s.columnConfigs,this.configuredColumnsOnly=s.configuredColumnsOnly,s.delimWhitespace?(l(s.delimiter==null,()=>"Delimiter should not be provided when delimWhitespace is true."),this.delimWhitespace=!0,this.delimiter=" "):this.delimiter=s.delimiter?s.delimiter:","}async iterator(){this.columnNamesValidated||await this.setColumnNames();let a=await this.base.iterator();return this.hasHeader&&(a=a.skip(1)),a.map(s=>this.makeDataElement(s))}makeDataElement(a){const s=this.parseRow(a),t={},n={};for(let o=0;o<this.fullColumnNames.length;o++){const i=this.fullColumnNames[o],r=this.columnConfigs?this.columnConfigs[i]:null;if(!(this.configuredColumnsOnly&&!r)){const c=s[o];let u=null;if(c==="")if(r&&r.default!==void 0)u=r.default;else{if(r&&(r.required||r.isLabel))throw new Error(`Required column ${i} is empty in this line: ${a}`);u=void 0}else{const f=Number(c);if(isNaN(f))r&&r.dtype==="bool"?u=this.getBoolean(c):u=c;else if(!r||!r.dtype)u=f;else switch(r.dtype){case"float32":u=f;break;case"int32":u=Math.floor(f);break;case"bool":u=this.getBoolean(c);break;default:u=f}}r&&r.isLabel?n[i]=u:t[i]=u}}return Object.keys(n).length===0?t:{xs:t,ys:n}}getBoolean(a){return a==="1"||a.toLowerCase()==="true"?1:0}parseRow(a,s=!0){const t=[];let n=0;const o=a.length;let i=m;for(let r=0;r<o;r++)switch(i){case m:switch(a.charAt(r)){case w:n=r+1,i=b;break;case this.delimiter:if(n=r+1,this.delimiter===" "&&this.delimWhitespace)break;t.push(""),i=m;break;default:i=L,n=r;break}break;case L:switch(a.charAt(r)){case this.delimiter:t.push(a.substring(n,r)),i=m,n=r+1;break}break;case b:switch(a.charAt(r)){case w:i=S;break}break;case S:switch(a.charAt(r)){case this.delimiter:t.push(a.substring(n,r-1)),i=m,n=r+1;break;case w:i=b;break;default:i=q;break}break;case q:switch(a.charAt(r)){case w:i=b;break}break}if(i===S?t.push(a.substring(n,o-1)):t.push(a.substring(n)),s&&t.length!==this.fullColumnNames.length)throw new Error(`Invalid row in csv file. Should have ${this.fullColumnNames.length} elements in a row, but got ${t}`);return t}}/**
-* @license
-* Copyright 2019 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class D extends v{constructor(a){super(),this.microphoneConfig=a,this.isClosed=!1,this.fftSize=a.fftSize||1024;const s=Math.log2(this.fftSize);if(this.fftSize<0||s<4||s>14||!Number.isInteger(s))throw new Error(`Invalid fftSize: it must be a power of 2 between 2 to 4 and 2 to 14, but got ${this.fftSize}`);if(this.numFrames=a.numFramesPerSpectrogram||43,this.sampleRateHz=a.sampleRateHz,this.columnTruncateLength=a.columnTruncateLength||this.fftSize,this.audioTrackConstraints=a.audioTrackConstraints,this.smoothingTimeConstant=a.smoothingTimeConstant||0,this.includeSpectrogram=a.includeSpectrogram!==!1,this.includeWaveform=a.includeWaveform===!0,!this.includeSpectrogram&&!this.includeWaveform)throw new Error("Both includeSpectrogram and includeWaveform are false. At least one type of data should be returned.")}summary(){return"microphone"}static async create(a={}){if(!h().get("IS_BROWSER"))throw new Error("microphone API is only supported in browser environment.");const s=new D(a);return await s.start(),s}async start(){try{this.stream=await navigator.mediaDevices.getUserMedia({audio:this.audioTrackConstraints==null?!0:this.audioTrackConstraints,video:!1})}catch(t){throw new Error(`Error thrown while initializing video stream: ${t.message}`)}if(!this.stream)throw new Error("Could not obtain audio from microphone.");const a=window.AudioContext||window.webkitAudioContext;if(this.audioContext=new a,!this.sampleRateHz)this.sampleRateHz=this.audioContext.sampleRate;else if(this.audioContext.sampleRate!==this.sampleRateHz)throw new Error(`Mismatch in sampling rate: Expected: ${this.sampleRateHz}; Actual: ${this.audioContext.sampleRate}`);const s=this.audioContext.createMediaStreamSource(this.stream);this.analyser=this.audioContext.createAnalyser(),this.analyser.fftSize=this.fftSize*2,this.analyser.smoothingTimeConstant=this.smoothingTimeConstant,s.connect(this.analyser),this.freqData=new Float32Array(this.fftSize),this.timeData=new Float32Array(this.fftSize)}async next(){if(this.isClosed)return{value:null,done:!0};let a,s;const t=await this.getAudioData();if(this.includeSpectrogram){const n=this.flattenQueue(t.freqDataQueue);a=this.getTensorFromAudioDataArray(n,[this.numFrames,this.columnTruncateLength,1])}if(this.includeWaveform){const n=this.flattenQueue(t.timeDataQueue);s=this.getTensorFromAudioDataArray(n,[this.numFrames*this.fftSize,1])}return{value:{spectrogram:a,waveform:s},done:!1}}async capture(){return(await this.next()).value}async getAudioData(){const a=[],s=[];let t=0;return new Promise(n=>{const o=setInterval(()=>{this.includeSpectrogram&&(this.analyser.getFloatFrequencyData(this.freqData),this.freqData[0]===-1/0&&n({freqDataQueue:a,timeDataQueue:s}),a.push(this.freqData.slice(0,this.columnTruncateLength))),this.includeWaveform&&(this.analyser.getFloatTimeDomainData(this.timeData),s.push(this.timeData.slice())),++t===this.numFrames&&(clearInterval(o),n({freqDataQueue:a,timeDataQueue:s}))},this.fftSize/this.sampleRateHz*1e3)})}stop(){this.isClosed||(this.isClosed=!0,this.analyser.disconnect(),this.audioContext.close(),this.stream!=null&&this.stream.getTracks().length>0&&this.stream.getTracks()[0].stop())}toArray(){throw new Error("Can not convert infinite audio stream to array.")}getSampleRate(){return this.sampleRateHz}flattenQueue(a){const s=a[0].length,t=new Float32Array(a.length*s);return a.forEach((n,o)=>t.set(n,o*s)),t}getTensorFromAudioDataArray(a,s){const t=new Float32Array(bs(s));return t.set(a,t.length-a.length),ys(t,s)}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class M extends v{constructor(a,s){if(super(),this.webcamVideoElement=a,this.webcamConfig=s,this.isClosed=!0,this.resize=!1,this.needToResize())if(this.resize=!0,this.cropSize=[this.webcamConfig.resizeHeight,this.webcamConfig.resizeWidth],this.cropBoxInd=vs([0],"int32"),this.webcamConfig.centerCrop){const t=this.webcamConfig.resizeWidth*1/this.webcamVideoElement.width,n=this.webcamConfig.resizeHeight*1/this.webcamVideoElement.height,o=(1-t)/2,i=(1-n)/2,r=o+t,c=n+i;this.cropBox=B([i,o,c,r],[1,4])}else this.cropBox=B([0,0,1,1],[1,4])}summary(){return"webcam"}static async create(a,s={}){if(!h().get("IS_BROWSER"))throw new Error("tf.data.webcam is only supported in browser environment.");if(!a){if(a=document.createElement("video"),!s.resizeWidth||!s.resizeHeight)throw new Error("Please provide webcam video element, or resizeWidth and resizeHeight to create a hidden video element.");a.width=s.resizeWidth,a.height=s.resizeHeight}const t=new M(a,s);return await t.start(),t}async start(){this.webcamConfig.facingMode&&l(this.webcamConfig.facingMode==="user"||this.webcamConfig.facingMode==="environment",()=>`Invalid webcam facing mode: ${this.webcamConfig.facingMode}. Please provide 'user' or 'environment'`);try{this.stream=await navigator.mediaDevices.getUserMedia({video:{deviceId:this.webcamConfig.deviceId,facingMode:this.webcamConfig.facingMode?this.webcamConfig.facingMode:"user",width:this.webcamVideoElement.width,height:this.webcamVideoElement.height}})}catch(a){throw a.message=`Error thrown while initializing video stream: ${a.message}`,a}if(!this.stream)throw new Error("Could not obtain video from webcam.");try{this.webcamVideoElement.srcObject=this.stream}catch(a){console.log(a),this.webcamVideoElement.src=window.URL.createObjectURL(this.stream)}return this.webcamVideoElement.play(),this.isClosed=!1,new Promise(a=>{this.webcamVideoElement.onloadedmetadata=()=>{a()}})}async next(){if(this.isClosed)return{value:null,done:!0};let a;try{a=Ss(this.webcamVideoElement)}catch(s){throw new Error(`Error thrown converting video to pixels: ${JSON.stringify(s)}`)}if(this.resize)try{return{value:this.cropAndResizeFrame(a),done:!1}}catch(s){throw new Error(`Error thrown cropping the video: ${s.message}`)}finally{a.dispose()}else return{value:a,done:!1}}needToResize(){return!!(this.webcamConfig.resizeWidth&&this.webcamConfig.resizeHeight&&(this.webcamVideoElement.width!==this.webcamConfig.resizeWidth||this.webcamVideoElement.height!==this.webcamConfig.resizeHeight))}cropAndResizeFrame(a){return Cs(()=>{const s=xs(y(a,"float32"),0);let t;t=As.cropAndResize(s,this.cropBox,this.cropBoxInd,this.cropSize,"bilinear");const n=t.shape;return ks(t,n.slice(1))})}async capture(){return(await this.next()).value}stop(){this.stream.getTracks().forEach(a=>a.stop());try{this.webcamVideoElement.srcObject=null}catch(a){console.log(a),this.webcamVideoElement.src=null}this.isClosed=!0}toArray(){throw new Error("Can not convert infinite video stream to array.")}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class ee{}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class ae extends v{split(a){return new Wn(this,a)}}class Wn extends ae{constructor(a,s){super(),this.upstream=a,this.impl=new Un(a,s)}summary(){return this.impl.summary()}async next(){return this.impl.next()}}class Un extends U{constructor(a,s){super(),this.upstream=a,this.separator=s,this.carryover=""}summary(){return`${this.upstream.summary()} -> Split('${this.separator}')`}async pump(){const a=await this.upstream.next();if(a.done)return this.carryover===""?!1:(this.outputQueue.push(this.carryover),this.carryover="",!0);const s=a.value.split(this.separator);s[0]=this.carryover+s[0];for(const t of s.slice(0,-1))this.outputQueue.push(t);return this.carryover=s[s.length-1],!0}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class Gn extends v{decodeUTF8(){return new Hn(this)}}class Hn extends ae{constructor(a){super(),this.upstream=a,this.impl=new Qn(a)}summary(){return this.impl.summary()}async next(){return this.impl.next()}}class Qn extends U{constructor(a){if(super(),this.upstream=a,h().get("IS_BROWSER"))this.decoder=new TextDecoder("utf-8");else{const{StringDecoder:s}=require("string_decoder");this.decoder=new s("utf8")}}summary(){return`${this.upstream.summary()} -> Utf8`}async pump(){const a=await this.upstream.next();let s;if(a.done)return!1;s=a.value;let t;return h().get("IS_BROWSER")?t=this.decoder.decode(s,{stream:!0}):t=this.decoder.write(Buffer.from(s.buffer)),this.outputQueue.push(t),!0}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class se extends Gn{constructor(a,s={}){super(),this.file=a,this.options=s,l(a instanceof Uint8Array||(h().get("IS_BROWSER")?a instanceof File||a instanceof Blob:!1),()=>"FileChunkIterator only supports File, Blob and Uint8Array right now."),this.offset=s.offset||0,this.chunkSize=s.chunkSize||1024*1024}summary(){return`FileChunks ${this.file}`}async next(){return this.offset>=(this.file instanceof Uint8Array?this.file.byteLength:this.file.size)?{value:null,done:!0}:{value:await new Promise((a,s)=>{const t=this.offset+this.chunkSize;if(this.file instanceof Uint8Array)a(new Uint8Array(this.file.slice(this.offset,t)));else{const n=new FileReader;n.onload=i=>{let r=n.result;if(r instanceof ArrayBuffer&&(r=new Uint8Array(r)),!(r instanceof Uint8Array))return s(new TypeError("FileReader returned unknown type."));a(r)},n.onabort=i=>s(new Error("Aborted")),n.onerror=i=>s(new Error(i.type));const o=this.file.slice(this.offset,t);n.readAsArrayBuffer(o)}this.offset=t}),done:!1}}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/async function Kn(e,a={},s){let t,n;typeof e=="string"?t=e:(t=e.url,n=Jn(e));const o=await Es(t,n);if(o.ok){const i=new Uint8Array(await o.arrayBuffer());return new se(i,a)}else throw new Error(o.statusText)}const Jn=e=>({method:e.method,headers:e.headers,body:e.body,mode:e.mode,credentials:e.credentials,cache:e.cache,redirect:e.redirect,referrer:e.referrer,integrity:e.integrity});/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/function te(e){return typeof e=="string"&&e.slice(0,7)==="file://"}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class ne extends ee{constructor(a,s={}){super(),this.input=a,this.options=s}async iterator(){if(te(this.input)&&h().get("IS_NODE")){const a=require("fs");this.input=a.readFileSync(this.input.slice(7))}return new se(this.input,this.options)}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class re extends ee{constructor(a,s={}){super(),this.url=a,this.fileOptions=s}async iterator(){return te(this.url)?new ne(this.url,this.fileOptions).iterator():Kn(this.url,this.fileOptions)}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/function Xn(e,a={}){return new Y(new re(e),a)}function Zn(e){const a=j(e);return W(async()=>a)}function Yn(e){return W(async()=>{const a=await e();return j(()=>a.next())})}async function er(e,a){return M.create(e,a)}async function ar(e){return D.create(e)}/** @license See the LICENSE file. */const ie="4.22.0";/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-* =============================================================================
-*/const yr=Object.freeze(Object.defineProperty({__proto__:null,CSVDataset:Y,Dataset:x,FileDataSource:ne,TextLineDataset:Z,URLDataSource:re,array:Se,csv:Xn,func:Zn,generator:Yn,microphone:ar,version_data:ie,webcam:er,zip:Ce},Symbol.toStringTag,{value:"Module"}));/** @license See the LICENSE file. */const sr="4.22.0";/** @license See the LICENSE file. */const tr="4.22.0";/** @license See the LICENSE file. */const nr="4.22.0";/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-* =============================================================================
-*/const vr={"tfjs-core":$s,"tfjs-backend-cpu":sr,"tfjs-backend-webgl":tr,"tfjs-data":ie,"tfjs-layers":xe,"tfjs-converter":jn,tfjs:nr};export{xr as Abs,Ar as Acos,kr as Acosh,Er as AdadeltaOptimizer,Nr as AdagradOptimizer,Fr as AdamOptimizer,_r as AdamaxOptimizer,zr as Add,Dr as AddN,Mr as All,Rr as Any,Tr as ArgMax,Pr as ArgMin,Or as Asin,Br as Asinh,$r as Atan,Lr as Atan2,qr as Atanh,Ir as AvgPool,Vr as AvgPool3D,jr as AvgPool3DGrad,Wr as AvgPoolGrad,Ur as BatchMatMul,Gr as BatchToSpaceND,Hr as Bincount,Qr as BitwiseAnd,Kr as BroadcastArgs,Jr as BroadcastTo,qn as Callback,Xr as CallbackList,Zr as Cast,Yr as Ceil,ei as ClipByValue,ai as Complex,si as ComplexAbs,ti as Concat,ni as Conv2D,ri as Conv2DBackpropFilter,ii as Conv2DBackpropInput,oi as Conv3D,ci as Conv3DBackpropFilterV2,ui as Conv3DBackpropInputV2,li as Cos,di as Cosh,hi as CropAndResize,fi as Cumprod,mi as Cumsum,pi as CustomCallback,gi as DataStorage,wi as DenseBincount,bi as DepthToSpace,yi as DepthwiseConv2dNative,vi as DepthwiseConv2dNativeBackpropFilter,Si as DepthwiseConv2dNativeBackpropInput,Ci as Diag,xi as Dilation2D,Ai as Dilation2DBackpropFilter,ki as Dilation2DBackpropInput,Ei as Draw,Ni as ENV,In as EarlyStopping,Fi as Einsum,_i as Elu,zi as EluGrad,Di as Environment,Mi as Equal,Ri as Erf,Ti as Exp,Pi as ExpandDims,Oi as Expm1,Bi as FFT,$i as Fill,Li as FlipLeftRight,qi as Floor,Ii as FloorDiv,Vi as FromPixels,ji as FusedBatchNorm,Wi as FusedConv2D,Ui as FusedDepthwiseConv2D,Gi as GPGPUContext,Hi as GatherNd,Qi as GatherV2,Ki as GraphModel,Ji as Greater,Xi as GreaterEqual,Zi as History,Yi as IFFT,eo as Identity,ao as Imag,so as InputSpec,to as IsFinite,no as IsInf,ro as IsNan,io as KernelBackend,oo as LRN,co as LRNGrad,uo as LayerVariable,I as LayersModel,lo as LeakyRelu,ho as Less,fo as LessEqual,mo as LinSpace,po as Log,go as Log1p,wo as LogSoftmax,bo as LogicalAnd,yo as LogicalNot,vo as LogicalOr,So as LogicalXor,Co as LowerBound,xo as MathBackendCPU,Ao as MathBackendWebGL,ko as MatrixBandPart,Eo as Max,No as MaxPool,Fo as MaxPool3D,_o as MaxPool3DGrad,zo as MaxPoolGrad,Do as MaxPoolWithArgmax,Mo as Maximum,Ro as Mean,To as Min,Po as Minimum,Oo as MirrorPad,Bo as Mod,$o as MomentumOptimizer,Lo as Multinomial,qo as Multiply,Io as Neg,Vo as NonMaxSuppressionV3,jo as NonMaxSuppressionV4,Wo as NonMaxSuppressionV5,Uo as NotEqual,Go as OP_SCOPE_SUFFIX,Ho as OneHot,Qo as OnesLike,Ko as Optimizer,Jo as OptimizerConstructors,Xo as Pack,Zo as PadV2,Yo as Pool,ec as Pow,ac as Prelu,sc as Prod,tc as RMSPropOptimizer,V as RNN,nc as RaggedGather,rc as RaggedRange,ic as RaggedTensorToTensor,oc as Range,cc as Rank,uc as Real,lc as RealDiv,dc as Reciprocal,hc as Reduction,fc as Relu,mc as Relu6,pc as Reshape,gc as ResizeBilinear,wc as ResizeBilinearGrad,bc as ResizeNearestNeighbor,yc as ResizeNearestNeighborGrad,vc as Reverse,Sc as RotateWithOffset,Cc as Round,xc as Rsqrt,Ac as SGDOptimizer,kc as ScatterNd,Ec as SearchSorted,Nc as Select,Fc as Selu,he as Sequential,_c as Sigmoid,zc as Sign,Dc as Sin,Mc as Sinh,Rc as Slice,Tc as Softmax,Pc as Softplus,Oc as SpaceToBatchND,Bc as SparseFillEmptyRows,$c as SparseReshape,Lc as SparseSegmentMean,qc as SparseSegmentSum,Ic as SparseToDense,Vc as SplitV,jc as Sqrt,Wc as Square,Uc as SquaredDifference,Gc as StaticRegexReplace,Hc as Step,Qc as StridedSlice,Kc as StringNGrams,Jc as StringSplit,Xc as StringToHashBucketFast,Zc as Sub,Yc as Sum,eu as SymbolicTensor,au as Tan,su as Tanh,tu as Tensor,nu as TensorBuffer,ru as TensorScatterUpdate,iu as Tile,ou as TopK,cu as Transform,uu as Transpose,lu as Unique,du as Unpack,hu as UnsortedSegmentSum,fu as UpperBound,mu as Variable,pu as ZerosLike,gu as _FusedMatMul,wu as abs,bu as acos,yu as acosh,vu as add,Su as addN,Cu as all,xu as any,Au as argMax,ku as argMin,Eu as asin,Nu as asinh,Fu as atan,_u as atan2,zu as atanh,Du as avgPool,Mu as avgPool3d,Ru as backend,Tu as backend_util,Pu as basicLSTMCell,Ou as batchNorm,Bu as batchNorm2d,$u as batchNorm3d,Lu as batchNorm4d,qu as batchToSpaceND,Iu as bincount,Vu as bitwiseAnd,ju as booleanMaskAsync,Wu as broadcastArgs,Uu as broadcastTo,Gu as broadcast_util,Hu as browser,Qu as buffer,br as callbacks,y as cast,Ku as ceil,Ju as clipByValue,Xu as clone,Zu as complex,Yu as concat,el as concat1d,al as concat2d,sl as concat3d,tl as concat4d,ur as constraints,nl as conv1d,rl as conv2d,il as conv2dTranspose,ol as conv3d,cl as conv3dTranspose,ul as copyRegisteredKernels,ll as cos,dl as cosh,hl as cosineWindow,fl as cumprod,ml as cumsum,pl as customGrad,yr as data,gl as denseBincount,wl as deprecationWarn,bl as depthToSpace,yl as depthwiseConv2d,vl as deregisterOp,Sl as device_util,Cl as diag,xl as dilation2d,Al as disableDeprecationWarnings,kl as dispose,El as disposeVariables,Nl as div,Fl as divNoNan,_l as dot,zl as dropout,Dl as einsum,Ml as elu,Rl as enableDebugMode,Tl as enableProdMode,Pl as enclosingPowerOfTwo,Ol as engine,Bl as ensureShape,h as env,$l as equal,Ll as erf,ql as euclideanNorm,Il as exp,xs as expandDims,Vl as expm1,jl as eye,Wl as fft,Ul as fill,Gl as findBackend,Hl as findBackendFactory,Ql as floor,Kl as floorDiv,Jl as forceHalfFloat,Xl as fused,Zl as gather,Yl as gatherND,ed as gather_util,ad as getBackend,sd as getGradient,td as getKernel,nd as getKernelsForBackend,rd as gpgpu_util,id as grad,od as grads,cd as greater,ud as greaterEqual,ld as ifft,dd as imag,As as image,hd as inTopKAsync,lr as initializers,nt as input,fd as io,md as irfft,pd as isFinite,gd as isInf,wd as isNaN,bd as keep,cr as kernel_impls,mr as layers,yd as leakyRelu,vd as less,Sd as lessEqual,Cd as linalg,xd as linspace,Ad as loadGraphModel,kd as loadGraphModelSync,Ed as loadLayersModel,Nd as localResponseNormalization,Fd as log,_d as log1p,zd as logSigmoid,Dd as logSoftmax,Md as logSumExp,Rd as logicalAnd,Td as logicalNot,Pd as logicalOr,Od as logicalXor,Bd as losses,$d as lowerBound,Fe as matMul,or as math,Ld as max,qd as maxPool,Id as maxPool3d,Vd as maxPoolWithArgmax,jd as maximum,Wd as mean,Ud as memory,Gd as meshgrid,pr as metrics,Hd as min,Qd as minimum,Kd as mirrorPad,Jd as mod,dr as model,gr as models,Xd as moments,Zd as movingAverage,Yd as mul,eh as multiRNNCell,ah as multinomial,sh as neg,th as nextFrame,nh as norm,rh as notEqual,O as oneHot,ih as ones,oh as onesLike,oe as op,ch as outerProduct,uh as pad,lh as pad1d,dh as pad2d,hh as pad3d,fh as pad4d,mh as pool,ph as pow,gh as prelu,wh as print,bh as prod,yh as profile,vh as raggedGather,Sh as raggedRange,Ch as raggedTensorToTensor,xh as rand,Ah as randomGamma,kh as randomNormal,Eh as randomStandardNormal,Nh as randomUniform,Fh as randomUniformInt,_h as range,zh as ready,Dh as real,Mh as reciprocal,Rh as registerBackend,fr as registerCallbackConstructor,Th as registerGradient,Ph as registerKernel,Oh as registerOp,wr as regularizers,Bh as relu,$h as relu6,Lh as removeBackend,ks as reshape,qh as reverse,Ih as reverse1d,Vh as reverse2d,jh as reverse3d,Wh as reverse4d,Uh as rfft,Gh as round,Hh as rsqrt,Qh as scalar,Kh as scatterND,Jh as scatter_util,Xh as searchSorted,Zh as selu,Yh as separableConv2d,hr as sequential,ef as serialization,af as setBackend,sf as setPlatform,tf as setWebGLContext,nf as setdiff1dAsync,rf as shared,of as sigmoid,cf as sign,uf as signal,lf as sin,df as sinh,hf as slice,ff as slice1d,mf as slice2d,pf as slice3d,gf as slice4d,wf as slice_util,bf as softmax,yf as softplus,vf as spaceToBatchND,Sf as sparse,Cf as sparseToDense,xf as spectral,Af as split,kf as sqrt,Ef as square,Nf as squaredDifference,Ff as squeeze,_f as stack,zf as step,Df as stridedSlice,Mf as string,Rf as sub,Tf as sum,Pf as sumOutType,Of as tan,Bf as tanh,ys as tensor,vs as tensor1d,B as tensor2d,$f as tensor3d,Lf as tensor4d,qf as tensor5d,If as tensor6d,Vf as tensorScatterUpdate,jf as tensor_util,ir as test_util,Cs as tidy,Wf as tile,Uf as time,Gf as topk,Hf as train,Ne as transpose,Qf as truncatedNormal,Kf as unique,Jf as unregisterGradient,Xf as unregisterKernel,Zf as unsortedSegmentSum,Yf as unstack,em as upcastType,am as upperBound,sm as util,tm as valueAndGrad,nm as valueAndGrads,rm as variable,im as variableGrads,vr as version,jn as version_converter,$s as version_core,sr as version_cpu,xe as version_layers,tr as version_webgl,om as webgl,cm as webgl_util,um as where,lm as whereAsync,dm as zeros,hm as zerosLike};
@@ -1,360 +0,0 @@
-import{U as oe,R as ce,F as ue,A as le,a as de,N as I,M as he,h as fe,T as me,b as pe,k as V,l as ge,L as we,c as be,e as ye,d as ve,m as x,j as Se,H as Ce,Z as xe,B as Ae,f as d,y as R,J as ke,W as T,g as p,z as Ee,i as P,n as l,o as O,p as y,q as Ne,r as Fe,s as _e,t as Me,u as ze,v as De,w as Re,x as Te,C as Pe,_ as Oe,D as Be,O as $e,E as Le,G as qe,X as Ie,Y as Ve,Q as je,I as We,K as Ue,P as Ge,S as He,V as Qe,$ as Ke,a0 as Je,a1 as Xe,a2 as Ze,a3 as Ye,a4 as et,a5 as tt,a6 as at,a7 as st,a8 as nt,a9 as rt,aa as it,ab as ot,ac as ct,ad as ut,ae as lt,af as dt,ag as ht,ah as ft,ai as mt,aj as pt,ak as gt,al as wt,am as bt,an as yt,ao as vt,ap as St,aq as Ct,ar as xt,as as At,at as kt,au as Et,av as Nt,aw as Ft,ax as _t,ay as Mt,az as zt,aA as Dt,aB as Rt,aC as Tt,aD as Pt,aE as Ot,aF as Bt,aG as $t,aH as Lt,aI as qt,aJ as It,aK as Vt,aL as jt,aM as Wt,aN as Ut,aO as Gt,aP as Ht,aQ as Qt,aR as Kt,aS as Jt,aT as Xt,aU as Zt,aV as Yt,aW as ea,aX as ta,aY as aa,aZ as sa,a_ as na,a$ as ra,b0 as ia,b1 as oa,b2 as ca,b3 as ua,b4 as la,b5 as da,b6 as ha,b7 as fa,b8 as A,b9 as k,ba as ma,bb as pa,bc as ga,bd as wa,be as h,bf as j,bg as W,bh as v,bi as ba,bj as ya,bk as va,bl as B,bm as Sa,bn as Ca,bo as xa,bp as Aa,bq as ka,br as Ea,bs as U}from"./index-DOFN8r8Y.js";import{bt as xr,bu as Ar,bv as kr,bw as Er,bx as Nr,by as Fr,bz as _r,bA as Mr,bB as zr,bC as Dr,bD as Rr,bE as Tr,bF as Pr,bG as Or,bH as Br,bI as $r,bJ as Lr,bK as qr,bL as Ir,bM as Vr,bN as jr,bO as Wr,bP as Ur,bQ as Gr,bR as Hr,bS as Qr,bT as Kr,bU as Jr,bV as Xr,bW as Zr,bX as Yr,bY as ei,bZ as ti,b_ as ai,b$ as si,c0 as ni,c1 as ri,c2 as ii,c3 as oi,c4 as ci,c5 as ui,c6 as li,c7 as di,c8 as hi,c9 as fi,ca as mi,cb as pi,cc as gi,cd as wi,ce as bi,cf as yi,cg as vi,ch as Si,ci as Ci,cj as xi,ck as Ai,cl as ki,cm as Ei,cn as Ni,co as Fi,cp as _i,cq as Mi,cr as zi,cs as Di,ct as Ri,cu as Ti,cv as Pi,cw as Oi,cx as Bi,cy as $i,cz as Li,cA as qi,cB as Ii,cC as Vi,cD as ji,cE as Wi,cF as Ui,cG as Gi,cH as Hi,cI as Qi,cJ as Ki,cK as Ji,cL as Xi,cM as Zi,cN as Yi,cO as eo,cP as to,cQ as ao,cR as so,cS as no,cT as ro,cU as io,cV as oo,cW as co,cX as uo,cY as lo,cZ as ho,c_ as fo,c$ as mo,d0 as po,d1 as go,d2 as wo,d3 as bo,d4 as yo,d5 as vo,d6 as So,d7 as Co,d8 as xo,d9 as Ao,da as ko,db as Eo,dc as No,dd as Fo,de as _o,df as Mo,dg as zo,dh as Do,di as Ro,dj as To,dk as Po,dl as Oo,dm as Bo,dn as $o,dp as Lo,dq as qo,dr as Io,ds as Vo,dt as jo,du as Wo,dv as Uo,dw as Go,dx as Ho,dy as Qo,dz as Ko,dA as Jo,dB as Xo,dC as Zo,dD as Yo,dE as ec,dF as tc,dG as ac,dH as sc,dI as nc,dJ as rc,dK as ic,dL as oc,dM as cc,dN as uc,dO as lc,dP as dc,dQ as hc,dR as fc,dS as mc,dT as pc,dU as gc,dV as wc,dW as bc,dX as yc,dY as vc,dZ as Sc,d_ as Cc,d$ as xc,e0 as Ac,e1 as kc,e2 as Ec,e3 as Nc,e4 as Fc,e5 as _c,e6 as Mc,e7 as zc,e8 as Dc,e9 as Rc,ea as Tc,eb as Pc,ec as Oc,ed as Bc,ee as $c,ef as Lc,eg as qc,eh as Ic,ei as Vc,ej as jc,ek as Wc,el as Uc,em as Gc,en as Hc,eo as Qc,ep as Kc,eq as Jc,er as Xc,es as Zc,et as Yc,eu,ev as tu,ew as au,ex as su,ey as nu,ez as ru,eA as iu,eB as ou,eC as cu,eD as uu,eE as lu,eF as du,eG as hu,eH as fu,eI as mu,eJ as pu,eK as gu,eL as wu,eM as bu,eN as yu,eO as vu,eP as Su,eQ as Cu,eR as xu,eS as Au,eT as ku,eU as Eu,eV as Nu,eW as Fu,eX as _u,eY as Mu,eZ as zu,e_ as Du,e$ as Ru,f0 as Tu,f1 as Pu,f2 as Ou,f3 as Bu,f4 as $u,f5 as Lu,f6 as qu,f7 as Iu,f8 as Vu,f9 as ju,fa as Wu,fb as Uu,fc as Gu,fd as Hu,fe as Qu,ff as Ku,fg as Ju,fh as Xu,fi as Zu,fj as Yu,fk as el,fl as tl,fm as al,fn as sl,fo as nl,fp as rl,fq as il,fr as ol,fs as cl,ft as ul,fu as ll,fv as dl,fw as hl,fx as fl,fy as ml,fz as pl,fA as gl,fB as wl,fC as bl,fD as yl,fE as vl,fF as Sl,fG as Cl,fH as xl,fI as Al,fJ as kl,fK as El,fL as Nl,fM as Fl,fN as _l,fO as Ml,fP as zl,fQ as Dl,fR as Rl,fS as Tl,fT as Pl,fU as Ol,fV as Bl,fW as $l,fX as Ll,fY as ql,fZ as Il,f_ as Vl,f$ as jl,g0 as Wl,g1 as Ul,g2 as Gl,g3 as Hl,g4 as Ql,g5 as Kl,g6 as Jl,g7 as Xl,g8 as Zl,g9 as Yl,ga as ed,gb as td,gc as ad,gd as sd,ge as nd,gf as rd,gg as id,gh as od,gi as cd,gj as ud,gk as ld,gl as dd,gm as hd,gn as fd,go as md,gp as pd,gq as gd,gr as wd,gs as bd,gt as yd,gu as vd,gv as Sd,gw as Cd,gx as xd,gy as Ad,gz as kd,gA as Ed,gB as Nd,gC as Fd,gD as _d,gE as Md,gF as zd,gG as Dd,gH as Rd,gI as Td,gJ as Pd,gK as Od,gL as Bd,gM as $d,gN as Ld,gO as qd,gP as Id,gQ as Vd,gR as jd,gS as Wd,gT as Ud,gU as Gd,gV as Hd,gW as Qd,gX as Kd,gY as Jd,gZ as Xd,g_ as Zd,g$ as Yd,h0 as eh,h1 as th,h2 as ah,h3 as sh,h4 as nh,h5 as rh,h6 as ih,h7 as oh,h8 as ch,h9 as uh,ha as lh,hb as dh,hc as hh,hd as fh,he as mh,hf as ph,hg as gh,hh as wh,hi as bh,hj as yh,hk as vh,hl as Sh,hm as Ch,hn as xh,ho as Ah,hp as kh,hq as Eh,hr as Nh,hs as Fh,ht as _h,hu as Mh,hv as zh,hw as Dh,hx as Rh,hy as Th,hz as Ph,hA as Oh,hB as Bh,hC as $h,hD as Lh,hE as qh,hF as Ih,hG as Vh,hH as jh,hI as Wh,hJ as Uh,hK as Gh,hL as Hh,hM as Qh,hN as Kh,hO as Jh,hP as Xh,hQ as Zh,hR as Yh,hS as ef,hT as tf,hU as af,hV as sf,hW as nf,hX as rf,hY as of,hZ as cf,h_ as uf,h$ as lf,i0 as df,i1 as hf,i2 as ff,i3 as mf,i4 as pf,i5 as gf,i6 as wf,i7 as bf,i8 as yf,i9 as vf,ia as Sf,ib as Cf,ic as xf,id as Af,ie as kf,ig as Ef,ih as Nf,ii as Ff,ij as _f,ik as Mf,il as zf,im as Df,io as Rf,ip as Tf,iq as Pf,ir as Of,is as Bf,it as $f,iu as Lf,iv as qf,iw as If,ix as Vf,iy as jf,iz as Wf,iA as Uf,iB as Gf,iC as Hf,iD as Qf,iE as Kf,iF as Jf,iG as Xf,iH as Zf,iI as Yf,iJ as em,iK as tm,iL as am,iM as sm,iN as nm,iO as rm,iP as im,iQ as om,iR as cm,iS as um,iT as lm,iU as dm,iV as hm}from"./index-DOFN8r8Y.js";/**
- * @license
- * Copyright 2017 Google LLC. All Rights Reserved.
- * Licensed under the Apache License, Version 2.0 (the "License");
- * you may not use this file except in compliance with the License.
- * You may obtain a copy of the License at
- *
- * http://www.apache.org/licenses/LICENSE-2.0
- *
- * Unless required by applicable law or agreed to in writing, software
- * distributed under the License is distributed on an "AS IS" BASIS,
- * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
- * See the License for the specific language governing permissions and
- * limitations under the License.
- * =============================================================================
- */const Na=.001,G=.1;function Fa(e,t,a){return a==null&&(a=E()),C(e,t,(s,n)=>N(s,n,a))}function E(){return Ae.backend.floatPrecision()===32?Na:G}function C(e,t,a){let s=!0;if((d(e)||d(t))&&(s=!1),d(e)&&d(t)&&(s=!0),s){const i=e.constructor.name,r=t.constructor.name;if(i!==r)throw new Error(`Arrays are of different type. Actual: ${i}. Expected: ${r}`)}if(Array.isArray(e)&&Array.isArray(t)){const i=R(e),r=R(t);if(!ke(i,r))throw new Error(`Arrays have different shapes. Actual: [${i}]. Expected: [${r}]`)}const n=d(e)?e:T(e),o=d(t)?t:T(t);if(n.length!==o.length)throw new Error(`Arrays have different lengths actual: ${n.length} vs expected: ${o.length}.
-Actual:   ${n}.
-Expected: ${o}.`);for(let i=0;i<o.length;++i){const r=n[i],c=o[i];if(!a(r,c))throw new Error(`Arrays differ: actual[${i}] = ${r}, expected[${i}] = ${c}.
-Actual:   ${n}.
-Expected: ${o}.`)}typeof expect<"u"&&expect().nothing()}function _a(e,t){e().then(()=>t.fail(),()=>t()),typeof expect<"u"&&expect().nothing()}function Ma(e,t){const a=typeof t=="string"||typeof t=="number"||typeof t=="boolean"?[t]:t;return p(e)||p(e[0])||p(t)||p(t[0])?C(e,a,(s,n)=>s==n):C(e,t,(s,n)=>N(s,n,0))}function za(e,t,a){if(a==null&&(a=E()),!N(e,t,a))throw new Error(`Numbers differ: actual === ${e}, expected === ${t}`);typeof expect<"u"&&expect().nothing()}function N(e,t,a){return!isFinite(e)&&!isFinite(t)?!0:!(isNaN(e)||isNaN(t)||Math.abs(e-t)>a)}function Da(e,t,a){for(let s=0;s<e.length;s++)if(e[s]<t||e[s]>a)throw new Error(`Value out of range:${e[s]} low: ${t}, high: ${a}`)}function Ra(e,t){const a=new Float32Array(e),s=new Float32Array(t);if(a.length!==s.length)throw new Error(`Expected ArrayBuffer to be of length ${s.length}, but it was ${a.length}`);for(let n=0;n<s.length;n++)if(a[n]!==s[n])throw new Error(`Expected ArrayBuffer value at ${n} to be ${s[n]} but got ${a[n]} instead`)}function H(e){for(let t=0;t<e.length;t++){const a=e[t];Array.isArray(a)?H(a):e[t]=Ee(a)}return e}function Ta(e){const t=document.createElement("video");return"playsInline"in t&&(t.playsInline=!0),t.muted=!0,t.loop=!0,t.style.position="fixed",t.style.left="0px",t.style.top="0px",t.preload="auto",t.appendChild(e),new Promise(a=>{t.addEventListener("loadeddata",s=>a(t)),t.load()})}async function Pa(e){await e.play(),"requestVideoFrameCallback"in e&&await new Promise(t=>{e.requestVideoFrameCallback(t)})}const ir=Object.freeze(Object.defineProperty({__proto__:null,TEST_EPSILON_FLOAT16:G,createVideoElement:Ta,encodeStrings:H,expectArrayBuffersEqual:Ra,expectArraysClose:Fa,expectArraysEqual:Ma,expectNumbersClose:za,expectPromiseToFail:_a,expectValuesInRange:Da,play:Pa,testEpsilon:E},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-* =============================================================================
-*/function Oa(e,t,a){const s=P(e,"labels","confusionMatrix"),n=P(t,"predictions","confusionMatrix");l(a==null||a>0&&Number.isInteger(a),()=>`If provided, numClasses must be a positive integer, but got ${a}`),l(s.rank===1,()=>`Expected the rank of labels to be 1, but got ${s.rank}`),l(n.rank===1,()=>`Expected the rank of predictions to be 1, but got ${n.rank}`),l(s.shape[0]===n.shape[0],()=>`Mismatch in the number of examples: ${s.shape[0]} vs. ${n.shape[0]}. Labels and predictions should have the same number of elements.`),l(a>0&&Number.isInteger(a),()=>`numClasses is required to be a positive integer, but got ${a}`);const o=O(y(s,"int32"),a),i=O(y(n,"int32"),a),r=Ne(o),c=Fe(r,i);return y(c,"int32")}const Ba=oe({confusionMatrix_:Oa});/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-* =============================================================================
-*/const or=Object.freeze(Object.defineProperty({__proto__:null,confusionMatrix:Ba},Symbol.toStringTag,{value:"Module"}));/** @license See the LICENSE file. */const $a="4.22.0";/**
-* @license
-* Copyright 2020 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-* =============================================================================
-*/const cr=Object.freeze(Object.defineProperty({__proto__:null,nonMaxSuppressionV3Impl:ce,nonMaxSuppressionV4Impl:ue,nonMaxSuppressionV5Impl:le,whereImpl:de},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/function La(e){return new _e(e)}function qa(e){return new Me(e)}function Ia(){return new ze}function Va(e){return new De(e)}const ur=Object.freeze(Object.defineProperty({__proto__:null,maxNorm:La,minMaxNorm:Va,nonNeg:Ia,unitNorm:qa},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/function ja(){return new Re}function Wa(){return new Te}function Ua(e){return new Pe(e)}function Ga(e){return new Oe(e)}function Ha(e){return new Be(e)}function Qa(e){return new $e(e)}function Ka(e){return new Le(e)}function Ja(e){return new qe(e)}function Xa(e){return new Ie(e)}function Za(e){return new Ve(e)}function Ya(e){return new je(e)}function es(e){return new We(e)}function ts(e){return new Ue(e)}function as(e){return new Ge(e)}function ss(e){return new He(e)}const lr=Object.freeze(Object.defineProperty({__proto__:null,constant:Ua,glorotNormal:Za,glorotUniform:Xa,heNormal:Ya,heUniform:es,identity:Ka,leCunNormal:ts,leCunUniform:as,ones:Wa,orthogonal:ss,randomNormal:Ha,randomUniform:Ga,truncatedNormal:Qa,varianceScaling:Ja,zeros:ja},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/function dr(e){return new I(e)}function hr(e){return new he(e)}function ns(e){return fe(e)}function fr(e,t){me.registerCallbackConstructor(e,t)}/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/function rs(e){return new Qe(e)}function is(e){return new Ke(e)}function os(e){return new Je(e)}function cs(e){return new Xe(e)}function us(e){return new Ze(e)}function ls(e){return new Ye(e)}function ds(e){return new et(e)}function hs(e){return new tt(e)}function fs(e){return new at(e)}function ms(e){return new st(e)}function ps(e){return new nt(e)}function gs(e){return new rt(e)}function ws(e){return new it(e)}function bs(e){return new ot(e)}function ys(e){return new ct(e)}function vs(e){return new ut(e)}function Ss(e){return new lt(e)}function Cs(e){return new dt(e)}function xs(e){return new ht(e)}function As(e){return new ft(e)}function ks(e){return new mt(e)}function Es(e){return new pt(e)}function Ns(e){return new gt(e)}function Fs(e){return new wt(e)}function _s(e){return new bt(e)}function Ms(e){return new yt(e)}function zs(e){return new vt(e)}function Ds(e){return new St(e)}function Rs(e){return new Ct(e)}function Ts(e){return new xt(e)}function Ps(e){return new At(e)}function Os(e){return new kt(e)}function Bs(e){return new Et(e)}function $s(e){return new Nt(e)}function Ls(e){return new Ft(e)}function F(e){return new _t(e)}function qs(e){return F(e)}function Is(e){return F(e)}function _(e){return new Mt(e)}function Vs(e){return _(e)}function js(e){return _(e)}function M(e){return new zt(e)}function Ws(e){return M(e)}function Us(e){return M(e)}function Gs(e){return new Dt(e)}function Hs(e){return new Rt(e)}function Q(e){return new Tt(e)}function K(e){return new Pt(e)}function J(e){return new Ot(e)}function X(e){return new Bt(e)}function Qs(e){return new $t(e)}function Ks(e){return new Lt(e)}function Js(e){return new qt(e)}function Xs(e){return new It(e)}function Zs(e){return new Vt(e)}function Ys(e){return new jt(e)}function en(e){return new Wt(e)}function tn(e){return new Ut(e)}function an(e){return new Gt(e)}function sn(e){return new V(e)}function nn(e){return new Ht(e)}function rn(e){return new Qt(e)}function on(e){return new Kt(e)}const cn=Q,un=K,ln=J,dn=X;function hn(e){return new Jt(e)}function fn(e){return new Xt(e)}function mn(e){return new Zt(e)}function pn(e){return new Yt(e)}function gn(e){return new ea(e)}function wn(e){return new ta(e)}function bn(e){return new aa(e)}function yn(e){return new sa(e)}function vn(e){return new na(e)}const mr=Object.freeze(Object.defineProperty({__proto__:null,Layer:pe,RNN:V,RNNCell:ge,activation:Ss,add:Ms,alphaDropout:mn,average:zs,averagePooling1d:F,averagePooling2d:_,averagePooling3d:M,avgPool1d:qs,avgPool2d:Vs,avgPool3d:Ws,avgPooling1d:Is,avgPooling2d:js,avgPooling3d:Us,batchNormalization:Bs,bidirectional:rn,categoryEncoding:yn,centerCrop:wn,concatenate:Ds,conv1d:hs,conv2d:fs,conv2dTranspose:ms,conv3d:ps,conv3dTranspose:gs,convLstm2d:tn,convLstm2dCell:an,cropping2D:bs,dense:Cs,depthwiseConv2d:vs,dot:Os,dropout:xs,elu:is,embedding:_s,flatten:ks,gaussianDropout:fn,gaussianNoise:hn,globalAveragePooling1d:Gs,globalAveragePooling2d:Hs,globalMaxPool1d:cn,globalMaxPool2d:un,globalMaxPooling1d:Q,globalMaxPooling2d:K,gru:Ks,gruCell:Js,input:ns,inputLayer:rs,layerNormalization:$s,leakyReLU:cs,lstm:Xs,lstmCell:Zs,masking:pn,maxPool1d:ln,maxPool2d:dn,maxPooling1d:J,maxPooling2d:X,maxPooling3d:Qs,maximum:Rs,minimum:Ts,multiply:Ps,permute:Fs,prelu:us,randomWidth:vn,reLU:os,repeatVector:Es,rescaling:gn,reshape:Ns,resizing:bn,rnn:sn,separableConv2d:ws,simpleRNN:Ys,simpleRNNCell:en,softmax:ls,spatialDropout1d:As,stackedRNNCells:nn,thresholdedReLU:ds,timeDistributed:on,upSampling2d:ys,zeroPadding2d:Ls},Symbol.toStringTag,{value:"Module"}));function Sn(e,t){return ra(e,t)}function Cn(e,t){return ia(e,t)}function xn(e,t){return oa(e,t)}function An(e,t){return ca(e,t)}function kn(e,t){return ua(e,t)}function En(e,t){return la(e,t)}function Nn(e,t){return da(e,t)}function Fn(e,t){return ha(e,t)}function _n(e,t){return fa(e,t)}function Mn(e,t){return A(e,t)}function zn(e,t){return A(e,t)}function Dn(e,t){return A(e,t)}function Rn(e,t){return k(e,t)}function Tn(e,t){return k(e,t)}function Pn(e,t){return k(e,t)}function On(e,t){return ma(e,t)}const pr=Object.freeze(Object.defineProperty({__proto__:null,MAPE:zn,MSE:Tn,binaryAccuracy:Sn,binaryCrossentropy:Cn,categoricalAccuracy:An,categoricalCrossentropy:kn,cosineProximity:Fn,mape:Dn,meanAbsoluteError:_n,meanAbsolutePercentageError:Mn,meanSquaredError:Rn,mse:Pn,precision:En,r2Score:On,recall:Nn,sparseCategoricalAccuracy:xn},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/const gr=Object.freeze(Object.defineProperty({__proto__:null,modelFromJSON:we},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/function Bn(e){return new pa(e)}function $n(e){return ga(e)}function Ln(e){return wa(e)}const wr=Object.freeze(Object.defineProperty({__proto__:null,l1:$n,l1l2:Bn,l2:Ln},Symbol.toStringTag,{value:"Module"}));/**
-* @license
-* Copyright 2018 Google LLC
-*
-* Use of this source code is governed by an MIT-style
-* license that can be found in the LICENSE file or at
-* https://opensource.org/licenses/MIT.
-* =============================================================================
-*/class qn extends be{constructor(){super(...arguments),this.model=null}setModel(t){if(!(t instanceof I))throw new Error("model must be a LayersModel, not some other Container");this.model=t}}function g(e,t){return e<t}function $(e,t){return e>t}class In extends qn{constructor(t){if(super(),t==null&&(t={}),t.restoreBestWeights)throw new ye("restoreBestWeights = True is not implemented in EarlyStopping yet.");this.monitor=t.monitor||"val_loss",this.minDelta=Math.abs(t.minDelta||0),this.patience=t.patience||0,this.verbose=t.verbose||0,this.mode=t.mode||"auto",this.baseline=t.baseline,["auto","min","max"].indexOf(this.mode)===-1&&(console.warn(`EarlyStopping mode '${this.mode}' is invalid. Falling back to mode 'auto'.`),this.mode="auto"),this.mode==="min"?this.monitorFunc=g:this.mode==="max"?this.monitorFunc=$:this.monitor.indexOf("acc")!==-1?this.monitorFunc=$:this.monitorFunc=g,this.monitorFunc===g&&(this.minDelta*=-1)}async onTrainBegin(t){this.wait=0,this.stoppedEpoch=0,this.baseline!=null?this.best=this.baseline:this.best=this.monitorFunc===g?1/0:-1/0}async onEpochEnd(t,a){await ve(a);const s=this.getMonitorValue(a);s!=null&&(this.monitorFunc(s-this.minDelta,this.best)?(this.best=s,this.wait=0):(this.wait++,this.wait>=this.patience&&(this.stoppedEpoch=t,this.model.stopTraining=!0)))}async onTrainEnd(t){this.stoppedEpoch>0&&this.verbose&&console.log(`Epoch ${this.stoppedEpoch}: early stopping.`)}getMonitorValue(t){t==null&&(t={});const a=t[this.monitor];return a==null&&console.warn(`Metric for EarlyStopping ${this.monitor} is not available. Available metrics are: ${Object.keys(t)}`),a}}function Vn(e){return new In(e)}const br={earlyStopping:Vn};/** @license See the LICENSE file. */const jn="4.22.0";/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class Z extends x{constructor(t){super(),this.input=t}async iterator(){return(await this.input.iterator()).decodeUTF8().split(`
-`).map(t=>(t.endsWith("\r")&&(t=t.slice(0,-1)),t))}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/const w='"',m=Symbol("out"),L=Symbol("field"),b=Symbol("quote"),S=Symbol("quoteafterquote"),q=Symbol("quoteinquote");class Y extends x{async columnNames(){return this.columnNamesValidated||await this.setColumnNames(),this.configuredColumnsOnly?Object.keys(this.columnConfigs):this.fullColumnNames}async setColumnNames(){const t=await this.maybeReadHeaderLine();if(!this.fullColumnNames&&!t)throw new Error("Column names must be provided if there is no header line.");this.fullColumnNames&&t&&l(t.length===this.fullColumnNames.length,()=>"The length of provided columnNames ("+this.fullColumnNames.length.toString()+") does not match the length of the header line read from file ("+t.length.toString()+")."),this.fullColumnNames||(this.fullColumnNames=t);const a=this.fullColumnNames.reduce((n,o)=>(n[o]=n[o]+1||1,n),{}),s=Object.keys(a).filter(n=>a[n]>1);if(l(s.length===0,()=>"Duplicate column names found: "+s.toString()),this.columnConfigs){for(const n of Object.keys(this.columnConfigs))if(this.fullColumnNames.indexOf(n)===-1)throw new Error('The key "'+n+'" provided in columnConfigs does not match any of the column names ('+this.fullColumnNames.toString()+").")}this.columnNamesValidated=!0}async maybeReadHeaderLine(){if(this.hasHeader){const t=await(await this.base.iterator()).next();if(t.done)throw new Error("No data was found for CSV parsing.");const a=t.value;return this.parseRow(a,!1)}else return null}constructor(t,a){super(),this.input=t,this.hasHeader=!0,this.fullColumnNames=null,this.columnNamesValidated=!1,this.columnConfigs=null,this.configuredColumnsOnly=!1,this.delimiter=",",this.delimWhitespace=!1,this.base=new Z(t),a||(a={}),this.hasHeader=a.hasHeader!==!1,this.fullColumnNames=a.columnNames,this.columnConfigs=a.columnConfigs,this.configuredColumnsOnly=a.configuredColumnsOnly,a.delimWhitespace?(l(a.delimiter==null,()=>"Delimiter should not be provided when delimWhitespace is true."),this.delimWhitespace=!0,this.delimiter=" "):this.delimiter=a.delimiter?a.delimiter:","}async iterator(){this.columnNamesValidated||await this.setColumnNames();let t=await this.base.iterator();return this.hasHeader&&(t=t.skip(1)),t.map(a=>this.makeDataElement(a))}makeDataElement(t){const a=this.parseRow(t),s={},n={};for(let o=0;o<this.fullColumnNames.length;o++){const i=this.fullColumnNames[o],r=this.columnConfigs?this.columnConfigs[i]:null;if(!(this.configuredColumnsOnly&&!r)){const c=a[o];let u=null;if(c==="")if(r&&r.default!==void 0)u=r.default;else{if(r&&(r.required||r.isLabel))throw new Error(`Required column ${i} is empty in this line: ${t}`);u=void 0}else{const f=Number(c);if(isNaN(f))r&&r.dtype==="bool"?u=this.getBoolean(c):u=c;else if(!r||!r.dtype)u=f;else switch(r.dtype){case"float32":u=f;break;case"int32":u=Math.floor(f);break;case"bool":u=this.getBoolean(c);break;default:u=f}}r&&r.isLabel?n[i]=u:s[i]=u}}return Object.keys(n).length===0?s:{xs:s,ys:n}}getBoolean(t){return t==="1"||t.toLowerCase()==="true"?1:0}parseRow(t,a=!0){const s=[];let n=0;const o=t.length;let i=m;for(let r=0;r<o;r++)switch(i){case m:switch(t.charAt(r)){case w:n=r+1,i=b;break;case this.delimiter:if(n=r+1,this.delimiter===" "&&this.delimWhitespace)break;s.push(""),i=m;break;default:i=L,n=r;break}break;case L:switch(t.charAt(r)){case this.delimiter:s.push(t.substring(n,r)),i=m,n=r+1;break}break;case b:switch(t.charAt(r)){case w:i=S;break}break;case S:switch(t.charAt(r)){case this.delimiter:s.push(t.substring(n,r-1)),i=m,n=r+1;break;case w:i=b;break;default:i=q;break}break;case q:switch(t.charAt(r)){case w:i=b;break}break}if(i===S?s.push(t.substring(n,o-1)):s.push(t.substring(n)),a&&s.length!==this.fullColumnNames.length)throw new Error(`Invalid row in csv file. Should have ${this.fullColumnNames.length} elements in a row, but got ${s}`);return s}}/**
-* @license
-* Copyright 2019 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class z extends v{constructor(t){super(),this.microphoneConfig=t,this.isClosed=!1,this.fftSize=t.fftSize||1024;const a=Math.log2(this.fftSize);if(this.fftSize<0||a<4||a>14||!Number.isInteger(a))throw new Error(`Invalid fftSize: it must be a power of 2 between 2 to 4 and 2 to 14, but got ${this.fftSize}`);if(this.numFrames=t.numFramesPerSpectrogram||43,this.sampleRateHz=t.sampleRateHz,this.columnTruncateLength=t.columnTruncateLength||this.fftSize,this.audioTrackConstraints=t.audioTrackConstraints,this.smoothingTimeConstant=t.smoothingTimeConstant||0,this.includeSpectrogram=t.includeSpectrogram!==!1,this.includeWaveform=t.includeWaveform===!0,!this.includeSpectrogram&&!this.includeWaveform)throw new Error("Both includeSpectrogram and includeWaveform are false. At least one type of data should be returned.")}summary(){return"microphone"}static async create(t={}){if(!h().get("IS_BROWSER"))throw new Error("microphone API is only supported in browser environment.");const a=new z(t);return await a.start(),a}async start(){try{this.stream=await navigator.mediaDevices.getUserMedia({audio:this.audioTrackConstraints==null?!0:this.audioTrackConstraints,video:!1})}catch(s){throw new Error(`Error thrown while initializing video stream: ${s.message}`)}if(!this.stream)throw new Error("Could not obtain audio from microphone.");const t=window.AudioContext||window.webkitAudioContext;if(this.audioContext=new t,!this.sampleRateHz)this.sampleRateHz=this.audioContext.sampleRate;else if(this.audioContext.sampleRate!==this.sampleRateHz)throw new Error(`Mismatch in sampling rate: Expected: ${this.sampleRateHz}; Actual: ${this.audioContext.sampleRate}`);const a=this.audioContext.createMediaStreamSource(this.stream);this.analyser=this.audioContext.createAnalyser(),this.analyser.fftSize=this.fftSize*2,this.analyser.smoothingTimeConstant=this.smoothingTimeConstant,a.connect(this.analyser),this.freqData=new Float32Array(this.fftSize),this.timeData=new Float32Array(this.fftSize)}async next(){if(this.isClosed)return{value:null,done:!0};let t,a;const s=await this.getAudioData();if(this.includeSpectrogram){const n=this.flattenQueue(s.freqDataQueue);t=this.getTensorFromAudioDataArray(n,[this.numFrames,this.columnTruncateLength,1])}if(this.includeWaveform){const n=this.flattenQueue(s.timeDataQueue);a=this.getTensorFromAudioDataArray(n,[this.numFrames*this.fftSize,1])}return{value:{spectrogram:t,waveform:a},done:!1}}async capture(){return(await this.next()).value}async getAudioData(){const t=[],a=[];let s=0;return new Promise(n=>{const o=setInterval(()=>{this.includeSpectrogram&&(this.analyser.getFloatFrequencyData(this.freqData),this.freqData[0]===-1/0&&n({freqDataQueue:t,timeDataQueue:a}),t.push(this.freqData.slice(0,this.columnTruncateLength))),this.includeWaveform&&(this.analyser.getFloatTimeDomainData(this.timeData),a.push(this.timeData.slice())),++s===this.numFrames&&(clearInterval(o),n({freqDataQueue:t,timeDataQueue:a}))},this.fftSize/this.sampleRateHz*1e3)})}stop(){this.isClosed||(this.isClosed=!0,this.analyser.disconnect(),this.audioContext.close(),this.stream!=null&&this.stream.getTracks().length>0&&this.stream.getTracks()[0].stop())}toArray(){throw new Error("Can not convert infinite audio stream to array.")}getSampleRate(){return this.sampleRateHz}flattenQueue(t){const a=t[0].length,s=new Float32Array(t.length*a);return t.forEach((n,o)=>s.set(n,o*a)),s}getTensorFromAudioDataArray(t,a){const s=new Float32Array(ba(a));return s.set(t,s.length-t.length),ya(s,a)}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class D extends v{constructor(t,a){if(super(),this.webcamVideoElement=t,this.webcamConfig=a,this.isClosed=!0,this.resize=!1,this.needToResize())if(this.resize=!0,this.cropSize=[this.webcamConfig.resizeHeight,this.webcamConfig.resizeWidth],this.cropBoxInd=va([0],"int32"),this.webcamConfig.centerCrop){const s=this.webcamConfig.resizeWidth*1/this.webcamVideoElement.width,n=this.webcamConfig.resizeHeight*1/this.webcamVideoElement.height,o=(1-s)/2,i=(1-n)/2,r=o+s,c=n+i;this.cropBox=B([i,o,c,r],[1,4])}else this.cropBox=B([0,0,1,1],[1,4])}summary(){return"webcam"}static async create(t,a={}){if(!h().get("IS_BROWSER"))throw new Error("tf.data.webcam is only supported in browser environment.");if(!t){if(t=document.createElement("video"),!a.resizeWidth||!a.resizeHeight)throw new Error("Please provide webcam video element, or resizeWidth and resizeHeight to create a hidden video element.");t.width=a.resizeWidth,t.height=a.resizeHeight}const s=new D(t,a);return await s.start(),s}async start(){this.webcamConfig.facingMode&&l(this.webcamConfig.facingMode==="user"||this.webcamConfig.facingMode==="environment",()=>`Invalid webcam facing mode: ${this.webcamConfig.facingMode}. Please provide 'user' or 'environment'`);try{this.stream=await navigator.mediaDevices.getUserMedia({video:{deviceId:this.webcamConfig.deviceId,facingMode:this.webcamConfig.facingMode?this.webcamConfig.facingMode:"user",width:this.webcamVideoElement.width,height:this.webcamVideoElement.height}})}catch(t){throw t.message=`Error thrown while initializing video stream: ${t.message}`,t}if(!this.stream)throw new Error("Could not obtain video from webcam.");try{this.webcamVideoElement.srcObject=this.stream}catch(t){console.log(t),this.webcamVideoElement.src=window.URL.createObjectURL(this.stream)}return this.webcamVideoElement.play(),this.isClosed=!1,new Promise(t=>{this.webcamVideoElement.onloadedmetadata=()=>{t()}})}async next(){if(this.isClosed)return{value:null,done:!0};let t;try{t=Sa(this.webcamVideoElement)}catch(a){throw new Error(`Error thrown converting video to pixels: ${JSON.stringify(a)}`)}if(this.resize)try{return{value:this.cropAndResizeFrame(t),done:!1}}catch(a){throw new Error(`Error thrown cropping the video: ${a.message}`)}finally{t.dispose()}else return{value:t,done:!1}}needToResize(){return!!(this.webcamConfig.resizeWidth&&this.webcamConfig.resizeHeight&&(this.webcamVideoElement.width!==this.webcamConfig.resizeWidth||this.webcamVideoElement.height!==this.webcamConfig.resizeHeight))}cropAndResizeFrame(t){return Ca(()=>{const a=xa(y(t,"float32"),0);let s;s=Aa.cropAndResize(a,this.cropBox,this.cropBoxInd,this.cropSize,"bilinear");const n=s.shape;return ka(s,n.slice(1))})}async capture(){return(await this.next()).value}stop(){this.stream.getTracks().forEach(t=>t.stop());try{this.webcamVideoElement.srcObject=null}catch(t){console.log(t),this.webcamVideoElement.src=null}this.isClosed=!0}toArray(){throw new Error("Can not convert infinite video stream to array.")}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class ee{}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class te extends v{split(t){return new Wn(this,t)}}class Wn extends te{constructor(t,a){super(),this.upstream=t,this.impl=new Un(t,a)}summary(){return this.impl.summary()}async next(){return this.impl.next()}}class Un extends U{constructor(t,a){super(),this.upstream=t,this.separator=a,this.carryover=""}summary(){return`${this.upstream.summary()} -> Split('${this.separator}')`}async pump(){const t=await this.upstream.next();if(t.done)return this.carryover===""?!1:(this.outputQueue.push(this.carryover),this.carryover="",!0);const a=t.value.split(this.separator);a[0]=this.carryover+a[0];for(const s of a.slice(0,-1))this.outputQueue.push(s);return this.carryover=a[a.length-1],!0}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class Gn extends v{decodeUTF8(){return new Hn(this)}}class Hn extends te{constructor(t){super(),this.upstream=t,this.impl=new Qn(t)}summary(){return this.impl.summary()}async next(){return this.impl.next()}}class Qn extends U{constructor(t){if(super(),this.upstream=t,h().get("IS_BROWSER"))this.decoder=new TextDecoder("utf-8");else{const{StringDecoder:a}=require("string_decoder");this.decoder=new a("utf8")}}summary(){return`${this.upstream.summary()} -> Utf8`}async pump(){const t=await this.upstream.next();let a;if(t.done)return!1;a=t.value;let s;return h().get("IS_BROWSER")?s=this.decoder.decode(a,{stream:!0}):s=this.decoder.write(Buffer.from(a.buffer)),this.outputQueue.push(s),!0}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class ae extends Gn{constructor(t,a={}){super(),this.file=t,this.options=a,l(t instanceof Uint8Array||(h().get("IS_BROWSER")?t instanceof File||t instanceof Blob:!1),()=>"FileChunkIterator only supports File, Blob and Uint8Array right now."),this.offset=a.offset||0,this.chunkSize=a.chunkSize||1024*1024}summary(){return`FileChunks ${this.file}`}async next(){return this.offset>=(this.file instanceof Uint8Array?this.file.byteLength:this.file.size)?{value:null,done:!0}:{value:await new Promise((t,a)=>{const s=this.offset+this.chunkSize;if(this.file instanceof Uint8Array)t(new Uint8Array(this.file.slice(this.offset,s)));else{const n=new FileReader;n.onload=i=>{let r=n.result;if(r instanceof ArrayBuffer&&(r=new Uint8Array(r)),!(r instanceof Uint8Array))return a(new TypeError("FileReader returned unknown type."));t(r)},n.onabort=i=>a(new Error("Aborted")),n.onerror=i=>a(new Error(i.type));const o=this.file.slice(this.offset,s);n.readAsArrayBuffer(o)}this.offset=s}),done:!1}}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/async function Kn(e,t={},a){let s,n;typeof e=="string"?s=e:(s=e.url,n=Jn(e));const o=await Ea(s,n);if(o.ok){const i=new Uint8Array(await o.arrayBuffer());return new ae(i,t)}else throw new Error(o.statusText)}const Jn=e=>({method:e.method,headers:e.headers,body:e.body,mode:e.mode,credentials:e.credentials,cache:e.cache,redirect:e.redirect,referrer:e.referrer,integrity:e.integrity});/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/function se(e){return typeof e=="string"&&e.slice(0,7)==="file://"}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class ne extends ee{constructor(t,a={}){super(),this.input=t,this.options=a}async iterator(){if(se(this.input)&&h().get("IS_NODE")){const t=require("fs");this.input=t.readFileSync(this.input.slice(7))}return new ae(this.input,this.options)}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/class re extends ee{constructor(t,a={}){super(),this.url=t,this.fileOptions=a}async iterator(){return se(this.url)?new ne(this.url,this.fileOptions).iterator():Kn(this.url,this.fileOptions)}}/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-*
-* =============================================================================
-*/function Xn(e,t={}){return new Y(new re(e),t)}function Zn(e){const t=j(e);return W(async()=>t)}function Yn(e){return W(async()=>{const t=await e();return j(()=>t.next())})}async function er(e,t){return D.create(e,t)}async function tr(e){return z.create(e)}/** @license See the LICENSE file. */const ie="4.22.0";/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-* =============================================================================
-*/const yr=Object.freeze(Object.defineProperty({__proto__:null,CSVDataset:Y,Dataset:x,FileDataSource:ne,TextLineDataset:Z,URLDataSource:re,array:Se,csv:Xn,func:Zn,generator:Yn,microphone:tr,version_data:ie,webcam:er,zip:Ce},Symbol.toStringTag,{value:"Module"}));/** @license See the LICENSE file. */const ar="4.22.0";/** @license See the LICENSE file. */const sr="4.22.0";/** @license See the LICENSE file. */const nr="4.22.0";/**
-* @license
-* Copyright 2018 Google LLC. All Rights Reserved.
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-* http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
-* =============================================================================
-*/const vr={"tfjs-core":$a,"tfjs-backend-cpu":ar,"tfjs-backend-webgl":sr,"tfjs-data":ie,"tfjs-layers":xe,"tfjs-converter":jn,tfjs:nr};export{xr as Abs,Ar as Acos,kr as Acosh,Er as AdadeltaOptimizer,Nr as AdagradOptimizer,Fr as AdamOptimizer,_r as AdamaxOptimizer,Mr as Add,zr as AddN,Dr as All,Rr as Any,Tr as ArgMax,Pr as ArgMin,Or as Asin,Br as Asinh,$r as Atan,Lr as Atan2,qr as Atanh,Ir as AvgPool,Vr as AvgPool3D,jr as AvgPool3DGrad,Wr as AvgPoolGrad,Ur as BatchMatMul,Gr as BatchToSpaceND,Hr as Bincount,Qr as BitwiseAnd,Kr as BroadcastArgs,Jr as BroadcastTo,qn as Callback,Xr as CallbackList,Zr as Cast,Yr as Ceil,ei as ClipByValue,ti as Complex,ai as ComplexAbs,si as Concat,ni as Conv2D,ri as Conv2DBackpropFilter,ii as Conv2DBackpropInput,oi as Conv3D,ci as Conv3DBackpropFilterV2,ui as Conv3DBackpropInputV2,li as Cos,di as Cosh,hi as CropAndResize,fi as Cumprod,mi as Cumsum,pi as CustomCallback,gi as DataStorage,wi as DenseBincount,bi as DepthToSpace,yi as DepthwiseConv2dNative,vi as DepthwiseConv2dNativeBackpropFilter,Si as DepthwiseConv2dNativeBackpropInput,Ci as Diag,xi as Dilation2D,Ai as Dilation2DBackpropFilter,ki as Dilation2DBackpropInput,Ei as Draw,Ni as ENV,In as EarlyStopping,Fi as Einsum,_i as Elu,Mi as EluGrad,zi as Environment,Di as Equal,Ri as Erf,Ti as Exp,Pi as ExpandDims,Oi as Expm1,Bi as FFT,$i as Fill,Li as FlipLeftRight,qi as Floor,Ii as FloorDiv,Vi as FromPixels,ji as FusedBatchNorm,Wi as FusedConv2D,Ui as FusedDepthwiseConv2D,Gi as GPGPUContext,Hi as GatherNd,Qi as GatherV2,Ki as GraphModel,Ji as Greater,Xi as GreaterEqual,Zi as History,Yi as IFFT,eo as Identity,to as Imag,ao as InputSpec,so as IsFinite,no as IsInf,ro as IsNan,io as KernelBackend,oo as LRN,co as LRNGrad,uo as LayerVariable,I as LayersModel,lo as LeakyRelu,ho as Less,fo as LessEqual,mo as LinSpace,po as Log,go as Log1p,wo as LogSoftmax,bo as LogicalAnd,yo as LogicalNot,vo as LogicalOr,So as LogicalXor,Co as LowerBound,xo as MathBackendCPU,Ao as MathBackendWebGL,ko as MatrixBandPart,Eo as Max,No as MaxPool,Fo as MaxPool3D,_o as MaxPool3DGrad,Mo as MaxPoolGrad,zo as MaxPoolWithArgmax,Do as Maximum,Ro as Mean,To as Min,Po as Minimum,Oo as MirrorPad,Bo as Mod,$o as MomentumOptimizer,Lo as Multinomial,qo as Multiply,Io as Neg,Vo as NonMaxSuppressionV3,jo as NonMaxSuppressionV4,Wo as NonMaxSuppressionV5,Uo as NotEqual,Go as OP_SCOPE_SUFFIX,Ho as OneHot,Qo as OnesLike,Ko as Optimizer,Jo as OptimizerConstructors,Xo as Pack,Zo as PadV2,Yo as Pool,ec as Pow,tc as Prelu,ac as Prod,sc as RMSPropOptimizer,V as RNN,nc as RaggedGather,rc as RaggedRange,ic as RaggedTensorToTensor,oc as Range,cc as Rank,uc as Real,lc as RealDiv,dc as Reciprocal,hc as Reduction,fc as Relu,mc as Relu6,pc as Reshape,gc as ResizeBilinear,wc as ResizeBilinearGrad,bc as ResizeNearestNeighbor,yc as ResizeNearestNeighborGrad,vc as Reverse,Sc as RotateWithOffset,Cc as Round,xc as Rsqrt,Ac as SGDOptimizer,kc as ScatterNd,Ec as SearchSorted,Nc as Select,Fc as Selu,he as Sequential,_c as Sigmoid,Mc as Sign,zc as Sin,Dc as Sinh,Rc as Slice,Tc as Softmax,Pc as Softplus,Oc as SpaceToBatchND,Bc as SparseFillEmptyRows,$c as SparseReshape,Lc as SparseSegmentMean,qc as SparseSegmentSum,Ic as SparseToDense,Vc as SplitV,jc as Sqrt,Wc as Square,Uc as SquaredDifference,Gc as StaticRegexReplace,Hc as Step,Qc as StridedSlice,Kc as StringNGrams,Jc as StringSplit,Xc as StringToHashBucketFast,Zc as Sub,Yc as Sum,eu as SymbolicTensor,tu as Tan,au as Tanh,su as Tensor,nu as TensorBuffer,ru as TensorScatterUpdate,iu as Tile,ou as TopK,cu as Transform,uu as Transpose,lu as Unique,du as Unpack,hu as UnsortedSegmentSum,fu as UpperBound,mu as Variable,pu as ZerosLike,gu as _FusedMatMul,wu as abs,bu as acos,yu as acosh,vu as add,Su as addN,Cu as all,xu as any,Au as argMax,ku as argMin,Eu as asin,Nu as asinh,Fu as atan,_u as atan2,Mu as atanh,zu as avgPool,Du as avgPool3d,Ru as backend,Tu as backend_util,Pu as basicLSTMCell,Ou as batchNorm,Bu as batchNorm2d,$u as batchNorm3d,Lu as batchNorm4d,qu as batchToSpaceND,Iu as bincount,Vu as bitwiseAnd,ju as booleanMaskAsync,Wu as broadcastArgs,Uu as broadcastTo,Gu as broadcast_util,Hu as browser,Qu as buffer,br as callbacks,y as cast,Ku as ceil,Ju as clipByValue,Xu as clone,Zu as complex,Yu as concat,el as concat1d,tl as concat2d,al as concat3d,sl as concat4d,ur as constraints,nl as conv1d,rl as conv2d,il as conv2dTranspose,ol as conv3d,cl as conv3dTranspose,ul as copyRegisteredKernels,ll as cos,dl as cosh,hl as cosineWindow,fl as cumprod,ml as cumsum,pl as customGrad,yr as data,gl as denseBincount,wl as deprecationWarn,bl as depthToSpace,yl as depthwiseConv2d,vl as deregisterOp,Sl as device_util,Cl as diag,xl as dilation2d,Al as disableDeprecationWarnings,kl as dispose,El as disposeVariables,Nl as div,Fl as divNoNan,_l as dot,Ml as dropout,zl as einsum,Dl as elu,Rl as enableDebugMode,Tl as enableProdMode,Pl as enclosingPowerOfTwo,Ol as engine,Bl as ensureShape,h as env,$l as equal,Ll as erf,ql as euclideanNorm,Il as exp,xa as expandDims,Vl as expm1,jl as eye,Wl as fft,Ul as fill,Gl as findBackend,Hl as findBackendFactory,Ql as floor,Kl as floorDiv,Jl as forceHalfFloat,Xl as fused,Zl as gather,Yl as gatherND,ed as gather_util,td as getBackend,ad as getGradient,sd as getKernel,nd as getKernelsForBackend,rd as gpgpu_util,id as grad,od as grads,cd as greater,ud as greaterEqual,ld as ifft,dd as imag,Aa as image,hd as inTopKAsync,lr as initializers,ns as input,fd as io,md as irfft,pd as isFinite,gd as isInf,wd as isNaN,bd as keep,cr as kernel_impls,mr as layers,yd as leakyRelu,vd as less,Sd as lessEqual,Cd as linalg,xd as linspace,Ad as loadGraphModel,kd as loadGraphModelSync,Ed as loadLayersModel,Nd as localResponseNormalization,Fd as log,_d as log1p,Md as logSigmoid,zd as logSoftmax,Dd as logSumExp,Rd as logicalAnd,Td as logicalNot,Pd as logicalOr,Od as logicalXor,Bd as losses,$d as lowerBound,Fe as matMul,or as math,Ld as max,qd as maxPool,Id as maxPool3d,Vd as maxPoolWithArgmax,jd as maximum,Wd as mean,Ud as memory,Gd as meshgrid,pr as metrics,Hd as min,Qd as minimum,Kd as mirrorPad,Jd as mod,dr as model,gr as models,Xd as moments,Zd as movingAverage,Yd as mul,eh as multiRNNCell,th as multinomial,ah as neg,sh as nextFrame,nh as norm,rh as notEqual,O as oneHot,ih as ones,oh as onesLike,oe as op,ch as outerProduct,uh as pad,lh as pad1d,dh as pad2d,hh as pad3d,fh as pad4d,mh as pool,ph as pow,gh as prelu,wh as print,bh as prod,yh as profile,vh as raggedGather,Sh as raggedRange,Ch as raggedTensorToTensor,xh as rand,Ah as randomGamma,kh as randomNormal,Eh as randomStandardNormal,Nh as randomUniform,Fh as randomUniformInt,_h as range,Mh as ready,zh as real,Dh as reciprocal,Rh as registerBackend,fr as registerCallbackConstructor,Th as registerGradient,Ph as registerKernel,Oh as registerOp,wr as regularizers,Bh as relu,$h as relu6,Lh as removeBackend,ka as reshape,qh as reverse,Ih as reverse1d,Vh as reverse2d,jh as reverse3d,Wh as reverse4d,Uh as rfft,Gh as round,Hh as rsqrt,Qh as scalar,Kh as scatterND,Jh as scatter_util,Xh as searchSorted,Zh as selu,Yh as separableConv2d,hr as sequential,ef as serialization,tf as setBackend,af as setPlatform,sf as setWebGLContext,nf as setdiff1dAsync,rf as shared,of as sigmoid,cf as sign,uf as signal,lf as sin,df as sinh,hf as slice,ff as slice1d,mf as slice2d,pf as slice3d,gf as slice4d,wf as slice_util,bf as softmax,yf as softplus,vf as spaceToBatchND,Sf as sparse,Cf as sparseToDense,xf as spectral,Af as split,kf as sqrt,Ef as square,Nf as squaredDifference,Ff as squeeze,_f as stack,Mf as step,zf as stridedSlice,Df as string,Rf as sub,Tf as sum,Pf as sumOutType,Of as tan,Bf as tanh,ya as tensor,va as tensor1d,B as tensor2d,$f as tensor3d,Lf as tensor4d,qf as tensor5d,If as tensor6d,Vf as tensorScatterUpdate,jf as tensor_util,ir as test_util,Ca as tidy,Wf as tile,Uf as time,Gf as topk,Hf as train,Ne as transpose,Qf as truncatedNormal,Kf as unique,Jf as unregisterGradient,Xf as unregisterKernel,Zf as unsortedSegmentSum,Yf as unstack,em as upcastType,tm as upperBound,am as util,sm as valueAndGrad,nm as valueAndGrads,rm as variable,im as variableGrads,vr as version,jn as version_converter,$a as version_core,ar as version_cpu,xe as version_layers,sr as version_webgl,om as webgl,cm as webgl_util,um as where,lm as whereAsync,dm as zeros,hm as zerosLike};
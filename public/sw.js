@@ -0,0 +1,157 @@
+// PostureGuard service worker. Caches the app shell and pose model so the app
+// starts and detects posture offline, and routes clicks on system
+// notifications back to the app tab.
+
+const SHELL_CACHE = 'posture-guard-shell-v1';
+const MODEL_CACHE = 'posture-guard-models-v1';
+
+// Always cached; the hashed build output is listed in precache-manifest.json
+const SHELL_FILES = ['./', 'index.html', 'manifest.webmanifest', 'icon-192.png', 'icon-512.png'];
+
+// The default pose model. Other models are cached the first time they load.
+const PRECACHED_MODEL = 'https://tfhub.dev/google/tfjs-model/movenet/singlepose/lightning/4';
+const MODEL_QUERY = '?tfjs-format=file';
+
+// Model files come from these hosts (TF Hub redirects to Kaggle storage)
+const MODEL_HOSTS = ['tfhub.dev', 'www.kaggle.com', 'storage.googleapis.com'];
+
+// The MediaPipe runtime is served with the app but too large to precache
+const MEDIAPIPE_PATH = 'mediapipe/';
+
+const scopeUrl = (path) => new URL(path, self.registration.scope).href;
+
+// The build writes the list of bundled files; it's missing in development.
+// Files from earlier deploys are dropped.
+const precacheBuild = async (cache) => {
+  try {
+    const response = await fetch(scopeUrl('precache-manifest.json'), { cache: 'no-store' });
+    if (!response.ok) return;
+    const files = (await response.json()).map(scopeUrl);
+    await cache.addAll(files);
+
+    const keep = new Set([...files, ...SHELL_FILES.map(scopeUrl)]);
+    const cached = await cache.keys();
+    await Promise.all(cached.filter((entry) => !keep.has(entry.url)).map((entry) => cache.delete(entry)));
+  } catch (error) {
+    console.log('Service worker: no build precache list, caching as files load', error);
+  }
+};
+
+// Fetch model.json and every weight shard it lists, under the URLs TF.js will request
+const precacheModel = async () => {
+  try {
+    const cache = await caches.open(MODEL_CACHE);
+    const modelUrl = `${PRECACHED_MODEL}/model.json${MODEL_QUERY}`;
+    const response = await fetch(modelUrl);
+    if (!response.ok) return;
+
+    const model = await response.clone().json();
+    await cache.put(modelUrl, response);
+    const shards = (model.weightsManifest || []).flatMap((group) => group.paths);
+    await Promise.all(shards.map(async (path) => {
+      const shardUrl = `${PRECACHED_MODEL}/${path}${MODEL_QUERY}`;
+      const shard = await fetch(shardUrl);
+      if (shard.ok) await cache.put(shardUrl, shard);
+    }));
+  } catch (error) {
+    console.log('Service worker: could not precache the pose model', error);
+  }
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(SHELL_FILES.map(scopeUrl));
+    await Promise.all([precacheBuild(cache), precacheModel()]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(
+      names
+        .filter((name) => name.startsWith('posture-guard-') && name !== SHELL_CACHE && name !== MODEL_CACHE)
+        .map((name) => caches.delete(name))
+    );
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Pages: network first so deploys show up, the cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      try {
+        const response = await fetch(request);
+        const cache = await caches.open(SHELL_CACHE);
+        await cache.put(scopeUrl('index.html'), response.clone());
+        // A new deploy can reference new files, fetch them for next time
+        event.waitUntil(precacheBuild(cache));
+        return response;
+      } catch (error) {
+        return (await caches.match(scopeUrl('index.html'))) || Response.error();
+      }
+    })());
+    return;
+  }
+
+  // Model weights and the MediaPipe runtime don't change for a given URL, so cache first
+  if (MODEL_HOSTS.includes(url.hostname) || url.href.startsWith(scopeUrl(MEDIAPIPE_PATH))) {
+    event.respondWith((async () => {
+      const cached = await caches.match(request);
+      if (cached) return cached;
+      const response = await fetch(request);
+      if (response.ok) {
+        const cache = await caches.open(MODEL_CACHE);
+        await cache.put(request, response.clone());
+      }
+      return response;
+    })());
+    return;
+  }
+
+  // Precached app files from the cache, everything else from the network with
+  // the cache as a fallback
+  if (url.origin === self.location.origin) {
+    event.respondWith((async () => {
+      const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+      if (cached) return cached;
+      try {
+        return await fetch(request);
+      } catch (error) {
+        return (await caches.match(request)) || Response.error();
+      }
+    })());
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const notification = event.notification;
+  const message = {
+    type: 'notification-action',
+    action: event.action || 'open', // Empty when the body rather than a button was clicked
+    kind: notification.data && notification.data.kind
+  };
+  notification.close();
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const scope = self.registration.scope;
+      const client = windows.find((win) => win.url.startsWith(scope));
+
+      if (client) {
+        client.postMessage(message);
+        return client.focus();
+      }
+
+      // The tab was closed, so there is no monitoring session to act on
+      return self.clients.openWindow(scope);
+    })
+  );
+});
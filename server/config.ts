@@ -0,0 +1,45 @@
+import { DEFAULT_STRETCH_PROVIDER, StretchProviderType } from '../src/services/stretchProviders';
+
+export interface ProxyConfig {
+  port: number;
+  provider: Exclude<StretchProviderType, 'proxy'>;
+  geminiApiKey: string;
+  openaiApiKey: string;
+  openaiBaseUrl: string;
+  openaiModel: string;
+  localBaseUrl: string;
+  localModel: string;
+  quotaPerHour: number; // Model requests per user; cached answers don't count
+  addressQuotaPerHour: number; // Model requests per client address, whatever user IDs it sends
+  trustedUserHeader: string; // Set by an authenticating reverse proxy; when set, it is the only identity used
+  cacheMinutes: number;
+  allowedOrigins: string[]; // Browsers on other origins are refused; '*' allows any origin
+}
+
+const toNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Everything comes from the environment so no key is ever committed
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ProxyConfig => {
+  const provider = env.STRETCH_PROVIDER === 'openai' || env.STRETCH_PROVIDER === 'local'
+    ? env.STRETCH_PROVIDER
+    : 'gemini';
+
+  return {
+    port: toNumber(env.PORT, 8787),
+    provider,
+    geminiApiKey: env.GEMINI_API_KEY ?? '',
+    openaiApiKey: env.OPENAI_API_KEY ?? '',
+    openaiBaseUrl: env.OPENAI_BASE_URL ?? DEFAULT_STRETCH_PROVIDER.openaiBaseUrl,
+    openaiModel: env.OPENAI_MODEL ?? DEFAULT_STRETCH_PROVIDER.openaiModel,
+    localBaseUrl: env.LOCAL_BASE_URL ?? DEFAULT_STRETCH_PROVIDER.localBaseUrl,
+    localModel: env.LOCAL_MODEL ?? DEFAULT_STRETCH_PROVIDER.localModel,
+    quotaPerHour: toNumber(env.QUOTA_PER_HOUR, 30),
+    addressQuotaPerHour: toNumber(env.ADDRESS_QUOTA_PER_HOUR, 60),
+    trustedUserHeader: (env.TRUSTED_USER_HEADER ?? '').trim().toLowerCase(),
+    cacheMinutes: toNumber(env.CACHE_MINUTES, 10),
+    allowedOrigins: (env.ALLOWED_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean)
+  };
+};
@@ -0,0 +1,253 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { redactError } from '../src/config/apiKeys';
+import {
+  GeminiProvider,
+  LocalModelProvider,
+  OpenAICompatibleProvider,
+  StretchProvider
+} from '../src/services/stretchProviders';
+import { createStretchPrompt } from '../src/services/stretchPrompt';
+import {
+  STRETCH_RESPONSE_SCHEMA,
+  StretchValidationResult,
+  extractStretchJson,
+  validateStretchSuggestions
+} from '../src/services/stretchSchema';
+import { loadConfig, ProxyConfig } from './config';
+import QuotaTracker, { QuotaResult } from './quota';
+import ResponseCache from './responseCache';
+import { stretchRequestSchema, toUserData, getCacheKey } from './stretchRequest';
+
+const MAX_BODY_BYTES = 64 * 1024;
+const USER_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+const createProvider = (config: ProxyConfig): StretchProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config.openaiBaseUrl, config.openaiModel, config.openaiApiKey);
+    case 'local':
+      return new LocalModelProvider(config.localBaseUrl, config.localModel);
+    case 'gemini':
+    default:
+      return new GeminiProvider(config.geminiApiKey);
+  }
+};
+
+const config = loadConfig();
+const provider = createProvider(config);
+const userQuota = new QuotaTracker(config.quotaPerHour);
+const addressQuota = new QuotaTracker(config.addressQuotaPerHour);
+const cache = new ResponseCache<StretchValidationResult>(config.cacheMinutes);
+
+const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Requests without an Origin come from scripts and servers rather than a browser page
+const isOriginAllowed = (origin: string | undefined): boolean =>
+  !origin || config.allowedOrigins.includes('*') || config.allowedOrigins.includes(origin);
+
+const setCorsHeaders = (req: IncomingMessage, res: ServerResponse): void => {
+  const origin = req.headers.origin;
+  if (config.allowedOrigins.includes('*')) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+  } else if (origin && isOriginAllowed(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-PostureGuard-User');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After, X-Quota-Remaining, X-Cache');
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop reading but keep the socket, so the 413 still reaches the client;
+        // the Connection header closes it once the response is sent
+        req.off('data', onData);
+        req.pause();
+        reject(new HttpError(413, 'Request body too large', { Connection: 'close' }));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+interface QuotaCheck {
+  tracker: QuotaTracker;
+  key: string;
+}
+
+// Behind an authenticating reverse proxy its user header is the only identity.
+// Otherwise the ID the browser sends can't be trusted, so every request also
+// counts against a quota for the client address.
+const getQuotaChecks = (req: IncomingMessage): QuotaCheck[] => {
+  if (config.trustedUserHeader) {
+    const user = req.headers[config.trustedUserHeader];
+    if (typeof user !== 'string' || !user.trim()) {
+      throw new HttpError(401, 'Not signed in');
+    }
+    return [{ tracker: userQuota, key: `user:${user.trim()}` }];
+  }
+
+  const address = `ip:${req.socket.remoteAddress ?? 'unknown'}`;
+  const header = req.headers['x-postureguard-user'];
+  const userId = typeof header === 'string' && USER_ID_PATTERN.test(header) ? `id:${header}` : address;
+  return [
+    { tracker: userQuota, key: userId },
+    { tracker: addressQuota, key: address }
+  ];
+};
+
+// A request is only counted when every quota it falls under has room
+const consumeQuota = (checks: QuotaCheck[]): QuotaResult => {
+  const results = checks.map(check => check.tracker.check(check.key));
+  const denied = results.filter(result => !result.allowed);
+  if (denied.length > 0) {
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: Math.max(...denied.map(result => result.retryAfterSeconds))
+    };
+  }
+
+  const consumed = checks.map(check => check.tracker.consume(check.key));
+  return {
+    allowed: true,
+    remaining: Math.min(...consumed.map(result => result.remaining)),
+    retryAfterSeconds: 0
+  };
+};
+
+const handleStretches = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  // Nothing to call, so don't read the body or spend anyone's quota
+  if (!provider.isConfigured()) {
+    throw new HttpError(503, `${provider.name} is not configured`);
+  }
+
+  const quotaChecks = getQuotaChecks(req);
+
+  let body: unknown;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(400, 'Body must be JSON');
+  }
+
+  const parsed = stretchRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new HttpError(400, `Invalid request: ${issue.path.join('.') || 'body'} ${issue.message}`);
+  }
+
+  // Cached answers are free, so check before counting against the quota
+  const cacheKey = getCacheKey(parsed.data);
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    console.log('Proxy: Cache hit');
+    sendJson(res, 200, { ...cached, cached: true }, { 'X-Cache': 'HIT' });
+    return;
+  }
+
+  const allowance = consumeQuota(quotaChecks);
+  if (!allowance.allowed) {
+    console.log(`Proxy: Quota used up for ${quotaChecks.map(check => check.key).join(', ')}`);
+    sendJson(
+      res,
+      429,
+      { error: 'Hourly request limit reached' },
+      { 'Retry-After': String(allowance.retryAfterSeconds), 'X-Quota-Remaining': '0' }
+    );
+    return;
+  }
+
+  const prompt = createStretchPrompt(toUserData(parsed.data), parsed.data.previousSuggestions ?? []);
+  let result: StretchValidationResult;
+  try {
+    const generatedText = await provider.generate(prompt, STRETCH_RESPONSE_SCHEMA);
+    result = validateStretchSuggestions(extractStretchJson(generatedText));
+  } catch (error) {
+    console.error(`Proxy: ${provider.name} request failed:`, redactError(error));
+    throw new HttpError(502, `${provider.name} request failed`);
+  }
+
+  if (result.suggestions.length === 0) {
+    throw new HttpError(502, 'The model returned no valid suggestions');
+  }
+
+  cache.set(cacheKey, result);
+  sendJson(
+    res,
+    200,
+    { ...result, cached: false },
+    { 'X-Cache': 'MISS', 'X-Quota-Remaining': String(allowance.remaining) }
+  );
+};
+
+const server = createServer(async (req, res) => {
+  setCorsHeaders(req, res);
+  const path = (req.url ?? '/').split('?')[0];
+
+  try {
+    // CORS alone only hides the response; a form post or text/plain request would
+    // still reach the model and spend quota, so refuse it outright
+    if (!isOriginAllowed(req.headers.origin)) {
+      throw new HttpError(403, 'Origin not allowed');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+    } else if (req.method === 'GET' && path === '/api/health') {
+      sendJson(res, 200, { ok: provider.isConfigured(), provider: provider.name });
+    } else if (req.method === 'POST' && path === '/api/stretches') {
+      await handleStretches(req, res);
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message }, error.headers);
+      return;
+    }
+    console.error('Proxy: Unexpected error:', redactError(error));
+    sendJson(res, 500, { error: 'Internal error' });
+  }
+});
+
+// Forget users whose window has passed, so the map doesn't grow forever
+setInterval(() => {
+  userQuota.prune();
+  addressQuota.prune();
+}, 10 * 60 * 1000).unref();
+
+server.listen(config.port, () => {
+  console.log(`Proxy: Listening on port ${config.port} using ${provider.name}`);
+  if (!provider.isConfigured()) {
+    console.log(`Proxy: ${provider.name} is not configured, check the environment variables`);
+  }
+  if (config.allowedOrigins.length === 0) {
+    console.log('Proxy: ALLOWED_ORIGINS is not set, so requests from browser pages are refused');
+  }
+});
@@ -0,0 +1,59 @@
+const WINDOW_MS = 60 * 60 * 1000;
+
+export interface QuotaResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+/**
+ * Sliding one-hour window of model requests per key (a user or an address).
+ * Kept in memory, so it resets when the server restarts.
+ */
+class QuotaTracker {
+  private requests = new Map<string, number[]>();
+  private limit: number;
+
+  constructor(limitPerHour: number) {
+    this.limit = limitPerHour;
+  }
+
+  // Whether the user has quota left, without counting a request
+  check(userId: string, now: number = Date.now()): QuotaResult {
+    const recent = this.getRecent(userId, now);
+    if (recent.length >= this.limit) {
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + WINDOW_MS - now) / 1000))
+      };
+    }
+    return { allowed: true, remaining: this.limit - recent.length, retryAfterSeconds: 0 };
+  }
+
+  // Counts a request for the user if they still have quota left
+  consume(userId: string, now: number = Date.now()): QuotaResult {
+    const result = this.check(userId, now);
+    if (!result.allowed) return result;
+
+    this.getRecent(userId, now).push(now);
+    return { ...result, remaining: result.remaining - 1 };
+  }
+
+  private getRecent(userId: string, now: number): number[] {
+    const recent = (this.requests.get(userId) ?? []).filter(time => now - time < WINDOW_MS);
+    this.requests.set(userId, recent);
+    return recent;
+  }
+
+  // Drop users with nothing left in the window
+  prune(now: number = Date.now()): void {
+    this.requests.forEach((times, userId) => {
+      if (times.every(time => now - time >= WINDOW_MS)) {
+        this.requests.delete(userId);
+      }
+    });
+  }
+}
+
+export default QuotaTracker;
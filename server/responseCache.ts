@@ -0,0 +1,43 @@
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+const MAX_ENTRIES = 500;
+
+/**
+ * Recent responses by request key. Users with similar posture data get the
+ * same answer for a while instead of another model request.
+ */
+class ResponseCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private ttlMs: number;
+
+  constructor(ttlMinutes: number) {
+    this.ttlMs = ttlMinutes * 60 * 1000;
+  }
+
+  get(key: string, now: number = Date.now()): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: T, now: number = Date.now()): void {
+    if (this.ttlMs <= 0) return;
+
+    // Maps keep insertion order, so the first key is the oldest
+    this.entries.delete(key);
+    if (this.entries.size >= MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: now + this.ttlMs });
+  }
+}
+
+export default ResponseCache;
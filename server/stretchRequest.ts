@@ -0,0 +1,54 @@
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import type { UserData } from '../src/services/geminiService';
+import { ISSUE_LABELS, PostureIssueCode } from '../src/services/postureIssues';
+
+const issueCodes = Object.keys(ISSUE_LABELS) as [PostureIssueCode, ...PostureIssueCode[]];
+
+// Only what the prompt uses, with limits so a client can't send a huge prompt
+export const stretchRequestSchema = z.object({
+  screenTime: z.number().min(0).max(24 * 60),
+  postureScore: z.number().min(0).max(100),
+  lastBreakTime: z.number(),
+  commonIssues: z.array(z.string().max(100)).max(20),
+  poseLandmarks: z.object({
+    neckAngle: z.number(),
+    shoulderAlignment: z.number(),
+    spineAlignment: z.number(),
+    headPosition: z.number(),
+    shoulderHeight: z.number()
+  }).optional(),
+  postureIssues: z.array(z.object({
+    code: z.enum(issueCodes),
+    severity: z.enum(['mild', 'moderate', 'severe']),
+    value: z.number(),
+    threshold: z.number(),
+    message: z.string().max(200)
+  })).max(issueCodes.length).optional(),
+  previousSuggestions: z.array(z.string().max(100)).max(50).optional()
+});
+
+export type StretchRequest = z.infer<typeof stretchRequestSchema>;
+
+export const toUserData = (request: StretchRequest): UserData => {
+  const { previousSuggestions, ...userData } = request;
+  return userData as UserData;
+};
+
+// Requests that would produce much the same prompt share a key: the score is
+// rounded, screen time is bucketed by half hour and the exact measurements are left out
+export const getCacheKey = (request: StretchRequest): string => {
+  const issues = (request.postureIssues ?? [])
+    .map(issue => `${issue.code}:${issue.severity}`)
+    .sort();
+
+  return createHash('sha256')
+    .update(JSON.stringify({
+      score: Math.round(request.postureScore),
+      screenTime: Math.floor(request.screenTime / 30),
+      issues,
+      commonIssues: [...request.commonIssues].sort(),
+      previous: [...(request.previousSuggestions ?? [])].sort()
+    }))
+    .digest('hex');
+};
@@ -0,0 +1,12 @@
+import { defineConfig } from "vite";
+
+// Builds the proxy server for Node, reusing the app's prompt, schema and provider code
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: "server/index.ts",
+    outDir: "server/dist",
+    emptyOutDir: true,
+    target: "node18",
+  },
+});
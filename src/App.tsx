@@ -1,14 +1,29 @@
 import React, { useState, useEffect, useCallback } from 'react'
-import GeminiService, { StretchSuggestion } from './services/geminiService'
+import GeminiService, { StretchSuggestion, StretchGenerationResult } from './services/geminiService'
 import TrackingService, { TrackingData, Settings } from './services/trackingService'
 import StretchSuggestionComponent from './components/StretchSuggestion'
+import StretchValidationNotice from './components/StretchValidationNotice'
 import StretchTimer from './components/StretchTimer'
 import SimpleWebcam from './components/SimpleWebcam'
 import ModernDashboard from './components/ModernDashboard'
 import SettingsModal from './components/SettingsModal'
 import PostureAlert from './components/PostureAlert'
 import BreakAlert from './components/BreakAlert'
+import VideoAnalysisModal from './components/VideoAnalysisModal'
+import AnalyticsModal from './components/AnalyticsModal'
 import { PostureAnalysis } from './services/tensorflowPoseService'
+import { DEFAULT_POSE_DETECTOR } from './services/poseDetectors'
+import { DEFAULT_TARGET_FPS } from './services/detectionScheduler'
+import { PostureIssue } from './services/postureIssues'
+import { DEFAULT_POSTURE_RULES } from './services/postureRules'
+import type { PresenceEvent } from './services/presenceDetector'
+import { ScheduleState, DEFAULT_CUSTOM_CYCLE, getCycleConfig, isLongBreakNext } from './services/breakSchedule'
+import EyeBreakReminder, { EyeBreakState, EyeBreakStats, getEyeBreakOptions } from './services/eyeBreakService'
+import EyeBreakPrompt from './components/EyeBreakPrompt'
+import { WorkStatus, DEFAULT_WORKING_HOURS } from './services/workingHours'
+import { SnoozeOption, SnoozeTarget } from './services/snooze'
+import { DEFAULT_STRETCH_PROVIDER } from './services/stretchProviders'
+import NotificationService, { NotificationAction, NotificationKind } from './services/notificationService'
 
 function App() {
   const [isMonitoring, setIsMonitoring] = useState(false)
@@ -18,20 +33,49 @@ function App() {
   const [currentStretch, setCurrentStretch] = useState<StretchSuggestion | null>(null)
   const [showSuggestions, setShowSuggestions] = useState(false)
   const [isGeneratingSuggestions, setIsGeneratingSuggestions] = useState(false)
+  const [lastStretchResult, setLastStretchResult] = useState<StretchGenerationResult | null>(null)
   const [trackingService, setTrackingService] = useState<TrackingService | null>(null)
   const [geminiService, setGeminiService] = useState<GeminiService | null>(null)
   const [currentPostureAnalysis, setCurrentPostureAnalysis] = useState<PostureAnalysis | null>(null)
   const [cameraError, setCameraError] = useState<string | null>(null)
   const [showSettings, setShowSettings] = useState(false)
+  const [showVideoAnalysis, setShowVideoAnalysis] = useState(false)
+  const [showAnalytics, setShowAnalytics] = useState(false)
   const [currentSettings, setCurrentSettings] = useState<Settings>({
     reminderInterval: 30,
     postureCheckInterval: 15,
     enableNotifications: true,
-    enableBreakAlerts: true
+    enableBreakAlerts: true,
+    poseDetector: DEFAULT_POSE_DETECTOR,
+    targetFps: DEFAULT_TARGET_FPS,
+    powerSaverOnBattery: true,
+    postureRules: DEFAULT_POSTURE_RULES,
+    privacyMode: false,
+    privacyPreview: 'silhouette',
+    presenceDetection: true,
+    autoBreakMinutes: 5,
+    scheduleMode: 'interval',
+    customCycle: DEFAULT_CUSTOM_CYCLE,
+    eyeBreaks: true,
+    eyeBreakInterval: 20,
+    eyeBreakDuration: 20,
+    eyeBreakPoseConfirm: true,
+    workingHours: DEFAULT_WORKING_HOURS,
+    stretchProvider: DEFAULT_STRETCH_PROVIDER,
+    stretchLimitations: []
   })
   const [showPostureAlert, setShowPostureAlert] = useState(false)
-  const [postureAlertData, setPostureAlertData] = useState<{issues: string[], score: number} | null>(null)
+  const [postureAlertData, setPostureAlertData] = useState<{issues: PostureIssue[], score: number} | null>(null)
   const [showBreakAlert, setShowBreakAlert] = useState(false)
+  const [scheduleState, setScheduleState] = useState<ScheduleState | null>(null)
+  const [eyeBreakReminder, setEyeBreakReminder] = useState<EyeBreakReminder | null>(null)
+  const [eyeBreakState, setEyeBreakState] = useState<EyeBreakState | null>(null)
+  const [eyeBreakStats, setEyeBreakStats] = useState<EyeBreakStats | null>(null)
+  const [workStatus, setWorkStatus] = useState<WorkStatus>('working')
+  const [snoozedUntil, setSnoozedUntil] = useState<Partial<Record<SnoozeTarget, number>>>({})
+  const [notificationService] = useState(() => new NotificationService())
+  const [notificationPermission, setNotificationPermission] = useState(() => notificationService.getPermission())
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine)
 
   // Initialize services on component mount
   useEffect(() => {
@@ -45,6 +89,33 @@ function App() {
     }
   }, [])
 
+  useEffect(() => {
+    geminiService?.setProvider(currentSettings.stretchProvider)
+  }, [geminiService, currentSettings.stretchProvider])
+
+  useEffect(() => {
+    geminiService?.setLimitations(currentSettings.stretchLimitations)
+  }, [geminiService, currentSettings.stretchLimitations])
+
+  // The service worker delivers clicks on system notifications back to this tab
+  useEffect(() => {
+    notificationService.register()
+  }, [notificationService])
+
+  useEffect(() => {
+    notificationService.setEnabled(currentSettings.enableNotifications)
+  }, [notificationService, currentSettings.enableNotifications])
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine)
+    window.addEventListener('online', updateOnline)
+    window.addEventListener('offline', updateOnline)
+    return () => {
+      window.removeEventListener('online', updateOnline)
+      window.removeEventListener('offline', updateOnline)
+    }
+  }, [])
+
   const handlePostureChange = useCallback((score: number) => {
     setTrackingData(prev => prev ? { ...prev, postureScore: score } : null)
   }, [])
@@ -55,24 +126,67 @@ function App() {
 
   const handlePostureAnalysis = useCallback((analysis: PostureAnalysis) => {
     setCurrentPostureAnalysis(analysis)
+    // A replayed recording is shown but must not raise alerts or end up in the history
+    if (analysis.replay) return
     if (trackingService) {
       trackingService.updatePostureScore(analysis.score, analysis.issues)
       setTrackingData(trackingService.getCurrentData())
     }
   }, [trackingService])
 
+  const handlePresenceChange = useCallback((event: PresenceEvent) => {
+    // Leaving the desk rests the eyes as well as looking away does
+    eyeBreakReminder?.setLookingAway(event.type === 'absent')
+    if (event.type === 'returned') {
+      eyeBreakReminder?.reset()
+    }
+
+    if (!trackingService) return
+    if (event.type === 'absent') {
+      trackingService.markUserAbsent(event.timestamp)
+    } else if (trackingService.markUserReturned(event.awayMs)) {
+      setShowBreakAlert(false) // The time away already counted as a break
+    }
+    setTrackingData(trackingService.getCurrentData())
+  }, [trackingService, eyeBreakReminder])
+
+  const handleLookAwayChange = useCallback((lookingAway: boolean) => {
+    eyeBreakReminder?.setLookingAway(lookingAway)
+  }, [eyeBreakReminder])
+
+  const handlePoseSignal = useCallback(() => {
+    eyeBreakReminder?.reportPoseSignal()
+  }, [eyeBreakReminder])
+
   const handleCameraError = useCallback((error: string) => {
     setCameraError(error)
   }, [])
 
+  // Alerts also go out as system notifications in case this tab is in the background
   const handleBreakAlert = useCallback(() => {
     setShowBreakAlert(true)
-  }, [])
+    notificationService.show('break', 'Break time!', 'You have been at the screen for a while. Step away for a few minutes.')
+  }, [notificationService])
 
-  const handlePostureAlert = useCallback((issues: string[], score: number) => {
+  const handlePostureAlert = useCallback((issues: PostureIssue[], score: number) => {
     setPostureAlertData({ issues, score })
     setShowPostureAlert(true)
-  }, [])
+    notificationService.show('posture', `Posture alert (${score}/10)`, issues[0]?.message || 'Check your posture.')
+  }, [notificationService])
+
+  const requestNotificationPermission = async () => {
+    setNotificationPermission(await notificationService.requestPermission())
+  }
+
+  // Eye breaks follow the working hours schedule like the other alerts
+  useEffect(() => {
+    if (!eyeBreakReminder || !isMonitoring || !currentSettings.eyeBreaks) return
+    if (workStatus === 'working') {
+      eyeBreakReminder.start()
+    } else {
+      eyeBreakReminder.stop()
+    }
+  }, [workStatus, eyeBreakReminder, isMonitoring, currentSettings.eyeBreaks])
 
   const startMonitoring = () => {
     if (!geminiService) {
@@ -82,8 +196,20 @@ function App() {
 
         const tracking = new TrackingService(handlePostureChange, handleScreenTimeUpdate, handleBreakAlert, handlePostureAlert, currentSettings)
     setTrackingService(tracking)
+    tracking.setScheduleListener(setScheduleState)
+    tracking.setWorkStatusListener(setWorkStatus)
     tracking.startTracking()
     setTrackingData(tracking.getCurrentData())
+    setWorkStatus(tracking.getWorkStatus())
+
+    const trackingSettings = tracking.getCurrentSettings()
+    const eyeBreaks = new EyeBreakReminder(getEyeBreakOptions(trackingSettings), setEyeBreakState, setEyeBreakStats)
+    if (trackingSettings.eyeBreaks && tracking.getWorkStatus() === 'working') {
+      eyeBreaks.start()
+    }
+    setEyeBreakReminder(eyeBreaks)
+    setEyeBreakStats(eyeBreaks.getStats())
+    setCurrentSettings(tracking.getCurrentSettings()) // Pick up settings persisted from earlier sessions
     setIsMonitoring(true)
     setCameraError(null) // Clear any previous camera errors
   }
@@ -92,6 +218,7 @@ function App() {
     if (trackingService) {
       trackingService.stopTracking()
     }
+    eyeBreakReminder?.stop()
     setIsMonitoring(false)
     setCurrentPostureAnalysis(null)
   }
@@ -101,8 +228,25 @@ function App() {
       trackingService.takeBreak()
       setTrackingData(trackingService.getCurrentData())
     }
+    eyeBreakReminder?.reset()
+    setSnoozedUntil(prev => ({ ...prev, break: undefined }))
+  }
+
+  const skipBreak = () => {
+    if (trackingService) {
+      trackingService.skipBreak()
+    }
+    setShowBreakAlert(false)
   }
 
+  // Length of the break the schedule is about to ask for, if it sets one
+  const scheduledBreakCycle = getCycleConfig(currentSettings.scheduleMode, currentSettings.customCycle)
+  const scheduledBreakMinutes = scheduledBreakCycle && scheduleState
+    ? (isLongBreakNext(scheduledBreakCycle, scheduleState.completedCycles)
+        ? scheduledBreakCycle.longBreakMinutes
+        : scheduledBreakCycle.breakMinutes)
+    : null
+
   const generateStretchSuggestions = async () => {
     console.log('=== GENERATE STRETCH SUGGESTIONS CALLED ===')
     console.log('Generating stretch suggestions...', { geminiService: !!geminiService, trackingData: !!trackingData })
@@ -128,7 +272,7 @@ function App() {
     setIsGeneratingSuggestions(true)
     try {
       console.log('Calling Gemini service...')
-      const suggestions = await geminiService.generateStretchSuggestions({
+      const result = await geminiService.generateStretchSuggestions({
         screenTime: userData.screenTime,
         postureScore: userData.postureScore,
         lastBreakTime: userData.lastBreakTime,
@@ -138,14 +282,13 @@ function App() {
           shoulderAlignment: currentPostureAnalysis.shoulderAlignment,
           spineAlignment: currentPostureAnalysis.spineAlignment,
           headPosition: currentPostureAnalysis.headPosition,
-          shoulderHeight: currentPostureAnalysis.shoulderHeight,
-          slouching: currentPostureAnalysis.issues.some(issue => 
-            issue.toLowerCase().includes('slouching') || 
-            issue.toLowerCase().includes('forward')
-          )
-        } : undefined
+          shoulderHeight: currentPostureAnalysis.shoulderHeight
+        } : undefined,
+        postureIssues: currentPostureAnalysis?.issues
       })
-      console.log('Got suggestions:', suggestions)
+      console.log('Got suggestions:', result)
+      const suggestions = result.suggestions
+      setLastStretchResult(result)
       // Add new suggestions to the current session
       setStretchSuggestions(prev => [...prev, ...suggestions])
       // Also add to all sessions for history
@@ -162,8 +305,9 @@ function App() {
   const handleGetStretchFromAlert = useCallback(() => {
     // Close the posture alert and generate stretch suggestions
     setShowPostureAlert(false)
+    notificationService.close('posture')
     generateStretchSuggestions()
-  }, [generateStretchSuggestions])
+  }, [generateStretchSuggestions, notificationService])
 
   const handleDismissBreakAlert = useCallback(() => {
     setShowBreakAlert(false)
@@ -172,10 +316,46 @@ function App() {
     }
   }, [trackingService])
 
+  const handleSnooze = useCallback((target: SnoozeTarget, option: SnoozeOption) => {
+    if (target === 'break') {
+      setShowBreakAlert(false)
+    } else {
+      setShowPostureAlert(false)
+    }
+    notificationService.close(target)
+    if (trackingService) {
+      const until = trackingService.snoozeAlert(target, option)
+      setSnoozedUntil(prev => ({ ...prev, [target]: until }))
+    }
+  }, [trackingService, notificationService])
+
   const handleTakeBreakFromAlert = useCallback(() => {
     setShowBreakAlert(false)
+    notificationService.close('break')
     takeBreak()
-  }, [takeBreak])
+  }, [takeBreak, notificationService])
+
+  // Buttons on a system notification do the same as the ones on the in-page alert
+  const handleNotificationAction = useCallback((action: NotificationAction, kind: NotificationKind) => {
+    switch (action) {
+      case 'take_break':
+        handleTakeBreakFromAlert()
+        break
+      case 'snooze':
+        handleSnooze(kind, 'snooze_10')
+        break
+      case 'stretch':
+        handleGetStretchFromAlert()
+        break
+      default:
+        break // Just bring the tab forward, the in-page alert is still showing
+    }
+  }, [handleTakeBreakFromAlert, handleSnooze, handleGetStretchFromAlert])
+
+  useEffect(() => {
+    notificationService.setActionListener(handleNotificationAction)
+    return () => notificationService.setActionListener(null)
+  }, [notificationService, handleNotificationAction])
 
   const startStretch = (suggestion: StretchSuggestion) => {
     setCurrentStretch(suggestion)
@@ -219,6 +399,12 @@ function App() {
     if (trackingService) {
       trackingService.updateSettings(newSettings)
     }
+    if (eyeBreakReminder) {
+      eyeBreakReminder.updateOptions(getEyeBreakOptions(newSettings))
+      if (!newSettings.eyeBreaks) {
+        eyeBreakReminder.stop() // Turning them back on is picked up by the working hours effect
+      }
+    }
   }
 
   const handleOpenSettings = () => {
@@ -250,7 +436,9 @@ function App() {
       <div className="min-h-screen bg-gray-50 p-4">
         <div className="max-w-2xl mx-auto">
           <div className="bg-white rounded-lg shadow-md p-6 mb-4">
-            <h2 className="text-2xl font-bold text-gray-800 mb-4">AI-Generated Stretch Suggestions</h2>
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">
+              {lastStretchResult?.source === 'library' ? 'Stretch Suggestions' : 'AI-Generated Stretch Suggestions'}
+            </h2>
             <p className="text-gray-600 mb-4">
               Based on your current posture score ({trackingData?.postureScore}/10) and screen time ({trackingData?.screenTime} minutes)
             </p>
@@ -282,6 +470,9 @@ function App() {
                 )}
               </button>
             </div>
+            {lastStretchResult && geminiService && (
+              <StretchValidationNotice result={lastStretchResult} providerName={geminiService.getProviderName()} />
+            )}
           </div>
           
           {stretchSuggestions.map((suggestion, index) => (
@@ -312,6 +503,15 @@ function App() {
                   onPostureUpdate={handlePostureAnalysis}
                   onError={handleCameraError}
                   isActive={isMonitoring}
+                  poseDetector={currentSettings.poseDetector}
+                  targetFps={currentSettings.targetFps}
+                  powerSaverOnBattery={currentSettings.powerSaverOnBattery}
+                  postureRules={currentSettings.postureRules}
+                  privacyMode={currentSettings.privacyMode}
+                  privacyPreview={currentSettings.privacyPreview}
+                  onPresenceChange={handlePresenceChange}
+                  onLookAwayChange={handleLookAwayChange}
+                  onPoseSignal={handlePoseSignal}
                 />
                 
                 {/* Control Buttons */}
@@ -330,6 +530,18 @@ function App() {
                   >
                     Pause Monitoring
                   </button>
+                  <button
+                    onClick={() => setShowVideoAnalysis(true)}
+                    className="w-full bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+                  >
+                    Analyze Recorded Video
+                  </button>
+                  <button
+                    onClick={() => setShowAnalytics(true)}
+                    className="w-full bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+                  >
+                    View Analytics
+                  </button>
                 </div>
 
                 {/* Status Card */}
@@ -360,6 +572,13 @@ function App() {
                 onTakeBreak={takeBreak}
                 isGeneratingSuggestions={isGeneratingSuggestions}
                 onOpenSettings={handleOpenSettings}
+                privacyMode={currentSettings.privacyMode}
+                schedule={scheduleState}
+                onSkipBreak={skipBreak}
+                eyeBreakStats={eyeBreakStats}
+                workStatus={workStatus}
+                snoozedUntil={snoozedUntil}
+                isOffline={!isOnline}
               />
 
               {/* Camera Error Display */}
@@ -525,8 +744,27 @@ function App() {
         onClose={() => setShowSettings(false)}
         onSave={handleSaveSettings}
         currentSettings={currentSettings}
+        trackingData={trackingData}
+        notificationPermission={notificationPermission}
+        onRequestNotificationPermission={requestNotificationPermission}
       />
 
+      {/* Recorded Video Analysis */}
+      {showVideoAnalysis && (
+        <VideoAnalysisModal
+          settings={trackingService ? trackingService.getCurrentSettings() : currentSettings}
+          onClose={() => setShowVideoAnalysis(false)}
+        />
+      )}
+
+      {/* Analytics */}
+      {showAnalytics && (
+        <AnalyticsModal
+          settings={trackingService ? trackingService.getCurrentSettings() : currentSettings}
+          onClose={() => setShowAnalytics(false)}
+        />
+      )}
+
       {/* Posture Alert */}
       <PostureAlert
         isOpen={showPostureAlert}
@@ -539,6 +777,7 @@ function App() {
         issues={postureAlertData?.issues || []}
         score={postureAlertData?.score || 0}
         onGetStretch={handleGetStretchFromAlert}
+        onSnooze={(option) => handleSnooze('posture', option)}
       />
 
       {/* Break Alert */}
@@ -547,6 +786,16 @@ function App() {
         onClose={handleDismissBreakAlert}
         onTakeBreak={handleTakeBreakFromAlert}
         screenTime={trackingData?.screenTime || 0}
+        breakMinutes={scheduledBreakMinutes}
+        onSnooze={(option) => handleSnooze('break', option)}
+      />
+
+      {/* 20-20-20 Eye Break */}
+      <EyeBreakPrompt
+        state={eyeBreakState}
+        poseConfirm={currentSettings.eyeBreakPoseConfirm}
+        onStart={() => eyeBreakReminder?.begin()}
+        onSkip={() => eyeBreakReminder?.skip()}
       />
     </>
   )
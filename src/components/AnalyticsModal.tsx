@@ -0,0 +1,289 @@
+import React, { useState, useEffect } from 'react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  ReferenceLine
+} from 'recharts';
+import { historyStore, MinuteRecord } from '../services/historyStore';
+import {
+  getDailyAverages,
+  getWeeklyAverages,
+  getIssueCategoryTime,
+  getBreakCompliance,
+  getHourlyScores,
+  summarizeHistory
+} from '../services/historyAnalytics';
+import { Settings } from '../services/trackingService';
+import { getCycleConfig } from '../services/breakSchedule';
+
+interface AnalyticsModalProps {
+  settings: Settings;
+  onClose: () => void;
+}
+
+type Granularity = 'daily' | 'weekly';
+
+const RANGE_OPTIONS = [7, 30, 90];
+const DAY = 24 * 60 * 60 * 1000;
+const MIN_HOURLY_SAMPLES = 30; // Ignore hours with too little data to judge
+
+const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+};
+
+const AnalyticsModal: React.FC<AnalyticsModalProps> = ({ settings, onClose }) => {
+  const [rangeDays, setRangeDays] = useState(30);
+  const [granularity, setGranularity] = useState<Granularity>('daily');
+  const [current, setCurrent] = useState<MinuteRecord[]>([]);
+  const [previous, setPrevious] = useState<MinuteRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the selected range plus the range before it for comparison
+  useEffect(() => {
+    let cancelled = false;
+    const now = Date.now();
+    const from = now - rangeDays * DAY;
+
+    setIsLoading(true);
+    setError(null);
+    historyStore.getMinutes(from - rangeDays * DAY, now)
+      .then(minutes => {
+        if (cancelled) return;
+        setCurrent(minutes.filter(minute => minute.timestamp >= from));
+        setPrevious(minutes.filter(minute => minute.timestamp < from));
+      })
+      .catch(err => {
+        console.error('Error loading posture history:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeDays]);
+
+  const summary = summarizeHistory(current);
+  const previousSummary = summarizeHistory(previous);
+  const scoreChange = summary.averageScore !== null && previousSummary.averageScore !== null
+    ? Math.round((summary.averageScore - previousSummary.averageScore) * 10) / 10
+    : null;
+
+  const scorePoints = granularity === 'daily' ? getDailyAverages(current) : getWeeklyAverages(current);
+  const issueTime = getIssueCategoryTime(current);
+  // Cycle modes ask for a break after each work block instead of the reminder interval
+  const breakInterval = getCycleConfig(settings.scheduleMode, settings.customCycle)?.workMinutes ?? settings.reminderInterval;
+  const compliance = getBreakCompliance(current, breakInterval);
+  const hourly = getHourlyScores(current);
+  const worstHour = hourly
+    .filter(hour => hour.average !== null && hour.samples >= MIN_HOURLY_SAMPLES)
+    .sort((a, b) => (a.average as number) - (b.average as number))[0];
+  const overallCompliance = compliance.reduce((sum, day) => sum + day.screenTime, 0) > 0
+    ? Math.round(
+        (1 - compliance.reduce((sum, day) => sum + day.overdueMinutes, 0) /
+          compliance.reduce((sum, day) => sum + day.screenTime, 0)) * 100
+      )
+    : null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-gray-800">Posture Analytics</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 text-2xl font-bold"
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Range */}
+        <div className="flex gap-2 mb-4">
+          {RANGE_OPTIONS.map(days => (
+            <button
+              key={days}
+              onClick={() => setRangeDays(days)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                rangeDays === days
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              Last {days} days
+            </button>
+          ))}
+        </div>
+
+        {isLoading && <p className="text-sm text-gray-600">Loading history...</p>}
+
+        {error && (
+          <p className="text-sm text-red-600 bg-red-50 rounded-lg p-3 border border-red-200">
+            Could not load history: {error}
+          </p>
+        )}
+
+        {!isLoading && !error && current.length === 0 && (
+          <p className="text-sm text-gray-600">
+            No history for this period yet. Start monitoring and your posture, screen time and breaks will be
+            recorded here.
+          </p>
+        )}
+
+        {!isLoading && !error && current.length > 0 && (
+          <div className="space-y-6">
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="bg-gray-50 rounded-lg p-3 text-center">
+                <div className="text-xs text-gray-500">Average Score</div>
+                <div className="text-lg font-semibold text-gray-800">
+                  {summary.averageScore !== null ? `${summary.averageScore}/10` : '—'}
+                </div>
+                {scoreChange !== null && (
+                  <div className={`text-xs ${scoreChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {scoreChange >= 0 ? '▲' : '▼'} {Math.abs(scoreChange)} vs previous {rangeDays} days
+                  </div>
+                )}
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3 text-center">
+                <div className="text-xs text-gray-500">Screen Time</div>
+                <div className="text-lg font-semibold text-gray-800">{formatMinutes(summary.screenTime)}</div>
+                {summary.offHoursScreenTime > 0 && (
+                  <div className="text-xs text-gray-500">{formatMinutes(summary.offHoursScreenTime)} off hours</div>
+                )}
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3 text-center">
+                <div className="text-xs text-gray-500">Breaks</div>
+                <div className="text-lg font-semibold text-gray-800">{summary.breaks}</div>
+                {summary.snoozes > 0 && (
+                  <div className="text-xs text-gray-500">
+                    {summary.snoozes} {summary.snoozes === 1 ? 'reminder' : 'reminders'} snoozed
+                  </div>
+                )}
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3 text-center">
+                <div className="text-xs text-gray-500">Break Compliance</div>
+                <div className="text-lg font-semibold text-gray-800">
+                  {overallCompliance !== null ? `${overallCompliance}%` : '—'}
+                </div>
+              </div>
+            </div>
+
+            {/* Score Trend */}
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="text-sm font-medium text-gray-700">Posture Score Trend</h4>
+                <div className="flex gap-1">
+                  {(['daily', 'weekly'] as Granularity[]).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setGranularity(option)}
+                      className={`px-3 py-1 rounded text-xs font-medium capitalize ${
+                        granularity === option ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100'
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={scorePoints}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                    <YAxis domain={[0, 10]} tick={{ fontSize: 12 }} />
+                    <Tooltip formatter={(value: number) => [`${value}/10`, 'Average score']} />
+                    <Line type="monotone" dataKey="average" stroke="#2563eb" strokeWidth={2} dot={{ r: 3 }} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Issue Categories */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Time Spent in Each Issue Category</h4>
+              {issueTime.length === 0 ? (
+                <p className="text-sm text-green-600">No posture issues were recorded in this period.</p>
+              ) : (
+                <div className="h-48">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={issueTime} layout="vertical" margin={{ left: 40 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                      <XAxis type="number" tick={{ fontSize: 12 }} />
+                      <YAxis type="category" dataKey="label" tick={{ fontSize: 12 }} width={110} />
+                      <Tooltip formatter={(value: number) => [formatMinutes(value), 'Time']} />
+                      <Bar dataKey="minutes" fill="#f97316" radius={[0, 4, 4, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
+
+            {/* Break Compliance */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-1">Break Compliance</h4>
+              <p className="text-xs text-gray-500 mb-2">
+                Share of each day's screen time spent within your {breakInterval} minute break interval
+              </p>
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={compliance}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                    <YAxis domain={[0, 100]} tick={{ fontSize: 12 }} unit="%" />
+                    <Tooltip
+                      formatter={(value: number, _name, item) => [
+                        `${value}% (${item.payload.breaks}/${item.payload.expectedBreaks} breaks)`,
+                        'Compliance'
+                      ]}
+                    />
+                    <Bar dataKey="compliance" fill="#22c55e" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Time of Day */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-1">Posture by Time of Day</h4>
+              {worstHour && (
+                <p className="text-xs text-gray-500 mb-2">
+                  Your posture is typically worst around {worstHour.label} (average {worstHour.average}/10)
+                </p>
+              )}
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={hourly.filter(hour => hour.samples > 0)}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                    <YAxis domain={[0, 10]} tick={{ fontSize: 12 }} />
+                    <Tooltip formatter={(value: number) => [`${value}/10`, 'Average score']} />
+                    {summary.averageScore !== null && (
+                      <ReferenceLine y={summary.averageScore} stroke="#9ca3af" strokeDasharray="4 4" />
+                    )}
+                    <Bar dataKey="average" fill="#6366f1" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsModal;
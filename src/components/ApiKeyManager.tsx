@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { apiKeyStore, ApiKeyProvider } from '../services/apiKeyStore';
+import { validateApiKey, maskApiKey } from '../config/apiKeys';
+
+interface ApiKeyManagerProps {
+  provider: ApiKeyProvider;
+  label: string;
+  onChange?: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Enter, encrypt, unlock and remove the key for one provider
+const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ provider, label, onChange }) => {
+  const [key, setKey] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  // Bumped after every change, so the status below is read again from the store
+  const [, setVersion] = useState(0);
+
+  const hasKey = apiKeyStore.hasKey(provider);
+  const isEncrypted = apiKeyStore.isEncrypted(provider);
+  const isLocked = apiKeyStore.isLocked(provider);
+  const savedKey = apiKeyStore.getKey(provider);
+
+  const changed = (text: string, error = false) => {
+    setMessage({ text, error });
+    setVersion(version => version + 1);
+    onChange?.();
+  };
+
+  const handleSave = async () => {
+    if (provider === 'gemini' && !validateApiKey(key.trim())) {
+      setMessage({ text: 'Gemini keys start with "AIza". Check that you copied the whole key.', error: true });
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await apiKeyStore.saveKey(provider, key, passphrase || undefined);
+      setKey('');
+      setPassphrase('');
+      changed(passphrase ? 'Key saved and encrypted.' : 'Key saved.');
+    } catch (error) {
+      console.error('Error saving API key:', error instanceof Error ? error.message : 'unknown error');
+      setMessage({ text: 'Could not save the key.', error: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    setIsBusy(true);
+    const unlocked = await apiKeyStore.unlock(provider, unlockPassphrase);
+    setIsBusy(false);
+    setUnlockPassphrase('');
+    if (unlocked) {
+      changed('Key unlocked for this session.');
+    } else {
+      setMessage({ text: 'Wrong passphrase.', error: true });
+    }
+  };
+
+  const handleRemove = () => {
+    apiKeyStore.removeKey(provider);
+    changed('Key removed.');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-xs text-gray-600">{label}</label>
+        <span className="text-xs text-gray-500">
+          {!hasKey
+            ? 'Not set'
+            : isLocked
+              ? 'Saved, encrypted (locked)'
+              : `${maskApiKey(savedKey)}${isEncrypted ? ', encrypted' : ''}`}
+        </span>
+      </div>
+
+      {isLocked && (
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={unlockPassphrase}
+            placeholder="Passphrase"
+            autoComplete="current-password"
+            onChange={(e) => setUnlockPassphrase(e.target.value)}
+            className={inputClassName}
+          />
+          <button
+            onClick={handleUnlock}
+            disabled={isBusy || !unlockPassphrase}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white transition-colors"
+          >
+            Unlock
+          </button>
+        </div>
+      )}
+
+      <input
+        type="password"
+        value={key}
+        placeholder={hasKey ? 'Enter a new key to replace it' : 'Paste your API key'}
+        autoComplete="off"
+        onChange={(e) => setKey(e.target.value)}
+        className={inputClassName}
+      />
+      {apiKeyStore.isEncryptionSupported() && (
+        <input
+          type="password"
+          value={passphrase}
+          placeholder="Passphrase to encrypt it (optional)"
+          autoComplete="new-password"
+          onChange={(e) => setPassphrase(e.target.value)}
+          className={inputClassName}
+        />
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={isBusy || !key.trim()}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white transition-colors"
+        >
+          Save Key
+        </button>
+        {hasKey && (
+          <button
+            onClick={handleRemove}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 transition-colors"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <p className={`text-xs ${message.error ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+      <p className="text-xs text-gray-500">
+        Stored only in this browser. With a passphrase the key is encrypted and has to be unlocked after each reload.
+      </p>
+    </div>
+  );
+};
+
+export default ApiKeyManager;
@@ -1,13 +1,17 @@
 import React, { useEffect } from 'react';
+import { SnoozeOption } from '../services/snooze';
+import SnoozeOptions from './SnoozeOptions';
 
 interface BreakAlertProps {
   isOpen: boolean;
   onClose: () => void;
   onTakeBreak: () => void;
   screenTime: number;
+  breakMinutes?: number | null; // Length of the scheduled break, when the schedule sets one
+  onSnooze?: (option: SnoozeOption) => void;
 }
 
-const BreakAlert: React.FC<BreakAlertProps> = ({ isOpen, onClose, onTakeBreak, screenTime }) => {
+const BreakAlert: React.FC<BreakAlertProps> = ({ isOpen, onClose, onTakeBreak, screenTime, breakMinutes = null, onSnooze }) => {
   // Auto-close after 10 seconds if not addressed
   useEffect(() => {
     if (isOpen) {
@@ -55,7 +59,9 @@ const BreakAlert: React.FC<BreakAlertProps> = ({ isOpen, onClose, onTakeBreak, s
         {/* Main Message */}
         <div className="mb-6">
           <p className="text-orange-700 text-base font-medium mb-3">
-            It's time to take a break! Your body needs rest to maintain good posture and prevent strain.
+            {breakMinutes
+              ? `It's time for a ${breakMinutes}-minute break! Step away from the screen until the timer runs out.`
+              : "It's time to take a break! Your body needs rest to maintain good posture and prevent strain."}
           </p>
           <div className="bg-white rounded-lg p-3 border border-orange-200">
             <h4 className="font-semibold text-orange-800 mb-2 text-sm">Benefits of taking breaks:</h4>
@@ -84,6 +90,8 @@ const BreakAlert: React.FC<BreakAlertProps> = ({ isOpen, onClose, onTakeBreak, s
           </button>
         </div>
 
+        {onSnooze && <SnoozeOptions onSnooze={onSnooze} className="mt-3" />}
+
         {/* Auto-close indicator */}
         <div className="mt-4 text-xs text-orange-500 text-center">
           This alert will auto-close in 10 seconds
@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import TensorFlowPoseService from '../services/tensorflowPoseService';
+import { PostureBaseline, CALIBRATION_DURATION } from '../services/postureCalibration';
+
+interface CalibrationModalProps {
+  poseService: TensorFlowPoseService;
+  onClose: () => void;
+  onCalibrated?: (baseline: PostureBaseline) => void;
+}
+
+type CalibrationPhase = 'intro' | 'recording' | 'done' | 'error';
+
+const CalibrationModal: React.FC<CalibrationModalProps> = ({ poseService, onClose, onCalibrated }) => {
+  const [phase, setPhase] = useState<CalibrationPhase>('intro');
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tick the countdown while recording
+  useEffect(() => {
+    if (phase !== 'recording') return;
+
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      setElapsed(Math.min(CALIBRATION_DURATION, Date.now() - startedAt));
+    }, 100);
+
+    return () => clearInterval(timer);
+  }, [phase]);
+
+  // Don't leave a calibration running in the background if the modal goes away
+  useEffect(() => {
+    return () => poseService.cancelCalibration();
+  }, [poseService]);
+
+  const startCalibration = useCallback(async () => {
+    setError(null);
+    setElapsed(0);
+    setPhase('recording');
+
+    try {
+      const baseline = await poseService.startCalibration(CALIBRATION_DURATION);
+      setPhase('done');
+      if (onCalibrated) {
+        onCalibrated(baseline);
+      }
+    } catch (err) {
+      console.error('Posture calibration failed:', err);
+      setError(err instanceof Error ? err.message : String(err));
+      setPhase('error');
+    }
+  }, [poseService, onCalibrated]);
+
+  const handleReset = () => {
+    poseService.resetCalibration();
+    onClose();
+  };
+
+  const secondsLeft = Math.ceil((CALIBRATION_DURATION - elapsed) / 1000);
+  const hasBaseline = poseService.getBaseline() !== null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-gray-800">Posture Calibration</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 text-2xl font-bold"
+          >
+            ×
+          </button>
+        </div>
+
+        {phase === 'intro' && (
+          <div>
+            <p className="text-sm text-gray-600 mb-4">
+              Calibration records how <strong>you</strong> look when sitting up straight, so posture is scored
+              against your own baseline instead of fixed angles. This accounts for where your webcam is mounted.
+            </p>
+            <div className="bg-blue-50 rounded-lg p-3 border border-blue-200 mb-4">
+              <h4 className="font-semibold text-blue-800 mb-2 text-sm">Before you start:</h4>
+              <ul className="text-sm text-blue-700 space-y-1">
+                <li>• Sit in your usual working position</li>
+                <li>• Sit up straight with shoulders relaxed</li>
+                <li>• Keep your head and shoulders in view</li>
+                <li>• Hold still for {CALIBRATION_DURATION / 1000} seconds</li>
+              </ul>
+            </div>
+            <div className="flex gap-3">
+              {hasBaseline && (
+                <button
+                  onClick={handleReset}
+                  className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+                >
+                  Reset to Defaults
+                </button>
+              )}
+              <button
+                onClick={startCalibration}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+              >
+                {hasBaseline ? 'Recalibrate' : 'Start Calibration'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {phase === 'recording' && (
+          <div className="text-center">
+            <div className="text-5xl font-bold text-blue-600 mb-2">{secondsLeft}</div>
+            <p className="text-sm text-gray-600 mb-4">Sit up straight and hold still...</p>
+            <div className="w-full bg-gray-200 rounded-full h-3">
+              <div
+                className="h-3 rounded-full bg-blue-500 transition-all duration-100"
+                style={{ width: `${(elapsed / CALIBRATION_DURATION) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {phase === 'done' && (
+          <div className="text-center">
+            <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-3">
+              <span className="text-green-600 text-2xl">✓</span>
+            </div>
+            <p className="text-green-700 font-medium mb-1">Calibration saved</p>
+            <p className="text-sm text-gray-600 mb-4">
+              Your posture is now scored against this baseline.
+            </p>
+            <button
+              onClick={onClose}
+              className="w-full bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
+        {phase === 'error' && (
+          <div>
+            <p className="text-sm text-red-600 bg-red-50 rounded-lg p-3 border border-red-200 mb-4">
+              {error}
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                className="flex-1 bg-gray-600 hover:bg-gray-700 text-white font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={startCalibration}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+              >
+                Try Again
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationModal;
@@ -158,9 +158,9 @@ const CompactWebcam: React.FC<CompactWebcamProps> = ({
             <div className="text-xs">
               <span className="text-gray-600">Issues:</span>
               <div className="mt-1 space-y-0.5">
-                {currentPosture.issues.slice(0, 2).map((issue, index) => (
-                  <div key={index} className="text-red-600 truncate">
-                    • {issue}
+                {currentPosture.issues.slice(0, 2).map((issue) => (
+                  <div key={issue.code} className="text-red-600 truncate">
+                    • {issue.message}
                   </div>
                 ))}
                 {currentPosture.issues.length > 2 && (
@@ -1,17 +1,20 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import Webcam from 'react-webcam';
 import TensorFlowPoseService, { PostureAnalysis } from '../services/tensorflowPoseService';
+import { ISSUE_LABELS } from '../services/postureIssues';
 
 interface EnhancedWebcamProps {
   onPostureUpdate: (analysis: PostureAnalysis) => void;
   onError: (error: string) => void;
   isActive: boolean;
+  privacyMode?: boolean; // No screenshots; frames only go to pose detection
 }
 
 const EnhancedWebcam: React.FC<EnhancedWebcamProps> = ({
   onPostureUpdate,
   onError,
-  isActive
+  isActive,
+  privacyMode = false
 }) => {
   const webcamRef = useRef<Webcam>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -99,6 +102,10 @@ const EnhancedWebcam: React.FC<EnhancedWebcamProps> = ({
   }, [poseService, isActive, isInitialized]);
 
   const capture = useCallback(() => {
+    if (privacyMode) {
+      console.warn('Capture is disabled in privacy mode');
+      return;
+    }
     if (webcamRef.current) {
       setIsCapturing(true);
       const imageSrc = webcamRef.current.getScreenshot();
@@ -106,7 +113,7 @@ const EnhancedWebcam: React.FC<EnhancedWebcamProps> = ({
       console.log('Captured image:', imageSrc);
       setTimeout(() => setIsCapturing(false), 1000);
     }
-  }, []);
+  }, [privacyMode]);
 
   const getPostureColor = (score: number) => {
     if (score >= 8) return 'text-green-500';
@@ -209,25 +216,27 @@ const EnhancedWebcam: React.FC<EnhancedWebcamProps> = ({
         />
 
         {/* Capture Button */}
-        <div className="absolute bottom-4 right-4">
-          <button
-            onClick={capture}
-            disabled={isCapturing}
-            className="bg-white/90 hover:bg-white disabled:bg-gray-300 text-gray-800 font-medium py-2 px-3 rounded-full shadow-lg transition-all duration-200 flex items-center gap-2"
-          >
-            {isCapturing ? (
-              <>
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600"></div>
-                Capturing...
-              </>
-            ) : (
-              <>
-                <span>📸</span>
-                Capture
-              </>
-            )}
-          </button>
-        </div>
+        {!privacyMode && (
+          <div className="absolute bottom-4 right-4">
+            <button
+              onClick={capture}
+              disabled={isCapturing}
+              className="bg-white/90 hover:bg-white disabled:bg-gray-300 text-gray-800 font-medium py-2 px-3 rounded-full shadow-lg transition-all duration-200 flex items-center gap-2"
+            >
+              {isCapturing ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600"></div>
+                  Capturing...
+                </>
+              ) : (
+                <>
+                  <span>📸</span>
+                  Capture
+                </>
+              )}
+            </button>
+          </div>
+        )}
 
         {/* Status Indicator */}
         <div className="absolute top-4 left-4">
@@ -281,12 +290,13 @@ const EnhancedWebcam: React.FC<EnhancedWebcamProps> = ({
             <div>
               <div className="text-sm font-medium text-gray-700 mb-2">Detected Issues:</div>
               <div className="flex flex-wrap gap-1">
-                {currentPosture.issues.map((issue, index) => (
+                {currentPosture.issues.map((issue) => (
                   <span 
-                    key={index}
+                    key={issue.code}
+                    title={issue.message}
                     className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded-full"
                   >
-                    {issue}
+                    {ISSUE_LABELS[issue.code]}
                   </span>
                 ))}
               </div>
@@ -0,0 +1,84 @@
+import React from 'react';
+import { EyeBreakState } from '../services/eyeBreakService';
+
+interface EyeBreakPromptProps {
+  state: EyeBreakState | null;
+  poseConfirm: boolean;
+  onStart: () => void;
+  onSkip: () => void;
+}
+
+// A small corner card rather than a modal, so it never blocks work
+const EyeBreakPrompt: React.FC<EyeBreakPromptProps> = ({ state, poseConfirm, onStart, onSkip }) => {
+  if (!state || state.phase === 'idle') return null;
+
+  const seconds = Math.ceil(state.remainingMs / 1000);
+  const progress = state.durationMs > 0 ? 1 - state.remainingMs / state.durationMs : 1;
+
+  return (
+    <div className="fixed bottom-6 left-6 z-40 w-80 bg-white rounded-xl shadow-lg border border-teal-200 p-4 animate-in slide-in-from-bottom-4 duration-300">
+      <div className="flex items-start gap-3">
+        <div className="w-10 h-10 bg-teal-100 rounded-full flex items-center justify-center flex-shrink-0">
+          <span className="text-xl">👀</span>
+        </div>
+        <div className="flex-1">
+          {state.phase === 'prompt' && (
+            <>
+              <h4 className="font-semibold text-teal-800">Eye break</h4>
+              <p className="text-sm text-teal-700 mb-3">
+                Look at something about 20 feet (6 m) away for {Math.round(state.durationMs / 1000)} seconds.
+                {poseConfirm && ' The timer starts when you turn your head away.'}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={onStart}
+                  className="bg-teal-600 hover:bg-teal-700 text-white font-medium py-1.5 px-3 rounded-lg transition-colors text-sm"
+                >
+                  Start
+                </button>
+                <button
+                  onClick={onSkip}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-1.5 px-3 rounded-lg transition-colors text-sm"
+                >
+                  Skip
+                </button>
+              </div>
+            </>
+          )}
+
+          {state.phase === 'countdown' && (
+            <>
+              <div className="flex items-baseline justify-between">
+                <h4 className="font-semibold text-teal-800">Look far away</h4>
+                <span className="text-2xl font-bold text-teal-700">{seconds}s</span>
+              </div>
+              <p className="text-xs text-teal-600 mb-2">
+                {state.waitingForLookAway
+                  ? 'Paused - turn your head away from the screen to continue'
+                  : 'Keep your eyes on something in the distance'}
+              </p>
+              <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+                <div
+                  className={`h-2 rounded-full transition-all duration-200 ${state.waitingForLookAway ? 'bg-gray-400' : 'bg-teal-500'}`}
+                  style={{ width: `${progress * 100}%` }}
+                />
+              </div>
+              <button onClick={onSkip} className="text-xs text-gray-500 hover:text-gray-700">
+                Skip this one
+              </button>
+            </>
+          )}
+
+          {state.phase === 'done' && (
+            <>
+              <h4 className="font-semibold text-teal-800">Nice work!</h4>
+              <p className="text-sm text-teal-700">Your eyes got a rest. See you in a bit.</p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EyeBreakPrompt;
@@ -1,6 +1,11 @@
 import React from 'react';
 import { TrackingData } from '../services/trackingService';
 import { PostureAnalysis } from '../services/tensorflowPoseService';
+import { ScheduleState } from '../services/breakSchedule';
+import { EyeBreakStats } from '../services/eyeBreakService';
+import { WorkStatus, WORK_STATUS_LABELS } from '../services/workingHours';
+import { SnoozeTarget, formatSnoozeTime } from '../services/snooze';
+import ScheduleCountdown from './ScheduleCountdown';
 
 interface ModernDashboardProps {
   trackingData: TrackingData | null;
@@ -10,6 +15,13 @@ interface ModernDashboardProps {
   onTakeBreak: () => void;
   isGeneratingSuggestions: boolean;
   onOpenSettings: () => void;
+  privacyMode?: boolean;
+  schedule?: ScheduleState | null;
+  onSkipBreak?: () => void;
+  eyeBreakStats?: EyeBreakStats | null;
+  workStatus?: WorkStatus;
+  snoozedUntil?: Partial<Record<SnoozeTarget, number>>;
+  isOffline?: boolean;
 }
 
 const ModernDashboard: React.FC<ModernDashboardProps> = ({
@@ -19,7 +31,14 @@ const ModernDashboard: React.FC<ModernDashboardProps> = ({
   onGenerateSuggestions,
   onTakeBreak,
   isGeneratingSuggestions,
-  onOpenSettings
+  onOpenSettings,
+  privacyMode = false,
+  schedule = null,
+  onSkipBreak = () => {},
+  eyeBreakStats = null,
+  workStatus = 'working',
+  snoozedUntil = {},
+  isOffline = false
 }) => {
   const getPostureColor = (score: number) => {
     if (score >= 8) return 'text-green-600';
@@ -52,8 +71,47 @@ const ModernDashboard: React.FC<ModernDashboardProps> = ({
             <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-2">
               PostureGuard
             </h1>
+        {privacyMode && (
+          <div
+            className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-700"
+            title="Camera frames are analyzed locally and never shown, recorded or stored"
+          >
+            🔒 Privacy mode on
+          </div>
+        )}
+        {isOffline && (
+          <div
+            className="inline-flex items-center gap-2 px-3 py-1 ml-2 rounded-full text-xs font-medium bg-gray-100 text-gray-600"
+            title="Posture detection keeps working offline; stretches come from the built-in library"
+          >
+            📴 Offline
+          </div>
+        )}
+        {isMonitoring && workStatus !== 'working' && (
+          <div
+            className="inline-flex items-center gap-2 px-3 py-1 ml-2 rounded-full text-xs font-medium bg-gray-100 text-gray-600"
+            title="Alerts are paused until your working hours resume"
+          >
+            {workStatus === 'lunch' ? '🥪' : workStatus === 'quiet' ? '🔕' : '🌙'} {WORK_STATUS_LABELS[workStatus]} · alerts paused
+          </div>
+        )}
+        {isMonitoring && (['break', 'posture'] as SnoozeTarget[])
+          .filter(target => (snoozedUntil[target] ?? 0) > Date.now())
+          .map(target => (
+            <div
+              key={target}
+              className="inline-flex items-center gap-2 px-3 py-1 ml-2 rounded-full text-xs font-medium bg-amber-100 text-amber-700"
+            >
+              💤 {target === 'break' ? 'Break' : 'Posture'} alerts snoozed until {formatSnoozeTime(snoozedUntil[target] as number)}
+            </div>
+          ))}
       </div>
 
+      {/* Break Schedule */}
+      {isMonitoring && schedule && (
+        <ScheduleCountdown schedule={schedule} onTakeBreak={onTakeBreak} onSkipBreak={onSkipBreak} />
+      )}
+
       {/* Status Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-white rounded-lg border border-gray-200 p-6">
@@ -96,6 +154,11 @@ const ModernDashboard: React.FC<ModernDashboardProps> = ({
               <p className="text-sm font-medium text-gray-600 mb-1">Breaks Taken</p>
               <p className="text-3xl font-bold text-gray-800">{trackingData?.breakCount || 0}</p>
               <p className="text-xs text-gray-500 mt-1">Today</p>
+              {eyeBreakStats && eyeBreakStats.prompted > 0 && (
+                <p className="text-xs text-teal-600 mt-1" title={`${eyeBreakStats.confirmedByPose} confirmed by camera, ${eyeBreakStats.skipped} skipped`}>
+                  👀 {eyeBreakStats.completed}/{eyeBreakStats.prompted} eye breaks
+                </p>
+              )}
             </div>
             <div className="w-12 h-12 bg-orange-100 rounded-lg flex items-center justify-center">
               <svg className="w-6 h-6 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -188,10 +251,13 @@ const ModernDashboard: React.FC<ModernDashboardProps> = ({
               <h4 className="text-sm font-medium text-gray-700 mb-3">Detected Issues</h4>
               {postureAnalysis.issues.length > 0 ? (
                 <div className="space-y-2">
-                  {postureAnalysis.issues.map((issue, index) => (
-                    <div key={index} className="flex items-center gap-2">
-                      <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                      <span className="text-sm text-gray-700">{issue}</span>
+                  {postureAnalysis.issues.map((issue) => (
+                    <div key={issue.code} className="flex items-center gap-2">
+                      <div className={`w-2 h-2 rounded-full ${
+                        issue.severity === 'severe' ? 'bg-red-500' :
+                        issue.severity === 'moderate' ? 'bg-orange-500' : 'bg-yellow-500'
+                      }`}></div>
+                      <span className="text-sm text-gray-700">{issue.message}</span>
                     </div>
                   ))}
                 </div>
@@ -201,7 +267,7 @@ const ModernDashboard: React.FC<ModernDashboardProps> = ({
                     <div className="w-4 h-4 bg-green-500 rounded-full"></div>
                   </div>
                   <p className="text-green-600 font-medium">No issues detected!</p>
-                  <p className="text-sm text-gray-500">Keep up the good posture!</p>
+                  <p className="text-sm text-gray-500">{postureAnalysis.feedback || 'Keep up the good posture!'}</p>
                 </div>
               )}
             </div>
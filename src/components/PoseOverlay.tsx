@@ -0,0 +1,145 @@
+import React, { useRef, useEffect } from 'react';
+import type { OverlayFrame } from '../services/postureAnalyzer';
+import type { PoseLandmarks } from '../services/tensorflowPoseService';
+import type { PostureIssueCode, PostureIssueSeverity } from '../services/postureIssues';
+
+interface PoseOverlayProps {
+  frame: OverlayFrame | null;
+  width: number; // Intrinsic size of the video the landmarks were measured on
+  height: number;
+  mirrored?: boolean; // Match a mirrored video preview
+}
+
+type LandmarkName = keyof PoseLandmarks;
+
+interface Segment {
+  from: LandmarkName;
+  to: LandmarkName;
+  rules: PostureIssueCode[]; // Issues that implicate this part of the body
+}
+
+const SKELETON: Segment[] = [
+  { from: 'nose', to: 'leftEar', rules: ['forward_head', 'slight_forward_head'] },
+  { from: 'leftEar', to: 'leftShoulder', rules: ['forward_head', 'slight_forward_head', 'head_neck_alignment', 'slight_head_neck'] },
+  { from: 'rightEar', to: 'rightShoulder', rules: ['head_neck_alignment', 'slight_head_neck'] },
+  { from: 'leftEar', to: 'rightEar', rules: ['head_tilt', 'slight_head_tilt'] },
+  { from: 'leftShoulder', to: 'rightShoulder', rules: ['uneven_shoulders', 'slight_shoulder_imbalance', 'shoulder_height_imbalance', 'slight_shoulder_height'] },
+  { from: 'leftShoulder', to: 'leftHip', rules: ['spine_alignment', 'slight_spine_deviation', 'slouching'] },
+  { from: 'rightShoulder', to: 'rightHip', rules: ['spine_alignment', 'slight_spine_deviation', 'slouching'] },
+  { from: 'leftHip', to: 'rightHip', rules: [] },
+  { from: 'leftShoulder', to: 'leftElbow', rules: [] },
+  { from: 'leftElbow', to: 'leftWrist', rules: [] },
+  { from: 'rightShoulder', to: 'rightElbow', rules: [] },
+  { from: 'rightElbow', to: 'rightWrist', rules: [] }
+];
+
+const SEVERITY_COLORS: Record<PostureIssueSeverity, string> = {
+  severe: '#ef4444', // red-500
+  moderate: '#f97316', // orange-500
+  mild: '#eab308' // yellow-500
+};
+const OK_COLOR = '#22c55e'; // green-500
+const NEUTRAL_COLOR = 'rgba(255, 255, 255, 0.6)';
+const MIN_VISIBILITY = 0.3;
+
+const PoseOverlay: React.FC<PoseOverlayProps> = ({ frame, width, height, mirrored = true }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!frame) return;
+
+    const { landmarks, issues } = frame;
+    // Mirror coordinates instead of the canvas so the labels stay readable
+    const point = (name: LandmarkName) => ({
+      x: mirrored ? width - landmarks[name].x : landmarks[name].x,
+      y: landmarks[name].y
+    });
+    const visible = (name: LandmarkName) => landmarks[name].visibility >= MIN_VISIBILITY;
+
+    const colorFor = (rules: PostureIssueCode[]) => {
+      if (rules.length === 0) return NEUTRAL_COLOR;
+      const violated = issues.filter(issue => rules.includes(issue.code));
+      if (violated.some(issue => issue.severity === 'severe')) return SEVERITY_COLORS.severe;
+      if (violated.some(issue => issue.severity === 'moderate')) return SEVERITY_COLORS.moderate;
+      if (violated.length > 0) return SEVERITY_COLORS.mild;
+      return OK_COLOR;
+    };
+
+    // Skeleton
+    ctx.lineWidth = 4;
+    ctx.lineCap = 'round';
+    for (const segment of SKELETON) {
+      if (!visible(segment.from) || !visible(segment.to)) continue;
+      const from = point(segment.from);
+      const to = point(segment.to);
+      ctx.strokeStyle = colorFor(segment.rules);
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+    }
+
+    // Keypoints
+    ctx.fillStyle = '#ffffff';
+    for (const name of Object.keys(landmarks) as LandmarkName[]) {
+      if (!visible(name)) continue;
+      const { x, y } = point(name);
+      ctx.beginPath();
+      ctx.arc(x, y, 4, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    // Angle labels next to the body part they were measured on
+    const drawLabel = (text: string, x: number, y: number, color: string) => {
+      ctx.font = 'bold 14px sans-serif';
+      const textWidth = ctx.measureText(text).width;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(x - 4, y - 14, textWidth + 8, 20);
+      ctx.fillStyle = color;
+      ctx.fillText(text, x, y);
+    };
+
+    if (visible('leftEar') && visible('leftShoulder') && frame.neckAngle > 0) {
+      const ear = point('leftEar');
+      drawLabel(`Neck ${frame.neckAngle.toFixed(0)}°`, ear.x + 10, ear.y, colorFor(['forward_head', 'slight_forward_head']));
+    }
+
+    if (visible('leftShoulder') && visible('rightShoulder') && frame.shoulderAlignment > 0) {
+      const left = point('leftShoulder');
+      const right = point('rightShoulder');
+      drawLabel(
+        `Shoulders ${frame.shoulderAlignment.toFixed(0)}°`,
+        (left.x + right.x) / 2 - 40,
+        (left.y + right.y) / 2 + 28,
+        colorFor(['uneven_shoulders', 'slight_shoulder_imbalance'])
+      );
+    }
+
+    if (visible('leftEar') && visible('rightEar') && frame.headPosition > 0) {
+      const left = point('leftEar');
+      const right = point('rightEar');
+      drawLabel(
+        `Head ${frame.headPosition.toFixed(0)}°`,
+        (left.x + right.x) / 2 - 30,
+        Math.min(left.y, right.y) - 30,
+        colorFor(['head_tilt', 'slight_head_tilt'])
+      );
+    }
+  }, [frame, width, height, mirrored]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    />
+  );
+};
+
+export default PoseOverlay;
@@ -1,14 +1,18 @@
 import React, { useEffect, useState } from 'react';
+import { PostureIssue } from '../services/postureIssues';
+import { SnoozeOption } from '../services/snooze';
+import SnoozeOptions from './SnoozeOptions';
 
 interface PostureAlertProps {
   isOpen: boolean;
   onClose: () => void;
-  issues: string[];
+  issues: PostureIssue[];
   score: number;
   onGetStretch?: () => void;
+  onSnooze?: (option: SnoozeOption) => void;
 }
 
-const PostureAlert: React.FC<PostureAlertProps> = ({ isOpen, onClose, issues, score, onGetStretch }) => {
+const PostureAlert: React.FC<PostureAlertProps> = ({ isOpen, onClose, issues, score, onGetStretch, onSnooze }) => {
 
   // Play alarm sound when alert opens
   const playAlarmSound = () => {
@@ -88,7 +92,7 @@ const PostureAlert: React.FC<PostureAlertProps> = ({ isOpen, onClose, issues, sc
         <div className="mb-4">
           <h4 className="font-semibold text-gray-800 mb-2">Main Issue:</h4>
           <p className={`text-sm ${getScoreColor(score)} font-medium bg-white rounded-lg p-3 border`}>
-            {issues[0]}
+            {issues[0]?.message}
           </p>
         </div>
 
@@ -124,6 +128,8 @@ const PostureAlert: React.FC<PostureAlertProps> = ({ isOpen, onClose, issues, sc
           </button>
         </div>
 
+        {onSnooze && <SnoozeOptions onSnooze={onSnooze} className="mt-3" />}
+
       </div>
     </div>
   );
@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { ScheduleState, SCHEDULE_MODE_OPTIONS } from '../services/breakSchedule';
+
+interface ScheduleCountdownProps {
+  schedule: ScheduleState;
+  onTakeBreak: () => void;
+  onSkipBreak: () => void;
+}
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const PHASE_LABELS: Record<ScheduleState['phase'], string> = {
+  work: 'Focus',
+  break_due: 'Break due',
+  break: 'Break',
+  long_break: 'Long break'
+};
+
+const ScheduleCountdown: React.FC<ScheduleCountdownProps> = ({ schedule, onTakeBreak, onSkipBreak }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const onBreak = schedule.phase === 'break' || schedule.phase === 'long_break';
+  const remaining = schedule.phaseEndsAt !== null ? schedule.phaseEndsAt - now : 0;
+  const duration = schedule.phaseEndsAt !== null ? schedule.phaseEndsAt - schedule.phaseStartedAt : 1;
+  const progress = schedule.phaseEndsAt !== null ? Math.min(1, Math.max(0, 1 - remaining / duration)) : 1;
+  const modeLabel = SCHEDULE_MODE_OPTIONS.find(option => option.value === schedule.mode)?.label;
+  const phaseColor = onBreak ? 'text-green-600' : schedule.phase === 'break_due' ? 'text-orange-600' : 'text-blue-600';
+  const countdown = schedule.phase === 'break_due' || (schedule.mode === 'interval' && remaining <= 0)
+    ? 'Now'
+    : formatCountdown(remaining);
+
+  const actions = (
+    <div className="flex gap-2">
+      {schedule.phase === 'break_due' || (schedule.mode === 'interval' && remaining <= 0) ? (
+        <>
+          <button
+            onClick={onTakeBreak}
+            className="bg-orange-600 hover:bg-orange-700 text-white font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+          >
+            Start Break
+          </button>
+          {schedule.mode !== 'interval' && (
+            <button
+              onClick={onSkipBreak}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+            >
+              Skip
+            </button>
+          )}
+        </>
+      ) : onBreak ? (
+        <button
+          onClick={onSkipBreak}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+        >
+          End Break Early
+        </button>
+      ) : null}
+    </div>
+  );
+
+  const interruptedWarning = onBreak && schedule.breakInterrupted && (
+    <p className="text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-lg px-3 py-2 mt-3">
+      You're still at your desk. Step away from the screen until the break is over.
+    </p>
+  );
+
+  // Pomodoro: a ring for the current phase and a tomato for each cycle in the set
+  if (schedule.mode === 'pomodoro') {
+    const radius = 40;
+    const circumference = 2 * Math.PI * radius;
+    const position = schedule.completedCycles % schedule.cyclesBeforeLongBreak;
+
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <div className="flex items-center gap-6">
+          <svg className="w-24 h-24 -rotate-90" viewBox="0 0 100 100">
+            <circle cx="50" cy="50" r={radius} fill="none" stroke="#e5e7eb" strokeWidth="8" />
+            <circle
+              cx="50"
+              cy="50"
+              r={radius}
+              fill="none"
+              stroke={onBreak ? '#16a34a' : '#ef4444'}
+              strokeWidth="8"
+              strokeLinecap="round"
+              strokeDasharray={circumference}
+              strokeDashoffset={circumference * (1 - progress)}
+            />
+          </svg>
+          <div className="flex-1">
+            <p className="text-sm font-medium text-gray-600">Pomodoro · {PHASE_LABELS[schedule.phase]}</p>
+            <p className={`text-3xl font-bold ${phaseColor}`}>{countdown}</p>
+            <div className="flex gap-1 mt-1" title={`${position} of ${schedule.cyclesBeforeLongBreak} pomodoros before a long break`}>
+              {Array.from({ length: schedule.cyclesBeforeLongBreak }, (_, index) => (
+                <span key={index} className={index < position ? '' : 'opacity-25 grayscale'}>🍅</span>
+              ))}
+            </div>
+          </div>
+          {actions}
+        </div>
+        {interruptedWarning}
+      </div>
+    );
+  }
+
+  // Interval mode: just the time until the next reminder
+  if (schedule.mode === 'interval') {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600 mb-1">Next break reminder</p>
+            <p className={`text-3xl font-bold ${remaining <= 0 ? 'text-orange-600' : 'text-gray-800'}`}>{countdown}</p>
+          </div>
+          {actions}
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-1.5 mt-4">
+          <div className="h-1.5 rounded-full bg-blue-500" style={{ width: `${progress * 100}%` }} />
+        </div>
+      </div>
+    );
+  }
+
+  // 52/17 and custom cycles: a work/break bar
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-600 mb-1">
+            {modeLabel} · {PHASE_LABELS[schedule.phase]}
+            {schedule.mode === 'custom' && schedule.cyclesBeforeLongBreak > 0 && (
+              <span className="text-gray-400">
+                {' '}· cycle {(schedule.completedCycles % schedule.cyclesBeforeLongBreak) + 1} of {schedule.cyclesBeforeLongBreak}
+              </span>
+            )}
+          </p>
+          <p className={`text-3xl font-bold ${phaseColor}`}>{countdown}</p>
+        </div>
+        {actions}
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-3 mt-4">
+        <div
+          className={`h-3 rounded-full transition-all duration-1000 ${onBreak ? 'bg-green-500' : 'bg-blue-500'}`}
+          style={{ width: `${progress * 100}%` }}
+        />
+      </div>
+      {interruptedWarning}
+    </div>
+  );
+};
+
+export default ScheduleCountdown;
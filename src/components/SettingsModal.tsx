@@ -1,26 +1,94 @@
 import React, { useState, useEffect } from 'react';
+import { Settings, PrivacyPreview, TrackingData } from '../services/trackingService';
+import { PoseDetectorBackend, POSE_DETECTOR_OPTIONS } from '../services/poseDetectors';
+import {
+  PostureRuleConfig,
+  PostureRulePreset,
+  MetricRule,
+  MetricRuleKey,
+  METRIC_RULE_LABELS,
+  POSTURE_RULE_PRESET_OPTIONS,
+  getPresetRules,
+  findMatchingPreset,
+  normalizeRules,
+  HEAD_NECK_SCORE_MAX
+} from '../services/postureRules';
+import { ScheduleMode, CycleConfig, SCHEDULE_MODE_OPTIONS, getCycleConfig, normalizeCycle } from '../services/breakSchedule';
+import {
+  StretchProviderConfig,
+  StretchProviderType,
+  STRETCH_PROVIDER_OPTIONS,
+  normalizeStretchProvider,
+  createStretchProvider
+} from '../services/stretchProviders';
+import ApiKeyManager from './ApiKeyManager';
+import { Contraindication, CONTRAINDICATION_LABELS, normalizeContraindications } from '../services/stretchLibrary';
+import {
+  WorkingHours,
+  WorkDay,
+  TimeWindow,
+  QuietPeriod,
+  WEEKDAY_LABELS,
+  normalizeWorkingHours
+} from '../services/workingHours';
+import {
+  CsvTable,
+  buildExport,
+  buildCsv,
+  downloadFile,
+  getExportFileName,
+  parseExport,
+  importExport
+} from '../services/dataExport';
 
-interface Settings {
-  reminderInterval: number; // minutes
-  postureCheckInterval: number; // seconds
-  enableNotifications: boolean;
-  enableBreakAlerts: boolean;
-}
+const CYCLE_FIELDS: { key: keyof CycleConfig; label: string; min: number }[] = [
+  { key: 'workMinutes', label: 'Work (min)', min: 1 },
+  { key: 'breakMinutes', label: 'Break (min)', min: 1 },
+  { key: 'longBreakMinutes', label: 'Long break (min)', min: 1 },
+  { key: 'cyclesBeforeLongBreak', label: 'Cycles per long break (0 = never)', min: 0 }
+];
+
+const CSV_TABLES: [CsvTable, string][] = [
+  ['sessions', 'Sessions'],
+  ['timeline', 'Posture Timeline'],
+  ['breaks', 'Breaks'],
+  ['settings', 'Settings']
+];
+
+// Fields shown for each angle-style rule in the advanced editor
+const METRIC_RULE_FIELDS: { key: Exclude<keyof MetricRule, 'enabled'>; label: string; step: number }[] = [
+  { key: 'threshold', label: 'Threshold', step: 1 },
+  { key: 'weight', label: 'Weight', step: 0.01 },
+  { key: 'maxPenalty', label: 'Max penalty', step: 0.1 },
+  { key: 'slightThreshold', label: 'Slight threshold', step: 1 },
+  { key: 'slightWeight', label: 'Slight weight', step: 0.005 },
+  { key: 'slightMaxPenalty', label: 'Slight max penalty', step: 0.1 }
+];
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (settings: Settings) => void;
   currentSettings: Settings;
+  trackingData?: TrackingData | null;
+  notificationPermission?: NotificationPermission | 'unsupported';
+  onRequestNotificationPermission?: () => void;
 }
 
 const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onClose,
   onSave,
-  currentSettings
+  currentSettings,
+  trackingData = null,
+  notificationPermission = 'unsupported',
+  onRequestNotificationPermission = () => {}
 }) => {
   const [settings, setSettings] = useState<Settings>(currentSettings);
+  const [showAdvancedRules, setShowAdvancedRules] = useState(false);
+  const [importSettings, setImportSettings] = useState(false);
+  const [dataMessage, setDataMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<'idle' | 'testing' | 'ok' | 'failed' | 'not_configured'>('idle');
 
   useEffect(() => {
     setSettings(currentSettings);
@@ -39,7 +107,130 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     setSettings(prev => ({ ...prev, postureCheckInterval: value }));
   };
 
+  const handlePoseDetectorChange = (value: PoseDetectorBackend) => {
+    setSettings(prev => ({ ...prev, poseDetector: value }));
+  };
+
+  const handleTargetFpsChange = (value: number) => {
+    setSettings(prev => ({ ...prev, targetFps: value }));
+  };
+
+  const handlePowerSaverToggle = (enabled: boolean) => {
+    setSettings(prev => ({ ...prev, powerSaverOnBattery: enabled }));
+  };
+
+  const handleRulePresetChange = (preset: PostureRulePreset) => {
+    setSettings(prev => ({ ...prev, postureRules: getPresetRules(preset) }));
+  };
+
+  const updateRules = (update: (rules: PostureRuleConfig) => PostureRuleConfig) => {
+    setSettings(prev => ({ ...prev, postureRules: update(prev.postureRules) }));
+  };
+
+  const handleMetricRuleChange = (key: MetricRuleKey, changes: Partial<MetricRule>) => {
+    updateRules(rules => ({ ...rules, [key]: { ...rules[key], ...changes } }));
+  };
+
+  const handleScheduleModeChange = (mode: ScheduleMode) => {
+    setSettings(prev => ({ ...prev, scheduleMode: mode }));
+  };
+
+  const handleCustomCycleChange = (key: keyof CycleConfig, value: number) => {
+    setSettings(prev => ({ ...prev, customCycle: { ...prev.customCycle, [key]: value } }));
+  };
+
+  const updateWorkingHours = (changes: Partial<WorkingHours>) => {
+    setSettings(prev => ({ ...prev, workingHours: { ...prev.workingHours, ...changes } }));
+  };
+
+  const handleWorkDayChange = (index: number, changes: Partial<WorkDay>) => {
+    updateWorkingHours({
+      days: settings.workingHours.days.map((day, i) => (i === index ? { ...day, ...changes } : day))
+    });
+  };
+
+  const handleLunchChange = (changes: Partial<TimeWindow>) => {
+    updateWorkingHours({ lunch: { ...settings.workingHours.lunch, ...changes } });
+  };
+
+  const handleQuietPeriodChange = (index: number, changes: Partial<QuietPeriod>) => {
+    updateWorkingHours({
+      quietPeriods: settings.workingHours.quietPeriods.map((period, i) => (i === index ? { ...period, ...changes } : period))
+    });
+  };
+
+  const handleAddQuietPeriod = () => {
+    updateWorkingHours({
+      quietPeriods: [...settings.workingHours.quietPeriods, { start: '14:00', end: '15:00', label: '' }]
+    });
+  };
+
+  const handleRemoveQuietPeriod = (index: number) => {
+    updateWorkingHours({ quietPeriods: settings.workingHours.quietPeriods.filter((_, i) => i !== index) });
+  };
+
+  const handlePrivacyModeToggle = (enabled: boolean) => {
+    setSettings(prev => ({ ...prev, privacyMode: enabled }));
+  };
+
+  const handlePrivacyPreviewChange = (value: PrivacyPreview) => {
+    setSettings(prev => ({ ...prev, privacyPreview: value }));
+  };
+
+  const handlePresenceDetectionToggle = (enabled: boolean) => {
+    setSettings(prev => ({ ...prev, presenceDetection: enabled }));
+  };
+
+  const handleAutoBreakMinutesChange = (value: number) => {
+    setSettings(prev => ({ ...prev, autoBreakMinutes: value }));
+  };
+
+  const handleEyeBreaksToggle = (enabled: boolean) => {
+    setSettings(prev => ({ ...prev, eyeBreaks: enabled }));
+  };
+
+  const handleEyeBreakIntervalChange = (value: number) => {
+    setSettings(prev => ({ ...prev, eyeBreakInterval: value }));
+  };
+
+  const handleEyeBreakDurationChange = (value: number) => {
+    setSettings(prev => ({ ...prev, eyeBreakDuration: value }));
+  };
+
+  const handleEyeBreakPoseConfirmToggle = (enabled: boolean) => {
+    setSettings(prev => ({ ...prev, eyeBreakPoseConfirm: enabled }));
+  };
+
+  const handleStretchProviderChange = (changes: Partial<StretchProviderConfig>) => {
+    setSettings(prev => ({ ...prev, stretchProvider: { ...prev.stretchProvider, ...changes } }));
+    setConnectionStatus('idle');
+  };
+
+  // Tests the provider as configured in the modal, before the settings are saved
+  const handleTestConnection = async () => {
+    const provider = createStretchProvider(settings.stretchProvider);
+    if (!provider.isConfigured()) {
+      setConnectionStatus('not_configured');
+      return;
+    }
+    setConnectionStatus('testing');
+    setConnectionStatus(await provider.testConnection() ? 'ok' : 'failed');
+  };
+
+  const handleStretchLimitationToggle = (limitation: Contraindication, checked: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      stretchLimitations: checked
+        ? [...prev.stretchLimitations, limitation]
+        : prev.stretchLimitations.filter(item => item !== limitation)
+    }));
+  };
+
   const handleNotificationToggle = (enabled: boolean) => {
+    // Ask while we still have the click, browsers ignore requests made later
+    if (enabled && notificationPermission === 'default') {
+      onRequestNotificationPermission();
+    }
     setSettings(prev => ({ ...prev, enableNotifications: enabled }));
   };
 
@@ -47,8 +238,67 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     setSettings(prev => ({ ...prev, enableBreakAlerts: enabled }));
   };
 
+  const handleExportJson = async () => {
+    try {
+      const data = await buildExport(currentSettings, trackingData);
+      downloadFile(getExportFileName(data, 'export.json'), JSON.stringify(data, null, 2), 'application/json');
+      setDataMessage({ text: `Exported ${data.sessions.length} sessions and ${data.minutes.length} minutes of history.`, error: false });
+    } catch (error) {
+      console.error('Error exporting tracking data:', error);
+      setDataMessage({ text: `Export failed: ${error instanceof Error ? error.message : error}`, error: true });
+    }
+  };
+
+  const handleExportCsv = async (table: CsvTable) => {
+    try {
+      const data = await buildExport(currentSettings, trackingData);
+      downloadFile(getExportFileName(data, `${table}.csv`), buildCsv(data, table), 'text/csv');
+    } catch (error) {
+      console.error('Error exporting tracking data:', error);
+      setDataMessage({ text: `Export failed: ${error instanceof Error ? error.message : error}`, error: true });
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = await importExport(parseExport(await file.text()));
+      if (importSettings && result.settings) {
+        // Fill the form with the imported settings; they apply on Save
+        const imported = result.settings;
+        setSettings(prev => ({
+          ...prev,
+          ...imported,
+          postureRules: normalizeRules(imported.postureRules),
+          customCycle: normalizeCycle(imported.customCycle),
+          workingHours: normalizeWorkingHours(imported.workingHours),
+          stretchProvider: normalizeStretchProvider(imported.stretchProvider),
+          stretchLimitations: normalizeContraindications(imported.stretchLimitations)
+        }));
+      }
+      setDataMessage({
+        text: `Imported ${result.sessionsAdded} sessions and ${result.minutesAdded} minutes` +
+          (result.sessionsSkipped + result.minutesSkipped > 0
+            ? `, skipped ${result.sessionsSkipped} sessions and ${result.minutesSkipped} minutes already on this device`
+            : '') +
+          (importSettings && result.settings ? '. Review the imported settings and save.' : '.'),
+        error: false
+      });
+    } catch (error) {
+      console.error('Error importing tracking data:', error);
+      setDataMessage({ text: `Import failed: ${error instanceof Error ? error.message : error}`, error: true });
+    }
+  };
+
   if (!isOpen) return null;
 
+  const rules = settings.postureRules;
+  const activePreset = findMatchingPreset(rules);
+  const activeCycle = getCycleConfig(settings.scheduleMode, settings.customCycle);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
@@ -70,35 +320,211 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
               <div className="space-y-3">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Reminder Interval (minutes)
+                    Schedule
                   </label>
                   <div className="flex gap-2">
-                    {[15, 30, 45, 60, 90, 120].map((interval) => (
+                    {SCHEDULE_MODE_OPTIONS.map((option) => (
                       <button
-                        key={interval}
-                        onClick={() => handleReminderIntervalChange(interval)}
+                        key={option.value}
+                        onClick={() => handleScheduleModeChange(option.value)}
                         className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                          settings.reminderInterval === interval
+                          settings.scheduleMode === option.value
                             ? 'bg-blue-600 text-white'
                             : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
                         }`}
                       >
-                        {interval}m
+                        {option.label}
                       </button>
                     ))}
                   </div>
-                  <div className="mt-2">
-                    <input
-                      type="number"
-                      min="5"
-                      max="240"
-                      value={settings.reminderInterval}
-                      onChange={(e) => handleReminderIntervalChange(parseInt(e.target.value) || 30)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="Custom interval"
-                    />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {SCHEDULE_MODE_OPTIONS.find(option => option.value === settings.scheduleMode)?.description}
+                  </p>
+                </div>
+
+                {settings.scheduleMode === 'custom' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {CYCLE_FIELDS.map(field => (
+                      <div key={field.key}>
+                        <label className="block text-xs text-gray-600 mb-1">{field.label}</label>
+                        <input
+                          type="number"
+                          min={field.min}
+                          value={settings.customCycle[field.key]}
+                          onChange={(e) => handleCustomCycleChange(field.key, Math.max(field.min, parseInt(e.target.value) || field.min))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {settings.scheduleMode === 'interval' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Reminder Interval (minutes)
+                    </label>
+                    <div className="flex gap-2">
+                      {[15, 30, 45, 60, 90, 120].map((interval) => (
+                        <button
+                          key={interval}
+                          onClick={() => handleReminderIntervalChange(interval)}
+                          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                            settings.reminderInterval === interval
+                              ? 'bg-blue-600 text-white'
+                              : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                          }`}
+                        >
+                          {interval}m
+                        </button>
+                      ))}
+                    </div>
+                    <div className="mt-2">
+                      <input
+                        type="number"
+                        min="5"
+                        max="240"
+                        value={settings.reminderInterval}
+                        onChange={(e) => handleReminderIntervalChange(parseInt(e.target.value) || 30)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Custom interval"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Working Hours */}
+            <div className="bg-gray-50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Working Hours</h3>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">Only Alert During Working Hours</label>
+                    <p className="text-xs text-gray-500">Outside these hours alerts are silenced and screen time is logged as off-hours</p>
                   </div>
+                  <button
+                    onClick={() => updateWorkingHours({ enabled: !settings.workingHours.enabled })}
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                      settings.workingHours.enabled ? 'bg-blue-600' : 'bg-gray-200'
+                    }`}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        settings.workingHours.enabled ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
                 </div>
+
+                {settings.workingHours.enabled && (
+                  <>
+                    <div className="space-y-2">
+                      {settings.workingHours.days.map((day, index) => (
+                        <div key={WEEKDAY_LABELS[index]} className="flex items-center gap-3">
+                          <label className="flex items-center gap-2 w-20 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={day.enabled}
+                              onChange={(e) => handleWorkDayChange(index, { enabled: e.target.checked })}
+                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            {WEEKDAY_LABELS[index]}
+                          </label>
+                          <input
+                            type="time"
+                            value={day.start}
+                            disabled={!day.enabled}
+                            onChange={(e) => handleWorkDayChange(index, { start: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                          />
+                          <span className="text-sm text-gray-500">to</span>
+                          <input
+                            type="time"
+                            value={day.end}
+                            disabled={!day.enabled}
+                            onChange={(e) => handleWorkDayChange(index, { end: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                          />
+                        </div>
+                      ))}
+                      <p className="text-xs text-gray-500">An end time before the start time runs past midnight.</p>
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                      <label className="flex items-center gap-2 w-20 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={settings.workingHours.lunchEnabled}
+                          onChange={(e) => updateWorkingHours({ lunchEnabled: e.target.checked })}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        Lunch
+                      </label>
+                      <input
+                        type="time"
+                        value={settings.workingHours.lunch.start}
+                        disabled={!settings.workingHours.lunchEnabled}
+                        onChange={(e) => handleLunchChange({ start: e.target.value })}
+                        className="px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                      />
+                      <span className="text-sm text-gray-500">to</span>
+                      <input
+                        type="time"
+                        value={settings.workingHours.lunch.end}
+                        disabled={!settings.workingHours.lunchEnabled}
+                        onChange={(e) => handleLunchChange({ end: e.target.value })}
+                        className="px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500">Lunch counts as a break.</p>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Quiet Periods</label>
+                      <p className="text-xs text-gray-500 mb-2">Daily times with no alerts, e.g. a standing meeting</p>
+                      <div className="space-y-2">
+                        {settings.workingHours.quietPeriods.map((period, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              value={period.label}
+                              placeholder="Label"
+                              onChange={(e) => handleQuietPeriodChange(index, { label: e.target.value })}
+                              className="w-28 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                            />
+                            <input
+                              type="time"
+                              value={period.start}
+                              onChange={(e) => handleQuietPeriodChange(index, { start: e.target.value })}
+                              className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                            />
+                            <span className="text-sm text-gray-500">to</span>
+                            <input
+                              type="time"
+                              value={period.end}
+                              onChange={(e) => handleQuietPeriodChange(index, { end: e.target.value })}
+                              className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                            />
+                            <button
+                              onClick={() => handleRemoveQuietPeriod(index)}
+                              className="text-gray-400 hover:text-red-600 text-lg font-bold px-1"
+                              title="Remove"
+                            >
+                              ×
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          onClick={handleAddQuietPeriod}
+                          className="px-3 py-1.5 rounded-lg text-sm font-medium bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 transition-colors"
+                        >
+                          + Add quiet period
+                        </button>
+                      </div>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
 
@@ -137,6 +563,664 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                     />
                   </div>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Pose Detection Model
+                  </label>
+                  <div className="space-y-2">
+                    {POSE_DETECTOR_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => handlePoseDetectorChange(option.value)}
+                        className={`w-full text-left px-4 py-2 rounded-lg text-sm transition-colors ${
+                          settings.poseDetector === option.value
+                            ? 'bg-green-600 text-white'
+                            : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        <span className="font-medium">{option.label}</span>
+                        <span className={`block text-xs ${
+                          settings.poseDetector === option.value ? 'text-green-100' : 'text-gray-500'
+                        }`}>
+                          {option.description}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Detection Frame Rate (frames per second)
+                  </label>
+                  <div className="flex gap-2">
+                    {[1, 2, 5, 10, 15].map((fps) => (
+                      <button
+                        key={fps}
+                        onClick={() => handleTargetFpsChange(fps)}
+                        className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                          settings.targetFps === fps
+                            ? 'bg-green-600 text-white'
+                            : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        {fps} fps
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Sampling slows down automatically while your posture is stable and speeds up when an issue is developing
+                  </p>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">Power Saver on Battery</label>
+                    <p className="text-xs text-gray-500">Limit detection to 1 fps when your laptop is unplugged</p>
+                  </div>
+                  <button
+                    onClick={() => handlePowerSaverToggle(!settings.powerSaverOnBattery)}
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                      settings.powerSaverOnBattery ? 'bg-green-600' : 'bg-gray-200'
+                    }`}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        settings.powerSaverOnBattery ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* Posture Rules */}
+            <div className="bg-gray-50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Posture Rules</h3>
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Sensitivity Preset
+                  </label>
+                  <div className="flex gap-2">
+                    {POSTURE_RULE_PRESET_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => handleRulePresetChange(option.value)}
+                        title={option.description}
+                        className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                          activePreset === option.value
+                            ? 'bg-green-600 text-white'
+                            : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                    {!activePreset && (
+                      <span className="px-4 py-2 rounded-lg text-sm font-medium bg-purple-100 text-purple-700">
+                        Custom
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {activePreset
+                      ? POSTURE_RULE_PRESET_OPTIONS.find(option => option.value === activePreset)?.description
+                      : 'Rules have been edited by hand'}
+                  </p>
+                </div>
+
+                <button
+                  onClick={() => setShowAdvancedRules(!showAdvancedRules)}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                >
+                  {showAdvancedRules ? 'Hide advanced rule settings' : 'Show advanced rule settings'}
+                </button>
+
+                {showAdvancedRules && (
+                  <div className="space-y-3">
+                    <p className="text-xs text-gray-500">
+                      Scores start at 10. When a metric goes past its threshold the penalty is the metric
+                      multiplied by its weight, capped at the max penalty.
+                    </p>
+
+                    {(Object.keys(METRIC_RULE_LABELS) as MetricRuleKey[]).map((key) => {
+                      const rule = rules[key];
+                      return (
+                        <div key={key} className="bg-white rounded-lg border border-gray-200 p-3">
+                          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                            <input
+                              type="checkbox"
+                              checked={rule.enabled}
+                              onChange={(e) => handleMetricRuleChange(key, { enabled: e.target.checked })}
+                            />
+                            {METRIC_RULE_LABELS[key]}
+                          </label>
+                          <div className="grid grid-cols-3 gap-2">
+                            {METRIC_RULE_FIELDS.map((field) => (
+                              <label key={field.key} className="text-xs text-gray-500">
+                                {field.label}
+                                <input
+                                  type="number"
+                                  step={field.step}
+                                  min="0"
+                                  value={rule[field.key]}
+                                  disabled={!rule.enabled}
+                                  onChange={(e) => handleMetricRuleChange(key, { [field.key]: parseFloat(e.target.value) || 0 })}
+                                  className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-700 disabled:bg-gray-100"
+                                />
+                              </label>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })}
+
+                    <div className="bg-white rounded-lg border border-gray-200 p-3">
+                      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                        <input
+                          type="checkbox"
+                          checked={rules.slouching.enabled}
+                          onChange={(e) => updateRules(r => ({ ...r, slouching: { ...r.slouching, enabled: e.target.checked } }))}
+                        />
+                        Slouching (shoulders forward of hips)
+                      </label>
+                      <div className="grid grid-cols-3 gap-2">
+                        <label className="text-xs text-gray-500">
+                          Threshold
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={rules.slouching.threshold}
+                            disabled={!rules.slouching.enabled}
+                            onChange={(e) => updateRules(r => ({ ...r, slouching: { ...r.slouching, threshold: parseFloat(e.target.value) || 0 } }))}
+                            className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-700 disabled:bg-gray-100"
+                          />
+                        </label>
+                        <label className="text-xs text-gray-500">
+                          Penalty
+                          <input
+                            type="number"
+                            step="0.1"
+                            min="0"
+                            value={rules.slouching.penalty}
+                            disabled={!rules.slouching.enabled}
+                            onChange={(e) => updateRules(r => ({ ...r, slouching: { ...r.slouching, penalty: parseFloat(e.target.value) || 0 } }))}
+                            className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-700 disabled:bg-gray-100"
+                          />
+                        </label>
+                      </div>
+                    </div>
+
+                    <div className="bg-white rounded-lg border border-gray-200 p-3">
+                      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                        <input
+                          type="checkbox"
+                          checked={rules.headNeck.enabled}
+                          onChange={(e) => updateRules(r => ({ ...r, headNeck: { ...r.headNeck, enabled: e.target.checked } }))}
+                        />
+                        Head/neck alignment (score 0-10, lower is worse)
+                      </label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {([
+                          ['threshold', 'Threshold', 0.5, HEAD_NECK_SCORE_MAX],
+                          ['penalty', 'Penalty', 0.1, undefined],
+                          ['slightThreshold', 'Slight threshold', 0.5, HEAD_NECK_SCORE_MAX],
+                          ['slightPenalty', 'Slight penalty', 0.1, undefined]
+                        ] as const).map(([field, label, step, max]) => (
+                          <label key={field} className="text-xs text-gray-500">
+                            {label}
+                            <input
+                              type="number"
+                              step={step}
+                              min="0"
+                              max={max}
+                              value={rules.headNeck[field]}
+                              disabled={!rules.headNeck.enabled}
+                              onChange={(e) => updateRules(r => ({
+                                ...r,
+                                headNeck: { ...r.headNeck, [field]: Math.min(max ?? Infinity, parseFloat(e.target.value) || 0) }
+                              }))}
+                              className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-700 disabled:bg-gray-100"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="bg-white rounded-lg border border-gray-200 p-3">
+                      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                        <input
+                          type="checkbox"
+                          checked={rules.cameraDistance.enabled}
+                          onChange={(e) => updateRules(r => ({ ...r, cameraDistance: { ...r.cameraDistance, enabled: e.target.checked } }))}
+                        />
+                        Camera distance (too close / too far)
+                      </label>
+                      <div className="grid grid-cols-3 gap-2">
+                        <label className="text-xs text-gray-500">
+                          Penalty
+                          <input
+                            type="number"
+                            step="0.1"
+                            min="0"
+                            value={rules.cameraDistance.penalty}
+                            disabled={!rules.cameraDistance.enabled}
+                            onChange={(e) => updateRules(r => ({ ...r, cameraDistance: { ...r.cameraDistance, penalty: parseFloat(e.target.value) || 0 } }))}
+                            className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-700 disabled:bg-gray-100"
+                          />
+                        </label>
+                      </div>
+                    </div>
+
+                    <div className="bg-white rounded-lg border border-gray-200 p-3">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Consistency Threshold
+                      </label>
+                      <p className="text-xs text-gray-500 mb-2">
+                        How many readings in a row must show an issue before it is reported. Each good reading in between takes 3 off the count.
+                      </p>
+                      <input
+                        type="number"
+                        min="1"
+                        max="12"
+                        value={rules.consistencyThreshold}
+                        onChange={(e) => updateRules(r => ({
+                          ...r,
+                          consistencyThreshold: Math.max(1, Math.min(12, parseInt(e.target.value) || 1))
+                        }))}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded text-sm text-gray-700"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Privacy */}
+            <div className="bg-gray-50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Privacy</h3>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">Privacy Mode</label>
+                    <p className="text-xs text-gray-500">Hide the camera preview and disable captures and recordings. Only posture metrics are kept.</p>
+                  </div>
+                  <button
+                    onClick={() => handlePrivacyModeToggle(!settings.privacyMode)}
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                      settings.privacyMode ? 'bg-purple-600' : 'bg-gray-200'
+                    }`}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        settings.privacyMode ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                </div>
+
+                {settings.privacyMode && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Camera Preview
+                    </label>
+                    <div className="flex gap-2">
+                      {([
+                        ['silhouette', 'Silhouette'],
+                        ['blur', 'Blurred'],
+                        ['hidden', 'Hidden']
+                      ] as [PrivacyPreview, string][]).map(([value, label]) => (
+                        <button
+                          key={value}
+                          onClick={() => handlePrivacyPreviewChange(value)}
+                          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                            settings.privacyPreview === value
+                              ? 'bg-purple-600 text-white'
+                              : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Away Detection */}
+            <div className="bg-gray-50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Away Detection</h3>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">Pause When Away</label>
+                    <p className="text-xs text-gray-500">Stop counting screen time and break reminders while nobody is in front of the camera</p>
+                  </div>
+                  <button
+                    onClick={() => handlePresenceDetectionToggle(!settings.presenceDetection)}
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                      settings.presenceDetection ? 'bg-blue-600' : 'bg-gray-200'
+                    }`}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        settings.presenceDetection ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                </div>
+
+                {settings.presenceDetection && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Count Time Away as a Break After
+                    </label>
+                    <div className="flex gap-2">
+                      {[2, 5, 10, 15].map((minutes) => (
+                        <button
+                          key={minutes}
+                          onClick={() => handleAutoBreakMinutesChange(minutes)}
+                          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                            settings.autoBreakMinutes === minutes
+                              ? 'bg-blue-600 text-white'
+                              : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                          }`}
+                        >
+                          {minutes}m
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Eye Breaks */}
+            <div className="bg-gray-50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Eye Breaks (20-20-20)</h3>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">Eye Break Reminders</label>
+                    <p className="text-xs text-gray-500">Every 20 minutes, look at something 20 feet away for 20 seconds</p>
+                  </div>
+                  <button
+                    onClick={() => handleEyeBreaksToggle(!settings.eyeBreaks)}
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                      settings.eyeBreaks ? 'bg-blue-600' : 'bg-gray-200'
+                    }`}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        settings.eyeBreaks ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                </div>
+
+                {settings.eyeBreaks && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Remind Me Every</label>
+                      <div className="flex gap-2">
+                        {[15, 20, 30].map((minutes) => (
+                          <button
+                            key={minutes}
+                            onClick={() => handleEyeBreakIntervalChange(minutes)}
+                            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                              settings.eyeBreakInterval === minutes
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                            }`}
+                          >
+                            {minutes}m
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Look Away For</label>
+                      <div className="flex gap-2">
+                        {[20, 30, 60].map((seconds) => (
+                          <button
+                            key={seconds}
+                            onClick={() => handleEyeBreakDurationChange(seconds)}
+                            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                              settings.eyeBreakDuration === seconds
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                            }`}
+                          >
+                            {seconds}s
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <label className="text-sm font-medium text-gray-700">Confirm With Camera</label>
+                        <p className="text-xs text-gray-500">Only count down while your head is turned away from the screen</p>
+                      </div>
+                      <button
+                        onClick={() => handleEyeBreakPoseConfirmToggle(!settings.eyeBreakPoseConfirm)}
+                        className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                          settings.eyeBreakPoseConfirm ? 'bg-blue-600' : 'bg-gray-200'
+                        }`}
+                      >
+                        <span
+                          className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                            settings.eyeBreakPoseConfirm ? 'translate-x-6' : 'translate-x-1'
+                          }`}
+                        />
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {/* Stretch Suggestions */}
+            <div className="bg-gray-50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Stretch Suggestions</h3>
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">AI Provider</label>
+                  <div className="space-y-2">
+                    {STRETCH_PROVIDER_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => handleStretchProviderChange({ type: option.value as StretchProviderType })}
+                        className={`w-full text-left px-4 py-2 rounded-lg text-sm transition-colors ${
+                          settings.stretchProvider.type === option.value
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        <span className="font-medium">{option.label}</span>
+                        <span className={`block text-xs ${
+                          settings.stretchProvider.type === option.value ? 'text-blue-100' : 'text-gray-500'
+                        }`}>
+                          {option.description}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {settings.stretchProvider.type === 'gemini' && (
+                  <div>
+                    <ApiKeyManager provider="gemini" label="Gemini API Key" onChange={() => setConnectionStatus('idle')} />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Get a free key from Google AI Studio. Without a key, stretches come from the built-in library.
+                    </p>
+                  </div>
+                )}
+
+                {settings.stretchProvider.type === 'openai' && (
+                  <div className="space-y-2">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Base URL</label>
+                      <input
+                        type="url"
+                        value={settings.stretchProvider.openaiBaseUrl}
+                        placeholder="https://api.openai.com/v1"
+                        onChange={(e) => handleStretchProviderChange({ openaiBaseUrl: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Model</label>
+                      <input
+                        type="text"
+                        value={settings.stretchProvider.openaiModel}
+                        onChange={(e) => handleStretchProviderChange({ openaiModel: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <ApiKeyManager provider="openai" label="API Key" onChange={() => setConnectionStatus('idle')} />
+                  </div>
+                )}
+
+                {settings.stretchProvider.type === 'local' && (
+                  <div className="space-y-2">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Server URL</label>
+                      <input
+                        type="url"
+                        value={settings.stretchProvider.localBaseUrl}
+                        placeholder="http://localhost:11434/v1"
+                        onChange={(e) => handleStretchProviderChange({ localBaseUrl: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Ollama listens on port 11434, llama.cpp's server on 8080. Both need to allow requests from this page (CORS).
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Model</label>
+                      <input
+                        type="text"
+                        value={settings.stretchProvider.localModel}
+                        onChange={(e) => handleStretchProviderChange({ localModel: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {settings.stretchProvider.type === 'proxy' && (
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Proxy URL</label>
+                    <input
+                      type="url"
+                      value={settings.stretchProvider.proxyUrl}
+                      placeholder="https://postureguard.example.com"
+                      onChange={(e) => handleStretchProviderChange({ proxyUrl: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      The server holds the API key, so you don't need one here. It limits how many suggestions each user can request per hour.
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={handleTestConnection}
+                    disabled={connectionStatus === 'testing'}
+                    className="px-4 py-2 rounded-lg text-sm font-medium bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                  >
+                    {connectionStatus === 'testing' ? 'Testing...' : 'Test Connection'}
+                  </button>
+                  {connectionStatus === 'ok' && <span className="text-xs text-green-600">Connected</span>}
+                  {connectionStatus === 'failed' && (
+                    <span className="text-xs text-red-600">Connection failed. Check the key, address and model.</span>
+                  )}
+                  {connectionStatus === 'not_configured' && (
+                    <span className="text-xs text-gray-500">
+                      {settings.stretchProvider.type === 'proxy'
+                        ? 'Enter the proxy URL first.'
+                        : 'Add a key first, or unlock the saved one.'}
+                    </span>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Health Considerations</label>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Built-in stretches that aren't suitable for these are never suggested. Used when no AI provider is set up or reachable.
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(Object.keys(CONTRAINDICATION_LABELS) as Contraindication[]).map((limitation) => (
+                      <label key={limitation} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={settings.stretchLimitations.includes(limitation)}
+                          onChange={(e) => handleStretchLimitationToggle(limitation, e.target.checked)}
+                        />
+                        {CONTRAINDICATION_LABELS[limitation]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Your Data */}
+            <div className="bg-gray-50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Your Data</h3>
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Export</label>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={handleExportJson}
+                      className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                    >
+                      Everything (JSON)
+                    </button>
+                    {CSV_TABLES.map(([table, label]) => (
+                      <button
+                        key={table}
+                        onClick={() => handleExportCsv(table)}
+                        className="px-4 py-2 rounded-lg text-sm font-medium bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 transition-colors"
+                      >
+                        {label} (CSV)
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Import</label>
+                  <div className="flex items-center gap-4">
+                    <label className="px-4 py-2 rounded-lg text-sm font-medium bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 transition-colors cursor-pointer">
+                      Import JSON Export
+                      <input type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={importSettings}
+                        onChange={(e) => setImportSettings(e.target.checked)}
+                      />
+                      Also import settings
+                    </label>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">History is merged with what's on this device; records already present are skipped.</p>
+                </div>
+
+                {dataMessage && (
+                  <p className={`text-sm ${dataMessage.error ? 'text-red-600' : 'text-green-700'}`}>
+                    {dataMessage.text}
+                  </p>
+                )}
               </div>
             </div>
 
@@ -147,7 +1231,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                 <div className="flex items-center justify-between">
                   <div>
                     <label className="text-sm font-medium text-gray-700">Browser Notifications</label>
-                    <p className="text-xs text-gray-500">Show system notifications for break reminders</p>
+                    <p className="text-xs text-gray-500">Show posture alerts, and system notifications while this tab is in the background</p>
                   </div>
                   <button
                     onClick={() => handleNotificationToggle(!settings.enableNotifications)}
@@ -163,6 +1247,33 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                   </button>
                 </div>
 
+                {settings.enableNotifications && (
+                  <div className="text-xs">
+                    {notificationPermission === 'granted' && (
+                      <p className="text-green-700">System notifications are allowed.</p>
+                    )}
+                    {notificationPermission === 'default' && (
+                      <div className="flex items-center gap-2">
+                        <p className="text-gray-600">System notifications need your permission.</p>
+                        <button
+                          onClick={onRequestNotificationPermission}
+                          className="px-2 py-1 rounded-md font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                        >
+                          Allow
+                        </button>
+                      </div>
+                    )}
+                    {notificationPermission === 'denied' && (
+                      <p className="text-orange-700">
+                        System notifications are blocked. Allow them for this site in your browser settings to get alerts in the background.
+                      </p>
+                    )}
+                    {notificationPermission === 'unsupported' && (
+                      <p className="text-gray-500">This browser doesn't support system notifications, alerts show in the page only.</p>
+                    )}
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between">
                   <div>
                     <label className="text-sm font-medium text-gray-700">Break Alerts</label>
@@ -190,7 +1301,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                 <div>
                   <span className="font-medium text-blue-700">Break Reminders:</span>
-                  <span className="ml-2 text-blue-600">{settings.reminderInterval} minutes</span>
+                  <span className="ml-2 text-blue-600">
+                    {activeCycle
+                      ? `${activeCycle.workMinutes}m work / ${activeCycle.breakMinutes}m break`
+                      : `${settings.reminderInterval} minutes`}
+                  </span>
                 </div>
                 <div>
                   <span className="font-medium text-blue-700">Posture Checks:</span>
@@ -204,6 +1319,57 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                   <span className="font-medium text-blue-700">Break Alerts:</span>
                   <span className="ml-2 text-blue-600">{settings.enableBreakAlerts ? 'Enabled' : 'Disabled'}</span>
                 </div>
+                <div>
+                  <span className="font-medium text-blue-700">Pose Model:</span>
+                  <span className="ml-2 text-blue-600">
+                    {POSE_DETECTOR_OPTIONS.find(option => option.value === settings.poseDetector)?.label}
+                  </span>
+                </div>
+                <div>
+                  <span className="font-medium text-blue-700">Detection Rate:</span>
+                  <span className="ml-2 text-blue-600">
+                    {settings.targetFps} fps{settings.powerSaverOnBattery ? ' (power saver on battery)' : ''}
+                  </span>
+                </div>
+                <div>
+                  <span className="font-medium text-blue-700">Privacy Mode:</span>
+                  <span className="ml-2 text-blue-600">{settings.privacyMode ? 'On' : 'Off'}</span>
+                </div>
+                <div>
+                  <span className="font-medium text-blue-700">Away Detection:</span>
+                  <span className="ml-2 text-blue-600">
+                    {settings.presenceDetection ? `Breaks credited after ${settings.autoBreakMinutes}m away` : 'Off'}
+                  </span>
+                </div>
+                <div>
+                  <span className="font-medium text-blue-700">Working Hours:</span>
+                  <span className="ml-2 text-blue-600">
+                    {settings.workingHours.enabled
+                      ? `${settings.workingHours.days.filter(day => day.enabled).length} days a week` +
+                        (settings.workingHours.quietPeriods.length > 0 ? `, ${settings.workingHours.quietPeriods.length} quiet periods` : '')
+                      : 'Always alert'}
+                  </span>
+                </div>
+                <div>
+                  <span className="font-medium text-blue-700">Stretch Provider:</span>
+                  <span className="ml-2 text-blue-600">
+                    {STRETCH_PROVIDER_OPTIONS.find(option => option.value === settings.stretchProvider.type)?.label}
+                  </span>
+                </div>
+                <div>
+                  <span className="font-medium text-blue-700">Eye Breaks:</span>
+                  <span className="ml-2 text-blue-600">
+                    {settings.eyeBreaks
+                      ? `${settings.eyeBreakDuration}s every ${settings.eyeBreakInterval}m${settings.eyeBreakPoseConfirm ? ', camera confirmed' : ''}`
+                      : 'Off'}
+                  </span>
+                </div>
+                <div>
+                  <span className="font-medium text-blue-700">Posture Rules:</span>
+                  <span className="ml-2 text-blue-600">
+                    {POSTURE_RULE_PRESET_OPTIONS.find(option => option.value === activePreset)?.label || 'Custom'}
+                  </span>
+                </div>
               </div>
             </div>
           </div>
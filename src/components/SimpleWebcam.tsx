@@ -1,18 +1,51 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import Webcam from 'react-webcam';
 import TensorFlowPoseService, { PostureAnalysis } from '../services/tensorflowPoseService';
+import { PoseDetectorBackend } from '../services/poseDetectors';
+import { PostureRuleConfig, DEFAULT_POSTURE_RULES } from '../services/postureRules';
+import { PrivacyPreview } from '../services/trackingService';
 import TensorFlowDiagnostics from './TensorFlowDiagnostics';
+import CalibrationModal from './CalibrationModal';
+import PoseOverlay from './PoseOverlay';
+import type { OverlayFrame } from '../services/postureAnalyzer';
+import {
+  ReplaySummary,
+  downloadRecording,
+  parseRecording,
+  replayRecording,
+  summarizeReplay
+} from '../services/landmarkRecorder';
+import { ISSUE_LABELS, PostureIssueCode } from '../services/postureIssues';
+import type { PresenceEvent } from '../services/presenceDetector';
 
 interface SimpleWebcamProps {
   onPostureUpdate: (analysis: PostureAnalysis) => void;
   onError: (error: string) => void;
   isActive: boolean;
+  poseDetector?: PoseDetectorBackend;
+  targetFps?: number;
+  powerSaverOnBattery?: boolean;
+  postureRules?: PostureRuleConfig;
+  privacyMode?: boolean;
+  privacyPreview?: PrivacyPreview;
+  onPresenceChange?: (event: PresenceEvent) => void;
+  onLookAwayChange?: (lookingAway: boolean) => void;
+  onPoseSignal?: () => void;
 }
 
 const SimpleWebcam: React.FC<SimpleWebcamProps> = ({
   onPostureUpdate,
   onError,
-  isActive
+  isActive,
+  poseDetector,
+  targetFps,
+  powerSaverOnBattery,
+  postureRules,
+  privacyMode = false,
+  privacyPreview = 'silhouette',
+  onPresenceChange,
+  onLookAwayChange,
+  onPoseSignal
 }) => {
   const webcamRef = useRef<Webcam>(null);
   const [cameraPermission, setCameraPermission] = useState<'granted' | 'denied' | 'pending'>('pending');
@@ -22,6 +55,22 @@ const SimpleWebcam: React.FC<SimpleWebcamProps> = ({
   const [isInitialized, setIsInitialized] = useState(false);
   const [currentPosture, setCurrentPosture] = useState<PostureAnalysis | null>(null);
   const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [isCalibrated, setIsCalibrated] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedFrames, setRecordedFrames] = useState(0);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const analyzeInputRef = useRef<HTMLInputElement>(null);
+  // A recording scored with the rules it was made with and with the current ones
+  const [replayComparison, setReplayComparison] = useState<{
+    fileName: string;
+    recorded: ReplaySummary;
+    current: ReplaySummary;
+  } | null>(null);
+  const [showSkeleton, setShowSkeleton] = useState(true);
+  const [overlayFrame, setOverlayFrame] = useState<OverlayFrame | null>(null);
+  const [isAway, setIsAway] = useState(false);
 
   const videoConstraints = {
     width: 640,
@@ -88,10 +137,44 @@ const SimpleWebcam: React.FC<SimpleWebcamProps> = ({
         setPoseService(null);
         setIsInitialized(false);
         setCurrentPosture(null);
+        setIsAway(false);
       }
     }
   }, [isActive, poseService]);
 
+  const startPoseService = useCallback(async (video: HTMLVideoElement) => {
+    console.log('Video ready, initializing TensorFlow pose detection...');
+    const service = new TensorFlowPoseService(
+      (analysis) => {
+        setCurrentPosture(analysis);
+        onPostureUpdate(analysis);
+      }, 
+      (error) => {
+        console.error('TensorFlow pose detection error:', error);
+        onError(error);
+      },
+      {
+        detector: poseDetector,
+        targetFps,
+        powerSaverOnBattery,
+        rules: postureRules,
+        privacyMode,
+        onPresenceChange: (event) => {
+          setIsAway(event.type === 'absent');
+          onPresenceChange?.(event);
+        },
+        onLookAwayChange,
+        onPoseSignal
+      }
+    );
+    
+    await service.initialize(video);
+    setPoseService(service);
+    setIsInitialized(true);
+    setIsCalibrated(service.getBaseline() !== null);
+    console.log('TensorFlow pose detection service initialized successfully');
+  }, [onPostureUpdate, onError, poseDetector, targetFps, powerSaverOnBattery, postureRules, privacyMode, onPresenceChange, onLookAwayChange, onPoseSignal]);
+
   const handleUserMedia = useCallback(async (stream: MediaStream) => {
     console.log('Camera stream received:', stream);
     setCameraPermission('granted');
@@ -110,22 +193,7 @@ const SimpleWebcam: React.FC<SimpleWebcamProps> = ({
           });
         }
         
-            console.log('Video ready, initializing TensorFlow pose detection...');
-            const service = new TensorFlowPoseService(
-              (analysis) => {
-                setCurrentPosture(analysis);
-                onPostureUpdate(analysis);
-              }, 
-              (error) => {
-                console.error('TensorFlow pose detection error:', error);
-                onError(error);
-              }
-            );
-            
-            await service.initialize(video);
-            setPoseService(service);
-            setIsInitialized(true);
-            console.log('TensorFlow pose detection service initialized successfully');
+        await startPoseService(video);
       } catch (error) {
         console.error('Error initializing TensorFlow pose detection:', error);
         onError(`TensorFlow.js is required for this app to function. Failed to initialize: ${error}`);
@@ -133,7 +201,124 @@ const SimpleWebcam: React.FC<SimpleWebcamProps> = ({
         setIsInitialized(false);
       }
     }
-  }, [isActive, onPostureUpdate, onError]);
+  }, [isActive, onError, startPoseService]);
+
+  // Apply frame rate settings without restarting detection
+  useEffect(() => {
+    if (poseService) {
+      poseService.updateSchedulerOptions({ targetFps, powerSaverOnBattery });
+    }
+  }, [poseService, targetFps, powerSaverOnBattery]);
+
+  // Apply edited posture rules to the running service
+  useEffect(() => {
+    if (poseService && postureRules && poseService.getRules() !== postureRules) {
+      poseService.updateRules(postureRules);
+    }
+  }, [poseService, postureRules]);
+
+  // Swap the detector in place when a different pose model is selected in settings
+  useEffect(() => {
+    const video = webcamRef.current?.video;
+    if (!poseService || !video || !poseDetector || poseService.getDetectorBackend() === poseDetector) {
+      return;
+    }
+
+    console.log(`Switching pose detector to ${poseDetector}`);
+    poseService.stop();
+    setIsInitialized(false);
+    startPoseService(video).catch((error) => {
+      console.error('Error switching pose detector:', error);
+      onError(`Failed to load the ${poseDetector} pose model: ${error}`);
+      setPoseService(null);
+    });
+  }, [poseDetector, poseService, startPoseService, onError]);
+
+  // Silhouette mode draws the skeleton in place of the video
+  const showSilhouette = privacyMode && privacyPreview === 'silhouette';
+  const overlayVisible = showSilhouette || (showSkeleton && !(privacyMode && privacyPreview === 'hidden'));
+
+  useEffect(() => {
+    if (poseService) {
+      poseService.setPrivacyMode(privacyMode);
+      if (privacyMode) {
+        setIsRecording(false);
+      }
+    }
+  }, [poseService, privacyMode]);
+
+  // Feed detected keypoints to the skeleton overlay
+  useEffect(() => {
+    if (!poseService || !overlayVisible) {
+      setOverlayFrame(null);
+      return;
+    }
+
+    poseService.setFrameListener(setOverlayFrame);
+    return () => poseService.setFrameListener(null);
+  }, [poseService, overlayVisible]);
+
+  // Show the frame count while a recording is running
+  useEffect(() => {
+    if (!isRecording || !poseService) return;
+
+    const timer = setInterval(() => {
+      setRecordedFrames(poseService.getRecordingFrameCount());
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [isRecording, poseService]);
+
+  const toggleRecording = () => {
+    if (!poseService) return;
+
+    if (poseService.isRecording()) {
+      const recording = poseService.stopRecording();
+      setIsRecording(false);
+      if (recording && recording.frames.length > 0) {
+        downloadRecording(recording);
+      }
+    } else {
+      poseService.startRecording();
+      setRecordedFrames(0);
+      setIsRecording(true);
+    }
+  };
+
+  const handleReplayFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !poseService) return;
+
+    try {
+      const recording = parseRecording(await file.text());
+      setIsReplaying(true);
+      await poseService.startReplay(recording);
+    } catch (err) {
+      console.error('Error replaying landmark recording:', err);
+      onError(`Could not replay recording: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
+  const handleAnalyzeFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const recording = parseRecording(await file.text());
+      setReplayComparison({
+        fileName: file.name,
+        recorded: summarizeReplay(replayRecording(recording)),
+        current: summarizeReplay(replayRecording(recording, postureRules || DEFAULT_POSTURE_RULES))
+      });
+    } catch (err) {
+      console.error('Error analyzing landmark recording:', err);
+      onError(`Could not analyze recording: ${err instanceof Error ? err.message : err}`);
+    }
+  };
 
   const handleUserMediaError = useCallback((error: string | DOMException) => {
     console.error('Camera error:', error);
@@ -218,11 +403,34 @@ const SimpleWebcam: React.FC<SimpleWebcamProps> = ({
           screenshotFormat="image/jpeg"
           videoConstraints={videoConstraints}
           className="w-full h-auto"
-          style={{ transform: 'scaleX(-1)' }} // Mirror the video
+          style={{
+            transform: 'scaleX(-1)', // Mirror the video
+            // The video must stay in the layout for detection to keep running,
+            // so privacy mode hides it visually instead of unmounting it
+            opacity: privacyMode && privacyPreview !== 'blur' ? 0 : 1,
+            filter: privacyMode && privacyPreview === 'blur' ? 'blur(24px)' : undefined
+          }}
           onUserMedia={handleUserMedia}
           onUserMediaError={handleUserMediaError}
         />
 
+        {/* Privacy Placeholder */}
+        {privacyMode && privacyPreview === 'hidden' && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-300">
+            <span className="text-4xl mb-2">🔒</span>
+            <span className="text-sm">Camera preview hidden</span>
+          </div>
+        )}
+
+        {/* Skeleton Overlay */}
+        {overlayVisible && isInitialized && (
+          <PoseOverlay
+            frame={overlayFrame}
+            width={webcamRef.current?.video?.videoWidth || videoConstraints.width}
+            height={webcamRef.current?.video?.videoHeight || videoConstraints.height}
+          />
+        )}
+
         {/* Status Overlay */}
         <div className="absolute top-4 left-4">
           <div className={`px-3 py-1 rounded-full text-xs font-medium ${
@@ -232,8 +440,28 @@ const SimpleWebcam: React.FC<SimpleWebcamProps> = ({
             {isActive && isInitialized ? '● AI Active' : 
              isActive ? '● Initializing' : '○ Paused'}
           </div>
+          {privacyMode && (
+            <div className="mt-2 px-3 py-1 rounded-full text-xs font-medium bg-purple-600 text-white">
+              🔒 Privacy Mode
+            </div>
+          )}
+          {isActive && isAway && (
+            <div className="mt-2 px-3 py-1 rounded-full text-xs font-medium bg-gray-700 text-white">
+              ⏸ Away
+            </div>
+          )}
         </div>
 
+        {/* Skeleton Toggle */}
+        {isInitialized && !privacyMode && (
+          <button
+            onClick={() => setShowSkeleton(!showSkeleton)}
+            className="absolute bottom-4 left-4 px-3 py-1 rounded-full text-xs font-medium bg-black bg-opacity-60 text-white hover:bg-opacity-80"
+          >
+            {showSkeleton ? 'Hide Skeleton' : 'Show Skeleton'}
+          </button>
+        )}
+
         {/* Posture Score Overlay */}
         {currentPosture && (
           <div className="absolute top-4 right-4">
@@ -248,6 +476,138 @@ const SimpleWebcam: React.FC<SimpleWebcamProps> = ({
 
       </div>
 
+      {/* Calibration Status */}
+      {isActive && isInitialized && (
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-50 border-t border-gray-200">
+          <div className="text-sm">
+            <span className="text-gray-600">Calibration: </span>
+            <span className={`font-medium ${isCalibrated ? 'text-green-600' : 'text-gray-500'}`}>
+              {isCalibrated ? 'Personal baseline' : 'Default thresholds'}
+            </span>
+          </div>
+          <button
+            onClick={() => setShowCalibration(true)}
+            className="bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium py-1.5 px-3 rounded-lg transition-colors"
+          >
+            {isCalibrated ? 'Recalibrate' : 'Calibrate'}
+          </button>
+        </div>
+      )}
+
+      {/* Landmark Recording */}
+      {isActive && isInitialized && (
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-50 border-t border-gray-200">
+          <div className="text-sm">
+            <span className="text-gray-600">Recording: </span>
+            <span className={`font-medium ${isRecording || isReplaying ? 'text-red-600' : 'text-gray-500'}`}>
+              {isRecording ? `● ${recordedFrames} frames` : isReplaying ? 'Replaying...' : 'Off'}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            {isReplaying ? (
+              <button
+                onClick={() => poseService?.stopReplay()}
+                className="bg-gray-600 hover:bg-gray-700 text-white text-xs font-medium py-1.5 px-3 rounded-lg transition-colors"
+              >
+                Stop Replay
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => analyzeInputRef.current?.click()}
+                  disabled={isRecording}
+                  title="Score a recording with its own rules and the current ones"
+                  className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-300 text-white text-xs font-medium py-1.5 px-3 rounded-lg transition-colors"
+                >
+                  Analyze File
+                </button>
+                <button
+                  onClick={() => replayInputRef.current?.click()}
+                  disabled={isRecording}
+                  className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-300 text-white text-xs font-medium py-1.5 px-3 rounded-lg transition-colors"
+                >
+                  Replay File
+                </button>
+              </>
+            )}
+            <button
+              onClick={toggleRecording}
+              disabled={isReplaying || privacyMode}
+              title={privacyMode ? 'Recording is disabled in privacy mode' : undefined}
+              className={`${isRecording ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'} disabled:bg-gray-300 text-white text-xs font-medium py-1.5 px-3 rounded-lg transition-colors`}
+            >
+              {isRecording ? 'Stop & Download' : 'Record'}
+            </button>
+          </div>
+          <input
+            ref={replayInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleReplayFile}
+            className="hidden"
+          />
+          <input
+            ref={analyzeInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleAnalyzeFile}
+            className="hidden"
+          />
+        </div>
+      )}
+
+      {isActive && isInitialized && replayComparison && (
+        <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 text-xs">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-medium text-gray-700 truncate">{replayComparison.fileName}</span>
+            <button onClick={() => setReplayComparison(null)} className="text-gray-400 hover:text-gray-600">
+              ×
+            </button>
+          </div>
+          <table className="w-full text-gray-600">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal"></th>
+                <th className="text-right font-normal">Recorded rules</th>
+                <th className="text-right font-normal">Current rules</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Readings</td>
+                <td className="text-right">{replayComparison.recorded.readings}</td>
+                <td className="text-right">{replayComparison.current.readings}</td>
+              </tr>
+              <tr>
+                <td>Average score</td>
+                <td className="text-right">{replayComparison.recorded.averageScore.toFixed(1)}</td>
+                <td className="text-right">{replayComparison.current.averageScore.toFixed(1)}</td>
+              </tr>
+              {(Object.keys(ISSUE_LABELS) as PostureIssueCode[])
+                .filter(code => replayComparison.recorded.issueCounts[code] || replayComparison.current.issueCounts[code])
+                .map(code => (
+                  <tr key={code}>
+                    <td>{ISSUE_LABELS[code]}</td>
+                    <td className="text-right">{replayComparison.recorded.issueCounts[code] ?? 0}</td>
+                    <td className="text-right">{replayComparison.current.issueCounts[code] ?? 0}</td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+          {/* Calibration Modal */}
+          {showCalibration && poseService && (
+            <CalibrationModal
+              poseService={poseService}
+              onClose={() => {
+                setShowCalibration(false);
+                setIsCalibrated(poseService.getBaseline() !== null);
+              }}
+              onCalibrated={() => setIsCalibrated(true)}
+            />
+          )}
           
           {/* Diagnostics Modal */}
           {showDiagnostics && (
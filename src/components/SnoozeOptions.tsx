@@ -0,0 +1,35 @@
+import React from 'react';
+import { SnoozeOption, SNOOZE_OPTIONS, getSnoozeUntil, formatSnoozeTime } from '../services/snooze';
+
+interface SnoozeOptionsProps {
+  onSnooze: (option: SnoozeOption) => void;
+  className?: string;
+}
+
+// Shared row of snooze buttons for the break and posture alerts
+const SnoozeOptions: React.FC<SnoozeOptionsProps> = ({ onSnooze, className = '' }) => {
+  const now = Date.now();
+
+  return (
+    <div className={className}>
+      <p className="text-xs font-medium text-gray-500 mb-1">Snooze</p>
+      <div className="flex flex-wrap gap-1">
+        {SNOOZE_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onSnooze(option.value)}
+            className="px-2 py-1 rounded-md text-xs font-medium bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 transition-colors"
+            title={`Snooze until ${formatSnoozeTime(getSnoozeUntil(option.value, now))}`}
+          >
+            {option.label}
+            {(option.value === 'after_meeting' || option.value === 'end_of_hour') && (
+              <span className="text-gray-400"> ({formatSnoozeTime(getSnoozeUntil(option.value, now))})</span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SnoozeOptions;
@@ -65,6 +65,11 @@ const StretchSuggestion: React.FC<StretchSuggestionProps> = ({
             </li>
           ))}
         </ol>
+        {suggestion.cautions && suggestion.cautions.length > 0 && (
+          <p className="mt-3 text-xs text-gray-500">
+            Skip this one with: {suggestion.cautions.join(', ').toLowerCase()}
+          </p>
+        )}
       </div>
 
       <div className="flex gap-3">
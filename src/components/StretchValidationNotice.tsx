@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { StretchGenerationResult } from '../services/geminiService';
+
+interface StretchValidationNoticeProps {
+  result: StretchGenerationResult;
+  providerName: string;
+}
+
+// Explains when some or all of the model's suggestions couldn't be used
+const StretchValidationNotice: React.FC<StretchValidationNoticeProps> = ({ result, providerName }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const rejectedCount = result.rejected.length;
+
+  if (!result.usedFallback && rejectedCount === 0) {
+    return null;
+  }
+
+  const total = result.usedFallback ? rejectedCount : result.suggestions.length + rejectedCount;
+  const summary = result.usedFallback
+    ? `${result.fallbackReason ?? 'The response could not be used'}, showing built-in stretches instead of ${providerName} suggestions.`
+    : `${rejectedCount} of ${total} suggestions from ${providerName} were dropped because they were incomplete.`;
+
+  return (
+    <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+      <div className="flex justify-between items-start gap-3">
+        <p>{summary}</p>
+        {rejectedCount > 0 && (
+          <button
+            onClick={() => setShowDetails(prev => !prev)}
+            className="text-xs font-medium text-yellow-700 hover:text-yellow-900 whitespace-nowrap"
+          >
+            {showDetails ? 'Hide details' : 'Details'}
+          </button>
+        )}
+      </div>
+      {showDetails && (
+        <ul className="mt-2 space-y-1 text-xs">
+          {result.rejected.map(rejection => (
+            <li key={rejection.index}>
+              <span className="font-medium">#{rejection.index + 1} {rejection.name ?? 'Unnamed'}:</span> {rejection.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default StretchValidationNotice;
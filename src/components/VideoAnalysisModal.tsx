@@ -0,0 +1,216 @@
+import React, { useState, useRef, useEffect } from 'react';
+import VideoPostureAnalyzer, { PostureTimeline, VideoAnalysisProgress } from '../services/videoAnalysis';
+import { Settings } from '../services/trackingService';
+import { loadBaseline } from '../services/postureCalibration';
+import { ISSUE_LABELS, PostureIssueCode } from '../services/postureIssues';
+
+interface VideoAnalysisModalProps {
+  settings: Settings;
+  onClose: () => void;
+}
+
+type AnalysisPhase = 'select' | 'processing' | 'done' | 'error';
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 8) return 'bg-green-500';
+  if (score >= 6) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+const VideoAnalysisModal: React.FC<VideoAnalysisModalProps> = ({ settings, onClose }) => {
+  const [phase, setPhase] = useState<AnalysisPhase>('select');
+  const [progress, setProgress] = useState<VideoAnalysisProgress | null>(null);
+  const [timeline, setTimeline] = useState<PostureTimeline | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const analyzerRef = useRef<VideoPostureAnalyzer | null>(null);
+
+  // Stop processing if the modal is closed mid-analysis
+  useEffect(() => {
+    return () => analyzerRef.current?.cancel();
+  }, []);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const analyzer = new VideoPostureAnalyzer(
+      {
+        detector: settings.poseDetector,
+        rules: settings.postureRules,
+        baseline: loadBaseline(),
+        sampleFps: settings.targetFps
+      },
+      setProgress
+    );
+    analyzerRef.current = analyzer;
+    setError(null);
+    setTimeline(null);
+    setProgress(null);
+    setPhase('processing');
+
+    try {
+      const result = await analyzer.analyze(file);
+      setTimeline(result);
+      setPhase('done');
+    } catch (err) {
+      console.error('Video analysis failed:', err);
+      setError(err instanceof Error ? err.message : String(err));
+      setPhase('error');
+    } finally {
+      analyzerRef.current = null;
+    }
+  };
+
+  // Total time spent in each issue, worst first
+  const issueTotals = timeline
+    ? Object.entries(
+        timeline.segments.reduce<Record<string, number>>((totals, segment) => {
+          totals[segment.code] = (totals[segment.code] || 0) + (segment.end - segment.start);
+          return totals;
+        }, {})
+      ).sort((a, b) => b[1] - a[1])
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-gray-800">Analyze Recorded Video</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 text-2xl font-bold"
+          >
+            ×
+          </button>
+        </div>
+
+        {(phase === 'select' || phase === 'done' || phase === 'error') && (
+          <div className="mb-4">
+            <p className="text-sm text-gray-600 mb-3">
+              Load a recording of a work session. It is processed locally, faster than real time, using your
+              current pose model and posture rules. The video never leaves this device.
+            </p>
+            <label className="inline-block bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors text-sm cursor-pointer">
+              {phase === 'select' ? 'Choose Video File' : 'Analyze Another Video'}
+              <input type="file" accept="video/*" onChange={handleFile} className="hidden" />
+            </label>
+          </div>
+        )}
+
+        {phase === 'processing' && (
+          <div className="text-center">
+            <p className="text-sm text-gray-600 mb-3">
+              Processing {progress ? `${formatTime(progress.processed)} / ${formatTime(progress.duration)}` : 'video'}...
+            </p>
+            <div className="w-full bg-gray-200 rounded-full h-3 mb-4">
+              <div
+                className="h-3 rounded-full bg-blue-500 transition-all duration-100"
+                style={{ width: `${progress ? (progress.processed / progress.duration) * 100 : 0}%` }}
+              />
+            </div>
+            <button
+              onClick={() => analyzerRef.current?.cancel()}
+              className="bg-gray-600 hover:bg-gray-700 text-white font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {phase === 'error' && (
+          <p className="text-sm text-red-600 bg-red-50 rounded-lg p-3 border border-red-200">
+            {error}
+          </p>
+        )}
+
+        {phase === 'done' && timeline && (
+          <div className="space-y-4">
+            {/* Summary */}
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-gray-50 rounded-lg p-3 text-center">
+                <div className="text-xs text-gray-500">Duration</div>
+                <div className="text-lg font-semibold text-gray-800">{formatTime(timeline.duration)}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3 text-center">
+                <div className="text-xs text-gray-500">Average Score</div>
+                <div className="text-lg font-semibold text-gray-800">
+                  {timeline.points.length > 0 ? `${timeline.averageScore.toFixed(1)}/10` : '—'}
+                </div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3 text-center">
+                <div className="text-xs text-gray-500">Frames Without Pose</div>
+                <div className="text-lg font-semibold text-gray-800">
+                  {timeline.framesWithoutPose}/{timeline.framesAnalyzed}
+                </div>
+              </div>
+            </div>
+
+            {/* Score Timeline */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Score Timeline</h4>
+              <div className="flex items-end h-20 gap-px bg-gray-50 rounded-lg p-2">
+                {timeline.points.map((point, index) => (
+                  <div
+                    key={index}
+                    className={`flex-1 rounded-t ${getScoreColor(point.analysis.score)}`}
+                    style={{ height: `${point.analysis.score * 10}%` }}
+                    title={`${formatTime(point.time)}: ${point.analysis.score}/10`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>0:00</span>
+                <span>{formatTime(timeline.duration)}</span>
+              </div>
+            </div>
+
+            {/* Issue Segments */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Issue Segments</h4>
+              {timeline.segments.length === 0 ? (
+                <p className="text-sm text-green-600">No posture issues were detected in this video.</p>
+              ) : (
+                <div className="space-y-2">
+                  {issueTotals.map(([code, total]) => (
+                    <div key={code}>
+                      <div className="flex justify-between text-xs text-gray-600 mb-1">
+                        <span className="font-medium">{ISSUE_LABELS[code as PostureIssueCode]}</span>
+                        <span>{formatTime(total)} total</span>
+                      </div>
+                      <div className="relative h-3 bg-gray-100 rounded">
+                        {timeline.segments.filter(segment => segment.code === code).map((segment, index) => (
+                          <div
+                            key={index}
+                            className={`absolute h-3 rounded ${
+                              segment.severity === 'severe' ? 'bg-red-500' :
+                              segment.severity === 'moderate' ? 'bg-orange-400' : 'bg-yellow-400'
+                            }`}
+                            style={{
+                              left: `${(segment.start / timeline.duration) * 100}%`,
+                              width: `${Math.max(0.5, ((segment.end - segment.start) / timeline.duration) * 100)}%`
+                            }}
+                            title={`${formatTime(segment.start)} – ${formatTime(segment.end)} (${segment.severity})`}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VideoAnalysisModal;
@@ -0,0 +1,154 @@
+import { redactError } from '../config/apiKeys';
+
+// Providers that need a key; local models don't
+export type ApiKeyProvider = 'gemini' | 'openai';
+
+// Encrypted keys are AES-GCM with a key derived from the passphrase, all base64
+type StoredKey =
+  | { encrypted: false; value: string }
+  | { encrypted: true; salt: string; iv: string; data: string };
+
+const STORAGE_KEY = 'postureGuardApiKeys';
+const PBKDF2_ITERATIONS = 250000;
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Keeps each user's own API keys in localStorage, optionally encrypted with a
+ * passphrase. An encrypted key is only decrypted in memory after unlock(), so
+ * it has to be unlocked again after a reload.
+ */
+class ApiKeyStore {
+  private stored: Partial<Record<ApiKeyProvider, StoredKey>> = {};
+  private unlocked: Partial<Record<ApiKeyProvider, string>> = {};
+
+  constructor() {
+    this.load();
+  }
+
+  // WebCrypto is only available on https and localhost
+  isEncryptionSupported(): boolean {
+    return typeof crypto !== 'undefined' && !!crypto.subtle;
+  }
+
+  hasKey(provider: ApiKeyProvider): boolean {
+    return !!this.stored[provider];
+  }
+
+  isEncrypted(provider: ApiKeyProvider): boolean {
+    return this.stored[provider]?.encrypted === true;
+  }
+
+  isLocked(provider: ApiKeyProvider): boolean {
+    return this.isEncrypted(provider) && this.unlocked[provider] === undefined;
+  }
+
+  // The usable key, or '' when none is saved or it is still locked
+  getKey(provider: ApiKeyProvider): string {
+    const stored = this.stored[provider];
+    if (!stored) return '';
+    return 'value' in stored ? stored.value : this.unlocked[provider] ?? '';
+  }
+
+  async saveKey(provider: ApiKeyProvider, key: string, passphrase?: string): Promise<void> {
+    const value = key.trim();
+
+    if (passphrase) {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const cryptoKey = await deriveKey(passphrase, salt);
+      const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, new TextEncoder().encode(value));
+      this.stored[provider] = {
+        encrypted: true,
+        salt: toBase64(salt),
+        iv: toBase64(iv),
+        data: toBase64(new Uint8Array(data))
+      };
+    } else {
+      this.stored[provider] = { encrypted: false, value };
+    }
+
+    this.unlocked[provider] = value;
+    this.save();
+    console.log(`ApiKeyStore: Saved ${provider} key${passphrase ? ' (encrypted)' : ''}`);
+  }
+
+  // Decrypt a saved key for this session. False when the passphrase is wrong.
+  async unlock(provider: ApiKeyProvider, passphrase: string): Promise<boolean> {
+    const stored = this.stored[provider];
+    if (!stored || !('data' in stored)) return true;
+
+    try {
+      const cryptoKey = await deriveKey(passphrase, fromBase64(stored.salt));
+      const data = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+        cryptoKey,
+        fromBase64(stored.data)
+      );
+      this.unlocked[provider] = new TextDecoder().decode(data);
+      console.log(`ApiKeyStore: Unlocked ${provider} key`);
+      return true;
+    } catch (error) {
+      // AES-GCM fails authentication with the wrong passphrase
+      console.log(`ApiKeyStore: Could not unlock ${provider} key:`, redactError(error));
+      return false;
+    }
+  }
+
+  lock(provider: ApiKeyProvider): void {
+    if (this.isEncrypted(provider)) {
+      delete this.unlocked[provider];
+    }
+  }
+
+  removeKey(provider: ApiKeyProvider): void {
+    delete this.stored[provider];
+    delete this.unlocked[provider];
+    this.save();
+    console.log(`ApiKeyStore: Removed ${provider} key`);
+  }
+
+  private load(): void {
+    // The proxy server imports the providers, and has no localStorage
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.stored = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.error('ApiKeyStore: Error loading saved keys:', redactError(error));
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.stored));
+    } catch (error) {
+      console.error('ApiKeyStore: Error saving keys:', redactError(error));
+    }
+  }
+}
+
+export const apiKeyStore = new ApiKeyStore();
+
+export default ApiKeyStore;
@@ -0,0 +1,76 @@
+// How work and break time are scheduled
+export type ScheduleMode = 'interval' | 'pomodoro' | '52-17' | 'custom';
+
+export interface CycleConfig {
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number; // 0 for no long breaks
+}
+
+// 'break_due' is the gap between the work timer running out and the user
+// actually starting the break
+export type SchedulePhase = 'work' | 'break_due' | 'break' | 'long_break';
+
+export interface ScheduleState {
+  mode: ScheduleMode;
+  phase: SchedulePhase;
+  phaseStartedAt: number;
+  phaseEndsAt: number | null; // null while waiting for a due break to start
+  completedCycles: number; // Breaks taken in full this session
+  cyclesBeforeLongBreak: number;
+  breakInterrupted: boolean; // The user was seen back at the desk before the break ended
+}
+
+export const POMODORO_CYCLE: CycleConfig = {
+  workMinutes: 25,
+  breakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4
+};
+
+export const FIFTY_TWO_SEVENTEEN_CYCLE: CycleConfig = {
+  workMinutes: 52,
+  breakMinutes: 17,
+  longBreakMinutes: 17,
+  cyclesBeforeLongBreak: 0
+};
+
+export const DEFAULT_CUSTOM_CYCLE: CycleConfig = {
+  workMinutes: 50,
+  breakMinutes: 10,
+  longBreakMinutes: 20,
+  cyclesBeforeLongBreak: 3
+};
+
+export const SCHEDULE_MODE_OPTIONS: { value: ScheduleMode; label: string; description: string }[] = [
+  { value: 'interval', label: 'Interval', description: 'Remind me after the break reminder interval' },
+  { value: 'pomodoro', label: 'Pomodoro', description: '25 min work, 5 min break, 15 min break every 4 cycles' },
+  { value: '52-17', label: '52/17', description: '52 min work, 17 min break' },
+  { value: 'custom', label: 'Custom', description: 'Your own work and break lengths' }
+];
+
+// The cycle a mode runs, or null for interval mode which has no fixed breaks
+export const getCycleConfig = (mode: ScheduleMode, customCycle: CycleConfig): CycleConfig | null => {
+  switch (mode) {
+    case 'pomodoro':
+      return POMODORO_CYCLE;
+    case '52-17':
+      return FIFTY_TWO_SEVENTEEN_CYCLE;
+    case 'custom':
+      return customCycle;
+    default:
+      return null;
+  }
+};
+
+// Whether the break after `completedCycles` full cycles should be a long one
+export const isLongBreakNext = (cycle: CycleConfig, completedCycles: number): boolean =>
+  cycle.cyclesBeforeLongBreak > 0 && (completedCycles + 1) % cycle.cyclesBeforeLongBreak === 0;
+
+export const normalizeCycle = (cycle?: Partial<CycleConfig>): CycleConfig => ({
+  workMinutes: Math.max(1, cycle?.workMinutes ?? DEFAULT_CUSTOM_CYCLE.workMinutes),
+  breakMinutes: Math.max(1, cycle?.breakMinutes ?? DEFAULT_CUSTOM_CYCLE.breakMinutes),
+  longBreakMinutes: Math.max(1, cycle?.longBreakMinutes ?? DEFAULT_CUSTOM_CYCLE.longBreakMinutes),
+  cyclesBeforeLongBreak: Math.max(0, cycle?.cyclesBeforeLongBreak ?? DEFAULT_CUSTOM_CYCLE.cyclesBeforeLongBreak)
+});
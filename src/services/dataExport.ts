@@ -0,0 +1,159 @@
+import { historyStore, SessionRecord, MinuteRecord, HistoryImportResult, IssueCounts, getAverageScore } from './historyStore';
+import type { Settings, TrackingData } from './trackingService';
+
+// Bump when the layout changes; older files stay importable
+export const EXPORT_VERSION = 1;
+
+export interface TrackingExport {
+  app: 'PostureGuard';
+  version: number;
+  exportedAt: number;
+  settings: Settings;
+  tracking: TrackingData | null; // Current rolling totals at the time of export
+  sessions: SessionRecord[];
+  minutes: MinuteRecord[]; // Per-minute posture timeline
+}
+
+export type CsvTable = 'sessions' | 'timeline' | 'breaks' | 'settings';
+
+export interface ImportResult extends HistoryImportResult {
+  settings: Settings | null; // Settings found in the file, for the caller to apply or ignore
+}
+
+const ALL_TIME: [number, number] = [0, Number.MAX_SAFE_INTEGER];
+
+const toIso = (timestamp: number) => new Date(timestamp).toISOString();
+
+const formatIssues = (issues: IssueCounts) =>
+  Object.entries(issues)
+    .sort((a, b) => (b[1] || 0) - (a[1] || 0))
+    .map(([code, count]) => `${code}:${count}`)
+    .join('; ');
+
+const formatAverage = (record: { scoreTotal: number; samples: number }) => {
+  const average = getAverageScore(record);
+  return average === null ? '' : average.toFixed(2);
+};
+
+const escapeCsv = (value: string | number | boolean | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: (string | number | boolean | null | undefined)[][]): string =>
+  [headers, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
+
+export const buildExport = async (settings: Settings, tracking: TrackingData | null): Promise<TrackingExport> => {
+  const [sessions, minutes] = await Promise.all([
+    historyStore.getSessions(...ALL_TIME),
+    historyStore.getMinutes(...ALL_TIME)
+  ]);
+
+  return {
+    app: 'PostureGuard',
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    settings,
+    tracking,
+    sessions,
+    minutes
+  };
+};
+
+export const buildCsv = (data: TrackingExport, table: CsvTable): string => {
+  switch (table) {
+    case 'sessions':
+      return toCsv(
+        ['session_id', 'start', 'end', 'duration_minutes', 'average_score', 'screen_time_minutes', 'off_hours_minutes', 'breaks', 'alerts_shown', 'alerts_dismissed', 'snoozes', 'issues'],
+        data.sessions.map(session => [
+          session.id,
+          toIso(session.startTime),
+          toIso(session.endTime),
+          Math.round((session.endTime - session.startTime) / 60000),
+          formatAverage(session),
+          session.screenTime,
+          session.offHoursScreenTime ?? 0,
+          session.breaks,
+          session.alertsShown,
+          session.alertsDismissed,
+          session.snoozes ?? 0,
+          formatIssues(session.issues)
+        ])
+      );
+    case 'timeline':
+      return toCsv(
+        ['minute', 'session_id', 'average_score', 'min_score', 'samples', 'screen_time_minutes', 'off_hours_minutes', 'breaks', 'alerts_shown', 'alerts_dismissed', 'snoozes', 'issues'],
+        data.minutes.map(minute => [
+          toIso(minute.timestamp),
+          minute.sessionId,
+          formatAverage(minute),
+          minute.minScore,
+          minute.samples,
+          minute.screenTime,
+          minute.offHoursScreenTime ?? 0,
+          minute.breaks,
+          minute.alertsShown,
+          minute.alertsDismissed,
+          minute.snoozes ?? 0,
+          formatIssues(minute.issues)
+        ])
+      );
+    case 'breaks':
+      return toCsv(
+        ['minute', 'session_id', 'breaks'],
+        data.minutes
+          .filter(minute => minute.breaks > 0)
+          .map(minute => [toIso(minute.timestamp), minute.sessionId, minute.breaks])
+      );
+    case 'settings':
+      return toCsv(
+        ['setting', 'value'],
+        Object.entries(data.settings).map(([key, value]) => [
+          key,
+          typeof value === 'object' ? JSON.stringify(value) : value
+        ])
+      );
+  }
+};
+
+export const downloadFile = (fileName: string, content: string, type: string): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const getExportFileName = (data: TrackingExport, suffix: string): string =>
+  `posture-data-${toIso(data.exportedAt).slice(0, 10)}-${suffix}`;
+
+export const parseExport = (text: string): TrackingExport => {
+  let parsed: TrackingExport;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Import file is not valid JSON');
+  }
+
+  if (!parsed || parsed.app !== 'PostureGuard' || !Array.isArray(parsed.sessions) || !Array.isArray(parsed.minutes)) {
+    throw new Error('File is not a PostureGuard data export');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > EXPORT_VERSION) {
+    throw new Error(`Export version ${parsed.version} is newer than this app supports`);
+  }
+
+  return parsed;
+};
+
+// Merge an export into local history, skipping sessions and minutes that are
+// already stored (e.g. when the same file is imported twice)
+export const importExport = async (data: TrackingExport): Promise<ImportResult> => {
+  const sessions = data.sessions.filter(session => typeof session.id === 'string' && typeof session.startTime === 'number');
+  const minutes = data.minutes.filter(minute => typeof minute.sessionId === 'string' && typeof minute.timestamp === 'number');
+  const result = await historyStore.importRecords(sessions, minutes);
+
+  console.log('Imported tracking data:', result);
+  return { ...result, settings: data.settings || null };
+};
@@ -0,0 +1,135 @@
+import type { FrameSignal } from './postureAnalyzer';
+
+export interface DetectionSchedulerOptions {
+  targetFps: number; // Sampling rate while posture is changing
+  powerSaverOnBattery: boolean; // Drop to POWER_SAVER_FPS when unplugged
+}
+
+export type DetectionMode = 'normal' | 'backoff' | 'boost' | 'power-saver';
+
+export const DEFAULT_TARGET_FPS = 5;
+
+// Minimal typing for the Battery Status API, which isn't in the DOM lib
+interface BatteryManager extends EventTarget {
+  charging: boolean;
+}
+
+/**
+ * Decides how long to wait before sampling the next frame. Pose results are
+ * only published every couple of seconds, so there is no point running the
+ * model on every animation frame: sample at the target rate while something
+ * is changing, back off while posture is stable, and cap the rate on battery.
+ */
+class DetectionScheduler {
+  private options: DetectionSchedulerOptions;
+  private stableFrames = 0;
+  private developingIssue = false;
+  private lastScore: number | null = null;
+  private onBattery = false;
+  private battery: BatteryManager | null = null;
+  private disposed = false; // getBattery() can resolve after dispose()
+  private mode: DetectionMode = 'normal';
+  private readonly MAX_FPS = 15; // Upper bound even while boosting
+  private readonly POWER_SAVER_FPS = 1;
+  private readonly BOOST_FACTOR = 2; // Sample twice as often while an issue is developing
+  private readonly STABLE_FRAMES_PER_STEP = 10; // Slow down one step after this many unchanged frames
+  private readonly MAX_BACKOFF = 4; // Never slow down more than 4x
+  private readonly MAX_DELAY = 4000; // Keep at least one sample every 4 seconds
+  private readonly STABLE_SCORE_DELTA = 0.5; // Frame-to-frame score change still considered stable
+
+  constructor(options: DetectionSchedulerOptions) {
+    this.options = { ...options };
+    this.monitorBattery();
+  }
+
+  updateOptions(options: Partial<DetectionSchedulerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  // Feed the outcome of the latest frame; null means no person was detected
+  recordFrame(signal: FrameSignal | null): void {
+    if (!signal) {
+      // Nobody in view - nothing to track closely
+      this.developingIssue = false;
+      this.stableFrames++;
+      this.lastScore = null;
+      return;
+    }
+
+    const scoreChanged = this.lastScore !== null &&
+      Math.abs(signal.score - this.lastScore) >= this.STABLE_SCORE_DELTA;
+
+    this.developingIssue = signal.developingIssue;
+    this.stableFrames = signal.developingIssue || scoreChanged ? 0 : this.stableFrames + 1;
+    this.lastScore = signal.score;
+  }
+
+  getNextDelay(): number {
+    const powerSaving = this.options.powerSaverOnBattery && this.onBattery;
+    const baseFps = Math.max(0.1, powerSaving
+      ? Math.min(this.options.targetFps, this.POWER_SAVER_FPS)
+      : this.options.targetFps);
+
+    let fps = baseFps;
+    let mode: DetectionMode = powerSaving ? 'power-saver' : 'normal';
+
+    if (this.developingIssue) {
+      fps = Math.min(baseFps * this.BOOST_FACTOR, powerSaving ? this.POWER_SAVER_FPS * this.BOOST_FACTOR : this.MAX_FPS);
+      mode = powerSaving ? mode : 'boost';
+    } else {
+      const backoff = Math.min(this.MAX_BACKOFF, 1 + Math.floor(this.stableFrames / this.STABLE_FRAMES_PER_STEP));
+      fps = baseFps / backoff;
+      if (backoff > 1 && !powerSaving) {
+        mode = 'backoff';
+      }
+    }
+
+    this.setMode(mode);
+    return Math.min(this.MAX_DELAY, Math.round(1000 / fps));
+  }
+
+  getMode(): DetectionMode {
+    return this.mode;
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    if (this.battery) {
+      this.battery.removeEventListener('chargingchange', this.handleChargingChange);
+      this.battery = null;
+    }
+  }
+
+  private setMode(mode: DetectionMode): void {
+    if (mode !== this.mode) {
+      console.log(`Detection scheduler: ${this.mode} -> ${mode}`);
+      this.mode = mode;
+    }
+  }
+
+  private async monitorBattery(): Promise<void> {
+    const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManager> };
+    if (typeof nav.getBattery !== 'function') {
+      console.log('Battery Status API not available, power saver mode disabled');
+      return;
+    }
+
+    try {
+      const battery = await nav.getBattery();
+      if (this.disposed) return;
+      this.battery = battery;
+      this.onBattery = !this.battery.charging;
+      this.battery.addEventListener('chargingchange', this.handleChargingChange);
+    } catch (error) {
+      console.error('Error reading battery status:', error);
+    }
+  }
+
+  private handleChargingChange = () => {
+    if (!this.battery) return;
+    this.onBattery = !this.battery.charging;
+    console.log('Battery charging state changed:', this.onBattery ? 'on battery' : 'plugged in');
+  };
+}
+
+export default DetectionScheduler;
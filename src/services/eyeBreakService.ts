@@ -0,0 +1,275 @@
+import type { Settings } from './trackingService';
+
+export type EyeBreakPhase = 'idle' | 'prompt' | 'countdown' | 'done';
+
+export interface EyeBreakState {
+  phase: EyeBreakPhase;
+  remainingMs: number; // Look-away time still needed during the countdown
+  durationMs: number;
+  lookingAway: boolean; // Latest pose reading, only meaningful with pose confirmation
+  waitingForLookAway: boolean; // Countdown is paused until the user looks away
+  nextPromptAt: number | null;
+}
+
+// Micro-break counts for one day, kept apart from full breaks
+export interface EyeBreakStats {
+  date: string; // Local date, YYYY-MM-DD
+  prompted: number;
+  completed: number;
+  confirmedByPose: number; // Completed with the pose stream seeing the head turned away
+  skipped: number;
+}
+
+export interface EyeBreakOptions {
+  intervalMinutes: number;
+  durationSeconds: number;
+  poseConfirm: boolean; // Only count down while the pose stream sees the user looking away
+}
+
+export const getEyeBreakOptions = (settings: Settings): EyeBreakOptions => ({
+  intervalMinutes: settings.eyeBreakInterval,
+  durationSeconds: settings.eyeBreakDuration,
+  poseConfirm: settings.eyeBreakPoseConfirm
+});
+
+const STATS_KEY = 'postureEyeBreakStats';
+const TICK_INTERVAL = 250;
+const PROMPT_TIMEOUT = 60000; // An unanswered prompt counts as skipped after a minute
+const DONE_DISPLAY_TIME = 3000;
+// Pose frames arrive at least every 4 seconds while the camera can see the
+// user. Without one for this long (camera off, detector failure) the look-away
+// can't be confirmed, so the countdown runs without it.
+const POSE_SIGNAL_TIMEOUT = 10000;
+
+const todayKey = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const emptyStats = (): EyeBreakStats => ({ date: todayKey(), prompted: 0, completed: 0, confirmedByPose: 0, skipped: 0 });
+
+/**
+ * Runs the 20-20-20 rule: every few minutes prompt the user to look at
+ * something far away for a few seconds. With pose confirmation the countdown
+ * only advances while the head is turned away from the screen, unless no
+ * pose data is arriving, in which case it runs unconfirmed.
+ */
+class EyeBreakReminder {
+  private options: EyeBreakOptions;
+  private onStateChange: (state: EyeBreakState) => void;
+  private onStatsChange: ((stats: EyeBreakStats) => void) | null;
+  private state: EyeBreakState;
+  private stats: EyeBreakStats;
+  private promptTimer: ReturnType<typeof setTimeout> | null = null;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+  private lastPoseSignal = 0;
+  private sawLookAway = false;
+
+  constructor(
+    options: EyeBreakOptions,
+    onStateChange: (state: EyeBreakState) => void,
+    onStatsChange?: (stats: EyeBreakStats) => void
+  ) {
+    this.options = { ...options };
+    this.onStateChange = onStateChange;
+    this.onStatsChange = onStatsChange || null;
+    this.stats = this.loadStats();
+    this.state = {
+      phase: 'idle',
+      remainingMs: options.durationSeconds * 1000,
+      durationMs: options.durationSeconds * 1000,
+      lookingAway: false,
+      waitingForLookAway: false,
+      nextPromptAt: null
+    };
+  }
+
+  start(): void {
+    if (this.state.phase !== 'idle' || this.state.nextPromptAt !== null) return; // Already running
+    this.scheduleNextPrompt();
+  }
+
+  stop(): void {
+    this.clearTimers();
+    this.setState({ phase: 'idle', nextPromptAt: null });
+  }
+
+  updateOptions(options: EyeBreakOptions): void {
+    const intervalChanged = options.intervalMinutes !== this.options.intervalMinutes;
+    this.options = { ...options };
+    if (intervalChanged && this.state.phase === 'idle' && this.state.nextPromptAt !== null) {
+      this.scheduleNextPrompt();
+    }
+  }
+
+  // Push the next prompt a full interval out, e.g. after a long break where
+  // the eyes got their rest anyway
+  reset(): void {
+    if (this.state.phase !== 'idle' || this.state.nextPromptAt === null) return;
+    this.clearTimers();
+    this.scheduleNextPrompt();
+  }
+
+  // Begin the countdown from the prompt
+  begin(): void {
+    if (this.state.phase !== 'prompt') return;
+    this.clearTimers();
+
+    const durationMs = this.options.durationSeconds * 1000;
+    this.sawLookAway = this.state.lookingAway;
+    this.lastTick = Date.now();
+    this.setState({
+      phase: 'countdown',
+      remainingMs: durationMs,
+      durationMs,
+      waitingForLookAway: this.options.poseConfirm && !this.state.lookingAway
+    });
+    this.tickTimer = setInterval(() => this.tick(), TICK_INTERVAL);
+
+    // Never leave the countdown up indefinitely, e.g. if the pose stream stops mid-way
+    this.promptTimer = setTimeout(() => {
+      console.log('Eye break countdown did not finish');
+      this.skip();
+    }, durationMs + PROMPT_TIMEOUT);
+  }
+
+  skip(): void {
+    if (this.state.phase !== 'prompt' && this.state.phase !== 'countdown') return;
+    this.countStat('skipped');
+    this.clearTimers();
+    this.scheduleNextPrompt();
+  }
+
+  setLookingAway(lookingAway: boolean): void {
+    if (lookingAway === this.state.lookingAway) return;
+
+    // Turning away from a prompt is as good as pressing Start
+    if (lookingAway && this.options.poseConfirm && this.state.phase === 'prompt') {
+      this.state = { ...this.state, lookingAway };
+      this.begin();
+      return;
+    }
+
+    if (lookingAway) this.sawLookAway = true;
+    this.setState({
+      lookingAway,
+      waitingForLookAway: this.state.phase === 'countdown' && this.options.poseConfirm && !lookingAway
+    });
+  }
+
+  // Called for every frame the pose stream read the user in
+  reportPoseSignal(timestamp: number = Date.now()): void {
+    this.lastPoseSignal = timestamp;
+  }
+
+  getState(): EyeBreakState {
+    return { ...this.state };
+  }
+
+  getStats(): EyeBreakStats {
+    this.rollStatsOver();
+    return { ...this.stats };
+  }
+
+  private scheduleNextPrompt(): void {
+    const delay = this.options.intervalMinutes * 60000;
+    this.promptTimer = setTimeout(() => this.prompt(), delay);
+    this.setState({ phase: 'idle', nextPromptAt: Date.now() + delay, waitingForLookAway: false });
+  }
+
+  private prompt(): void {
+    console.log('20-20-20 eye break due');
+    this.countStat('prompted');
+    this.setState({ phase: 'prompt', nextPromptAt: null, remainingMs: this.options.durationSeconds * 1000 });
+
+    this.promptTimer = setTimeout(() => {
+      console.log('Eye break prompt ignored');
+      this.skip();
+    }, PROMPT_TIMEOUT);
+
+    // Already looking away when the prompt appears
+    if (this.options.poseConfirm && this.state.lookingAway) {
+      this.begin();
+    }
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastTick;
+    this.lastTick = now;
+
+    if (this.options.poseConfirm && !this.state.lookingAway && this.hasPoseSignal(now)) {
+      this.setState({ waitingForLookAway: true });
+      return;
+    }
+
+    const remainingMs = Math.max(0, this.state.remainingMs - elapsed);
+    if (remainingMs > 0) {
+      this.setState({ remainingMs, waitingForLookAway: false });
+      return;
+    }
+
+    this.clearTimers();
+    this.countStat('completed');
+    if (this.options.poseConfirm && this.sawLookAway) {
+      this.countStat('confirmedByPose');
+    }
+    this.setState({ phase: 'done', remainingMs: 0, waitingForLookAway: false });
+    this.promptTimer = setTimeout(() => this.scheduleNextPrompt(), DONE_DISPLAY_TIME);
+  }
+
+  private hasPoseSignal(now: number): boolean {
+    return now - this.lastPoseSignal < POSE_SIGNAL_TIMEOUT;
+  }
+
+  private setState(changes: Partial<EyeBreakState>): void {
+    this.state = { ...this.state, ...changes };
+    this.onStateChange(this.getState());
+  }
+
+  private clearTimers(): void {
+    if (this.promptTimer) {
+      clearTimeout(this.promptTimer);
+      this.promptTimer = null;
+    }
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  private rollStatsOver(): void {
+    if (this.stats.date !== todayKey()) {
+      this.stats = emptyStats();
+    }
+  }
+
+  private countStat(key: Exclude<keyof EyeBreakStats, 'date'>): void {
+    this.rollStatsOver();
+    this.stats = { ...this.stats, [key]: this.stats[key] + 1 };
+    try {
+      localStorage.setItem(STATS_KEY, JSON.stringify(this.stats));
+    } catch (error) {
+      console.error('Error saving eye break stats:', error);
+    }
+    this.onStatsChange?.(this.getStats());
+  }
+
+  private loadStats(): EyeBreakStats {
+    try {
+      const stored = localStorage.getItem(STATS_KEY);
+      if (stored) {
+        const parsed: EyeBreakStats = JSON.parse(stored);
+        if (parsed.date === todayKey()) {
+          return { ...emptyStats(), ...parsed };
+        }
+      }
+    } catch (error) {
+      console.error('Error loading eye break stats:', error);
+    }
+    return emptyStats();
+  }
+}
+
+export default EyeBreakReminder;
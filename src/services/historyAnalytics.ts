@@ -0,0 +1,212 @@
+import type { MinuteRecord } from './historyStore';
+import {
+  ISSUE_CATEGORIES,
+  ISSUE_CATEGORY_LABELS,
+  PostureIssueCategory,
+  PostureIssueCode
+} from './postureIssues';
+
+export interface ScorePoint {
+  label: string;
+  start: number; // Start of the day or week (ms)
+  average: number | null;
+  samples: number;
+}
+
+export interface IssueCategoryTime {
+  category: PostureIssueCategory;
+  label: string;
+  minutes: number;
+}
+
+export interface BreakComplianceDay {
+  label: string;
+  start: number;
+  screenTime: number; // minutes
+  breaks: number;
+  expectedBreaks: number; // Breaks the reminder interval asked for
+  overdueMinutes: number; // Screen time spent past the reminder interval without a break
+  compliance: number; // Share of screen time within the reminder interval (0-100)
+}
+
+export interface HourlyScore {
+  hour: number; // 0-23, local time
+  label: string;
+  average: number | null;
+  samples: number;
+}
+
+export interface HistorySummary {
+  averageScore: number | null;
+  screenTime: number;
+  offHoursScreenTime: number;
+  breaks: number;
+  alertsShown: number;
+  alertsDismissed: number;
+  snoozes: number;
+}
+
+const MINUTE = 60000;
+const UNTRACKED_GAP = 10 * MINUTE; // Time with no records at all is treated as time away
+
+const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Weeks start on Monday
+const startOfWeek = (timestamp: number): number => {
+  const date = new Date(startOfDay(timestamp));
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+const formatDay = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const averageScores = (
+  minutes: MinuteRecord[],
+  bucketStart: (timestamp: number) => number,
+  label: (start: number) => string
+): ScorePoint[] => {
+  const buckets = new Map<number, { total: number; samples: number }>();
+
+  for (const minute of minutes) {
+    if (minute.samples === 0) continue;
+    const start = bucketStart(minute.timestamp);
+    const bucket = buckets.get(start) || { total: 0, samples: 0 };
+    bucket.total += minute.scoreTotal;
+    bucket.samples += minute.samples;
+    buckets.set(start, bucket);
+  }
+
+  return [...buckets.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([start, bucket]) => ({
+      label: label(start),
+      start,
+      average: Math.round((bucket.total / bucket.samples) * 10) / 10,
+      samples: bucket.samples
+    }));
+};
+
+export const getDailyAverages = (minutes: MinuteRecord[]): ScorePoint[] =>
+  averageScores(minutes, startOfDay, formatDay);
+
+export const getWeeklyAverages = (minutes: MinuteRecord[]): ScorePoint[] =>
+  averageScores(minutes, startOfWeek, start => `Week of ${formatDay(start)}`);
+
+// Each minute contributes the fraction of its samples that reported an issue,
+// so a minute with forward head in half the samples counts as 30 seconds
+export const getIssueCategoryTime = (minutes: MinuteRecord[], includeSetup: boolean = false): IssueCategoryTime[] => {
+  const totals = new Map<PostureIssueCategory, number>();
+
+  for (const minute of minutes) {
+    if (minute.samples === 0) continue;
+    for (const [code, count] of Object.entries(minute.issues)) {
+      const category = ISSUE_CATEGORIES[code as PostureIssueCode];
+      if (!category || (category === 'setup' && !includeSetup)) continue;
+      totals.set(category, (totals.get(category) || 0) + (count || 0) / minute.samples);
+    }
+  }
+
+  return [...totals.entries()]
+    .map(([category, total]) => ({
+      category,
+      label: ISSUE_CATEGORY_LABELS[category],
+      minutes: Math.round(total * 10) / 10
+    }))
+    .sort((a, b) => b.minutes - a.minutes);
+};
+
+// Compares when breaks were actually taken against the reminder interval.
+// Continuous screen time resets on a break, a new day, or a gap in tracking.
+// Off-hours screen time is left out since no reminders are given then.
+export const getBreakCompliance = (minutes: MinuteRecord[], reminderInterval: number): BreakComplianceDay[] => {
+  const days = new Map<number, BreakComplianceDay>();
+  const sorted = [...minutes].sort((a, b) => a.timestamp - b.timestamp);
+  let sinceBreak = 0;
+  let previous: MinuteRecord | null = null;
+
+  for (const minute of sorted) {
+    const start = startOfDay(minute.timestamp);
+    if (!previous || startOfDay(previous.timestamp) !== start || minute.timestamp - previous.timestamp > UNTRACKED_GAP) {
+      sinceBreak = 0;
+    }
+    previous = minute;
+
+    let day = days.get(start);
+    if (!day) {
+      day = { label: formatDay(start), start, screenTime: 0, breaks: 0, expectedBreaks: 0, overdueMinutes: 0, compliance: 100 };
+      days.set(start, day);
+    }
+
+    const workTime = minute.screenTime - (minute.offHoursScreenTime ?? 0);
+    if (workTime > 0) {
+      sinceBreak += workTime;
+      day.screenTime += workTime;
+      if (sinceBreak > reminderInterval) {
+        day.overdueMinutes += workTime;
+      }
+    }
+
+    if (minute.breaks > 0) {
+      day.breaks += minute.breaks;
+      sinceBreak = 0;
+    }
+  }
+
+  return [...days.values()]
+    .sort((a, b) => a.start - b.start)
+    .map(day => ({
+      ...day,
+      expectedBreaks: Math.floor(day.screenTime / reminderInterval),
+      compliance: day.screenTime > 0
+        ? Math.round((1 - day.overdueMinutes / day.screenTime) * 100)
+        : 100
+    }));
+};
+
+export const getHourlyScores = (minutes: MinuteRecord[]): HourlyScore[] => {
+  const hours = Array.from({ length: 24 }, (_, hour) => ({ total: 0, samples: 0, hour }));
+
+  for (const minute of minutes) {
+    const bucket = hours[new Date(minute.timestamp).getHours()];
+    bucket.total += minute.scoreTotal;
+    bucket.samples += minute.samples;
+  }
+
+  return hours.map(bucket => ({
+    hour: bucket.hour,
+    label: `${bucket.hour.toString().padStart(2, '0')}:00`,
+    average: bucket.samples > 0 ? Math.round((bucket.total / bucket.samples) * 10) / 10 : null,
+    samples: bucket.samples
+  }));
+};
+
+export const summarizeHistory = (minutes: MinuteRecord[]): HistorySummary => {
+  const totals = minutes.reduce(
+    (sum, minute) => ({
+      scoreTotal: sum.scoreTotal + minute.scoreTotal,
+      samples: sum.samples + minute.samples,
+      screenTime: sum.screenTime + minute.screenTime,
+      offHoursScreenTime: sum.offHoursScreenTime + (minute.offHoursScreenTime ?? 0),
+      breaks: sum.breaks + minute.breaks,
+      alertsShown: sum.alertsShown + minute.alertsShown,
+      alertsDismissed: sum.alertsDismissed + minute.alertsDismissed,
+      snoozes: sum.snoozes + (minute.snoozes ?? 0)
+    }),
+    { scoreTotal: 0, samples: 0, screenTime: 0, offHoursScreenTime: 0, breaks: 0, alertsShown: 0, alertsDismissed: 0, snoozes: 0 }
+  );
+
+  return {
+    averageScore: totals.samples > 0 ? Math.round((totals.scoreTotal / totals.samples) * 10) / 10 : null,
+    screenTime: totals.screenTime,
+    offHoursScreenTime: totals.offHoursScreenTime,
+    breaks: totals.breaks,
+    alertsShown: totals.alertsShown,
+    alertsDismissed: totals.alertsDismissed,
+    snoozes: totals.snoozes
+  };
+};
@@ -0,0 +1,192 @@
+import type { PostureIssueCode } from './postureIssues';
+
+// Counts of posture samples that reported each issue
+export type IssueCounts = Partial<Record<PostureIssueCode, number>>;
+
+// Everything that happened during one calendar minute of a session
+export interface MinuteRecord {
+  sessionId: string;
+  timestamp: number; // Start of the minute (ms)
+  scoreTotal: number; // Sum of posture scores, divide by samples for the average
+  samples: number;
+  minScore: number | null;
+  issues: IssueCounts;
+  screenTime: number; // Minutes of screen time counted during this minute (0 or 1)
+  offHoursScreenTime?: number; // The part of screenTime outside working hours, missing in older records
+  breaks: number;
+  alertsShown: number;
+  alertsDismissed: number;
+  snoozes?: number; // Alerts put off with a snooze, missing in older records
+}
+
+// Running totals for one monitoring session, from Start to Pause
+export interface SessionRecord {
+  id: string;
+  startTime: number;
+  endTime: number; // Last time the session was updated
+  scoreTotal: number;
+  samples: number;
+  issues: IssueCounts;
+  screenTime: number; // minutes
+  offHoursScreenTime?: number; // minutes, missing in older records
+  breaks: number;
+  alertsShown: number;
+  alertsDismissed: number;
+  snoozes?: number; // missing in older records
+}
+
+export interface HistoryImportResult {
+  sessionsAdded: number;
+  sessionsSkipped: number; // Already stored
+  minutesAdded: number;
+  minutesSkipped: number;
+}
+
+const DB_NAME = 'postureGuardHistory';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const MINUTE_STORE = 'minutes';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const getAverageScore = (record: { scoreTotal: number; samples: number }): number | null =>
+  record.samples > 0 ? record.scoreTotal / record.samples : null;
+
+/**
+ * Long-term tracking history kept in IndexedDB. Sessions and per-minute
+ * aggregates are stored separately so charts over months don't have to load
+ * every minute, and both can be queried by time range.
+ */
+class HistoryStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(SESSION_STORE)) {
+            const sessions = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+            sessions.createIndex('startTime', 'startTime');
+          }
+          if (!db.objectStoreNames.contains(MINUTE_STORE)) {
+            const minutes = db.createObjectStore(MINUTE_STORE, { keyPath: ['sessionId', 'timestamp'] });
+            minutes.createIndex('timestamp', 'timestamp');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a retry later if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  async saveSession(session: SessionRecord): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(SESSION_STORE, 'readwrite');
+    transaction.objectStore(SESSION_STORE).put(session);
+    await transactionDone(transaction);
+  }
+
+  async saveMinute(minute: MinuteRecord): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(MINUTE_STORE, 'readwrite');
+    transaction.objectStore(MINUTE_STORE).put(minute);
+    await transactionDone(transaction);
+  }
+
+  // Sessions that started within [from, to]
+  async getSessions(from: number, to: number): Promise<SessionRecord[]> {
+    const db = await this.open();
+    const index = db.transaction(SESSION_STORE).objectStore(SESSION_STORE).index('startTime');
+    return requestToPromise(index.getAll(IDBKeyRange.bound(from, to)) as IDBRequest<SessionRecord[]>);
+  }
+
+  // Minute aggregates within [from, to], oldest first
+  async getMinutes(from: number, to: number): Promise<MinuteRecord[]> {
+    const db = await this.open();
+    const index = db.transaction(MINUTE_STORE).objectStore(MINUTE_STORE).index('timestamp');
+    return requestToPromise(index.getAll(IDBKeyRange.bound(from, to)) as IDBRequest<MinuteRecord[]>);
+  }
+
+  async getSessionMinutes(sessionId: string): Promise<MinuteRecord[]> {
+    const db = await this.open();
+    const store = db.transaction(MINUTE_STORE).objectStore(MINUTE_STORE);
+    const range = IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+    return requestToPromise(store.getAll(range) as IDBRequest<MinuteRecord[]>);
+  }
+
+  // Add records that aren't stored yet; existing sessions and minutes are
+  // kept as they are so importing the same file twice changes nothing
+  async importRecords(sessions: SessionRecord[], minutes: MinuteRecord[]): Promise<HistoryImportResult> {
+    const db = await this.open();
+    const transaction = db.transaction([SESSION_STORE, MINUTE_STORE], 'readwrite');
+    const sessionStore = transaction.objectStore(SESSION_STORE);
+    const minuteStore = transaction.objectStore(MINUTE_STORE);
+
+    const sessionKeys = new Set((await requestToPromise(sessionStore.getAllKeys())).map(String));
+    const minuteKeys = new Set(
+      (await requestToPromise(minuteStore.getAllKeys())).map(key => JSON.stringify(key))
+    );
+
+    const result: HistoryImportResult = { sessionsAdded: 0, sessionsSkipped: 0, minutesAdded: 0, minutesSkipped: 0 };
+
+    for (const session of sessions) {
+      if (sessionKeys.has(session.id)) {
+        result.sessionsSkipped++;
+      } else {
+        sessionStore.put(session);
+        sessionKeys.add(session.id);
+        result.sessionsAdded++;
+      }
+    }
+
+    for (const minute of minutes) {
+      const key = JSON.stringify([minute.sessionId, minute.timestamp]);
+      if (minuteKeys.has(key)) {
+        result.minutesSkipped++;
+      } else {
+        minuteStore.put(minute);
+        minuteKeys.add(key);
+        result.minutesAdded++;
+      }
+    }
+
+    await transactionDone(transaction);
+    return result;
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([SESSION_STORE, MINUTE_STORE], 'readwrite');
+    transaction.objectStore(SESSION_STORE).clear();
+    transaction.objectStore(MINUTE_STORE).clear();
+    await transactionDone(transaction);
+  }
+}
+
+export const historyStore = new HistoryStore();
+
+export default HistoryStore;
@@ -0,0 +1,151 @@
+import PostureAnalyzer from './postureAnalyzer';
+import type { PoseDetectorBackend } from './poseDetectors';
+import type { PostureAnalysis, PoseLandmarks } from './tensorflowPoseService';
+import type { PostureBaseline } from './postureCalibration';
+import type { PostureRuleConfig } from './postureRules';
+import type { PostureIssueCode } from './postureIssues';
+
+export interface LandmarkFrame {
+  timestamp: number; // ms since the recording started
+  landmarks: PoseLandmarks | null; // null when no pose was detected in the frame
+}
+
+// A captured stream of raw landmarks plus the settings needed to score it
+// exactly as it was scored live
+export interface LandmarkRecording {
+  version: number;
+  detector: PoseDetectorBackend;
+  recordedAt: number; // timestamp of the first frame
+  baseline: PostureBaseline | null;
+  rules: PostureRuleConfig;
+  frames: LandmarkFrame[];
+}
+
+export interface ReplayUpdate {
+  timestamp: number; // ms since the recording started
+  analysis: PostureAnalysis;
+}
+
+// How a whole recording scored, to compare rule sets against each other
+export interface ReplaySummary {
+  readings: number;
+  averageScore: number;
+  issueCounts: Partial<Record<PostureIssueCode, number>>; // Readings that reported each issue
+}
+
+export const RECORDING_VERSION = 1;
+
+const MAX_RECORDING_FRAMES = 36000; // 2 hours at 5 fps
+
+class LandmarkRecorder {
+  private recording: LandmarkRecording | null = null;
+  private startTime = 0;
+
+  start(detector: PoseDetectorBackend, baseline: PostureBaseline | null, rules: PostureRuleConfig): void {
+    this.startTime = Date.now();
+    this.recording = {
+      version: RECORDING_VERSION,
+      detector,
+      recordedAt: this.startTime,
+      baseline,
+      rules,
+      frames: []
+    };
+    console.log('Landmark recording started');
+  }
+
+  record(landmarks: PoseLandmarks | null, timestamp: number = Date.now()): void {
+    if (!this.recording) return;
+
+    if (this.recording.frames.length >= MAX_RECORDING_FRAMES) {
+      console.warn('Landmark recording reached its frame limit, stopping');
+      this.stop();
+      return;
+    }
+
+    this.recording.frames.push({ timestamp: timestamp - this.startTime, landmarks });
+  }
+
+  stop(): LandmarkRecording | null {
+    const recording = this.recording;
+    this.recording = null;
+    if (recording) {
+      console.log(`Landmark recording stopped with ${recording.frames.length} frames`);
+    }
+    return recording;
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  getFrameCount(): number {
+    return this.recording ? this.recording.frames.length : 0;
+  }
+}
+
+export const downloadRecording = (recording: LandmarkRecording): void => {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `posture-recording-${new Date(recording.recordedAt).toISOString().replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const parseRecording = (text: string): LandmarkRecording => {
+  let parsed: LandmarkRecording;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Recording file is not valid JSON');
+  }
+
+  if (!parsed || !Array.isArray(parsed.frames) || !parsed.detector || !parsed.rules) {
+    throw new Error('File is not a posture landmark recording');
+  }
+  if (parsed.version > RECORDING_VERSION) {
+    throw new Error(`Recording version ${parsed.version} is newer than this app supports`);
+  }
+
+  return parsed;
+};
+
+// Score a whole recording as fast as possible. Frames go through the same
+// PostureAnalyzer as live detection, using the recording's own timestamps,
+// so the updates match what the user saw. Pass rules to re-score a recording
+// with different thresholds.
+export const replayRecording = (recording: LandmarkRecording, rules?: PostureRuleConfig): ReplayUpdate[] => {
+  const analyzer = new PostureAnalyzer(recording.detector, recording.baseline, undefined, rules || recording.rules);
+  const updates: ReplayUpdate[] = [];
+
+  for (const frame of recording.frames) {
+    if (!frame.landmarks) continue;
+
+    const analysis = analyzer.processLandmarks(frame.landmarks, recording.recordedAt + frame.timestamp);
+    if (analysis) {
+      updates.push({ timestamp: frame.timestamp, analysis: { ...analysis, replay: true } });
+    }
+  }
+
+  return updates;
+};
+
+export const summarizeReplay = (updates: ReplayUpdate[]): ReplaySummary => {
+  const issueCounts: Partial<Record<PostureIssueCode, number>> = {};
+  updates.forEach(update => {
+    update.analysis.issues.forEach(issue => {
+      issueCounts[issue.code] = (issueCounts[issue.code] ?? 0) + 1;
+    });
+  });
+
+  const totalScore = updates.reduce((sum, update) => sum + update.analysis.score, 0);
+  return {
+    readings: updates.length,
+    averageScore: updates.length > 0 ? totalScore / updates.length : 0,
+    issueCounts
+  };
+};
+
+export default LandmarkRecorder;
@@ -0,0 +1,143 @@
+import type { SnoozeTarget } from './snooze';
+import { registerServiceWorker } from './serviceWorker';
+
+// What a notification is about; the same targets that can be snoozed
+export type NotificationKind = SnoozeTarget;
+
+// 'open' is a click on the notification itself rather than one of its buttons
+export type NotificationAction = 'open' | 'take_break' | 'snooze' | 'stretch';
+
+interface NotificationMessage {
+  type: 'notification-action';
+  action: NotificationAction;
+  kind: NotificationKind;
+}
+
+const ACTIONS: Record<NotificationKind, { action: NotificationAction; title: string }[]> = {
+  break: [
+    { action: 'take_break', title: 'Take break' },
+    { action: 'snooze', title: 'Snooze 10 min' }
+  ],
+  posture: [
+    { action: 'stretch', title: 'Get stretch' },
+    { action: 'snooze', title: 'Snooze 10 min' }
+  ]
+};
+
+// Action buttons are only available on notifications shown by a service worker
+interface ServiceWorkerNotificationOptions extends NotificationOptions {
+  actions?: { action: string; title: string }[];
+}
+
+const tagFor = (kind: NotificationKind) => `posture-guard-${kind}`;
+
+/**
+ * Shows alerts as system notifications when the tab isn't in view. The
+ * notifications go through the service worker, which supports action buttons
+ * and sends clicks back here so the app can act on them.
+ */
+class NotificationService {
+  private registration: ServiceWorkerRegistration | null = null;
+  private onAction: ((action: NotificationAction, kind: NotificationKind) => void) | null = null;
+  private enabled = true;
+
+  constructor() {
+    this.handleMessage = this.handleMessage.bind(this);
+  }
+
+  async register(): Promise<void> {
+    this.registration = await registerServiceWorker();
+    if (!this.registration) {
+      console.log('No service worker, notifications will have no action buttons');
+      return;
+    }
+    navigator.serviceWorker.addEventListener('message', this.handleMessage);
+  }
+
+  // Receive notification clicks. Pass null to stop.
+  setActionListener(listener: ((action: NotificationAction, kind: NotificationKind) => void) | null): void {
+    this.onAction = listener;
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  isSupported(): boolean {
+    return typeof Notification !== 'undefined';
+  }
+
+  getPermission(): NotificationPermission | 'unsupported' {
+    return this.isSupported() ? Notification.permission : 'unsupported';
+  }
+
+  async requestPermission(): Promise<NotificationPermission | 'unsupported'> {
+    if (!this.isSupported()) return 'unsupported';
+    if (Notification.permission !== 'default') return Notification.permission;
+
+    try {
+      return await Notification.requestPermission();
+    } catch (error) {
+      console.error('Error requesting notification permission:', error);
+      return Notification.permission;
+    }
+  }
+
+  // Only notify when the in-page alert could go unseen
+  shouldNotify(): boolean {
+    return this.enabled &&
+      this.getPermission() === 'granted' &&
+      (document.hidden || !document.hasFocus());
+  }
+
+  async show(kind: NotificationKind, title: string, body: string): Promise<void> {
+    if (!this.shouldNotify()) return;
+
+    const options: ServiceWorkerNotificationOptions = {
+      body,
+      tag: tagFor(kind), // Replaces an earlier notification of the same kind
+      requireInteraction: kind === 'break',
+      data: { kind }
+    };
+
+    try {
+      if (this.registration) {
+        const withActions: ServiceWorkerNotificationOptions = { ...options, actions: ACTIONS[kind] };
+        await this.registration.showNotification(title, withActions);
+        return;
+      }
+
+      // Without the service worker there are no buttons, but a click still brings the tab up
+      const notification = new Notification(title, options);
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+        this.onAction?.('open', kind);
+      };
+    } catch (error) {
+      console.error('Error showing notification:', error);
+    }
+  }
+
+  // Clear a notification once the alert has been dealt with in the page
+  async close(kind: NotificationKind): Promise<void> {
+    if (!this.registration) return;
+
+    try {
+      const notifications = await this.registration.getNotifications({ tag: tagFor(kind) });
+      notifications.forEach(notification => notification.close());
+    } catch (error) {
+      console.error('Error closing notification:', error);
+    }
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    const message = event.data as NotificationMessage | undefined;
+    if (message?.type !== 'notification-action') return;
+
+    console.log(`Notification action: ${message.action} (${message.kind})`);
+    this.onAction?.(message.action, message.kind);
+  }
+}
+
+export default NotificationService;
@@ -0,0 +1,183 @@
+import * as poseDetection from '@tensorflow-models/pose-detection';
+import type { PoseLandmarks } from './tensorflowPoseService';
+
+export type PoseDetectorBackend =
+  | 'movenet-lightning'
+  | 'movenet-thunder'
+  | 'blazepose-tfjs'
+  | 'blazepose-mediapipe';
+
+export const DEFAULT_POSE_DETECTOR: PoseDetectorBackend = 'movenet-lightning';
+
+// Shown in the settings modal, ordered from fastest to most accurate
+export const POSE_DETECTOR_OPTIONS: { value: PoseDetectorBackend; label: string; description: string }[] = [
+  {
+    value: 'movenet-lightning',
+    label: 'MoveNet Lightning',
+    description: 'Fastest model, best for older or low-power laptops'
+  },
+  {
+    value: 'movenet-thunder',
+    label: 'MoveNet Thunder',
+    description: 'Slower than Lightning but noticeably more accurate'
+  },
+  {
+    value: 'blazepose-tfjs',
+    label: 'BlazePose (TensorFlow.js)',
+    description: 'Detailed 33-point model running on the WebGL backend'
+  },
+  {
+    value: 'blazepose-mediapipe',
+    label: 'BlazePose (MediaPipe)',
+    description: 'MediaPipe WASM runtime, fastest option on workstations'
+  }
+];
+
+// Where the @mediapipe/pose runtime loads its wasm and model files from. The
+// build copies them out of the installed package, see vite.config.ts.
+// Relative to the page, so it also works when the app is served from a sub-path.
+const getMediaPipeSolutionPath = () => new URL('mediapipe/pose', document.baseURI).href;
+
+type KeypointMap = { [K in keyof PoseLandmarks]: number };
+
+// MoveNet (COCO) keypoint indices
+const MOVENET_KEYPOINTS: KeypointMap = {
+  nose: 0,
+  leftEye: 1,
+  rightEye: 2,
+  leftEar: 3,
+  rightEar: 4,
+  leftShoulder: 5,
+  rightShoulder: 6,
+  leftElbow: 7,
+  rightElbow: 8,
+  leftWrist: 9,
+  rightWrist: 10,
+  leftHip: 11,
+  rightHip: 12,
+  leftKnee: 13,
+  rightKnee: 14,
+  leftAnkle: 15,
+  rightAnkle: 16,
+};
+
+// BlazePose keypoint indices (33-point topology, shared by both runtimes)
+const BLAZEPOSE_KEYPOINTS: KeypointMap = {
+  nose: 0,
+  leftEye: 2,
+  rightEye: 5,
+  leftEar: 7,
+  rightEar: 8,
+  leftShoulder: 11,
+  rightShoulder: 12,
+  leftElbow: 13,
+  rightElbow: 14,
+  leftWrist: 15,
+  rightWrist: 16,
+  leftHip: 23,
+  rightHip: 24,
+  leftKnee: 25,
+  rightKnee: 26,
+  leftAnkle: 27,
+  rightAnkle: 28,
+};
+
+export const createEmptyLandmarks = (): PoseLandmarks => {
+  const landmarks = {} as PoseLandmarks;
+  for (const name of Object.keys(MOVENET_KEYPOINTS) as (keyof PoseLandmarks)[]) {
+    landmarks[name] = { x: 0, y: 0, z: 0, visibility: 0 };
+  }
+  return landmarks;
+};
+
+/**
+ * Wraps a pose-detection detector and converts its keypoints into the
+ * PoseLandmarks shape used by the posture analysis. All backends report
+ * coordinates in video pixels, so the analysis thresholds behave the same
+ * regardless of which model produced them.
+ */
+class PoseDetectorAdapter {
+  readonly backend: PoseDetectorBackend;
+  private detector: poseDetection.PoseDetector;
+  private keypointMap: KeypointMap;
+
+  private constructor(backend: PoseDetectorBackend, detector: poseDetection.PoseDetector, keypointMap: KeypointMap) {
+    this.backend = backend;
+    this.detector = detector;
+    this.keypointMap = keypointMap;
+  }
+
+  static async create(backend: PoseDetectorBackend): Promise<PoseDetectorAdapter> {
+    console.log(`Creating pose detector: ${backend}`);
+
+    switch (backend) {
+      case 'movenet-lightning':
+      case 'movenet-thunder': {
+        const detectorConfig: poseDetection.MoveNetModelConfig = {
+          modelType: backend === 'movenet-thunder'
+            ? poseDetection.movenet.modelType.SINGLEPOSE_THUNDER
+            : poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING,
+          enableSmoothing: true,
+          minPoseScore: 0.1, // Much lower confidence threshold
+        };
+        const detector = await poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, detectorConfig);
+        return new PoseDetectorAdapter(backend, detector, MOVENET_KEYPOINTS);
+      }
+      case 'blazepose-tfjs': {
+        const detectorConfig: poseDetection.BlazePoseTfjsModelConfig = {
+          runtime: 'tfjs',
+          modelType: 'full',
+          enableSmoothing: true,
+        };
+        const detector = await poseDetection.createDetector(poseDetection.SupportedModels.BlazePose, detectorConfig);
+        return new PoseDetectorAdapter(backend, detector, BLAZEPOSE_KEYPOINTS);
+      }
+      case 'blazepose-mediapipe': {
+        const detectorConfig: poseDetection.BlazePoseMediaPipeModelConfig = {
+          runtime: 'mediapipe',
+          modelType: 'full',
+          enableSmoothing: true,
+          solutionPath: getMediaPipeSolutionPath(),
+        };
+        const detector = await poseDetection.createDetector(poseDetection.SupportedModels.BlazePose, detectorConfig);
+        return new PoseDetectorAdapter(backend, detector, BLAZEPOSE_KEYPOINTS);
+      }
+      default:
+        throw new Error(`Unsupported pose detector backend: ${backend}`);
+    }
+  }
+
+  // Returns null when no person was found in the frame
+  async estimateLandmarks(input: poseDetection.PoseDetectorInput): Promise<PoseLandmarks | null> {
+    const poses = await this.detector.estimatePoses(input);
+    if (!poses || poses.length === 0) {
+      return null;
+    }
+    return this.mapKeypoints(poses[0].keypoints);
+  }
+
+  dispose(): void {
+    try {
+      this.detector.dispose();
+    } catch (error) {
+      console.error(`Error disposing ${this.backend} detector:`, error);
+    }
+  }
+
+  private mapKeypoints(keypoints: poseDetection.Keypoint[]): PoseLandmarks {
+    const landmarks = createEmptyLandmarks();
+    for (const [name, index] of Object.entries(this.keypointMap) as [keyof PoseLandmarks, number][]) {
+      const kp = keypoints[index];
+      if (!kp) continue;
+      landmarks[name] = {
+        x: kp.x,
+        y: kp.y,
+        z: kp.z ?? 0, // MoveNet doesn't provide z coordinates
+        visibility: kp.score ?? 0
+      };
+    }
+    return landmarks;
+  }
+}
+
+export default PoseDetectorAdapter;
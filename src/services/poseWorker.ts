@@ -0,0 +1,108 @@
+import * as tf from '@tensorflow/tfjs';
+import '@tensorflow/tfjs-backend-webgl';
+import PoseDetectorAdapter, { PoseDetectorBackend } from './poseDetectors';
+import PostureAnalyzer, { CalibrationResult, FrameSignal, OverlayFrame } from './postureAnalyzer';
+import type { PostureAnalysis, PoseLandmarks } from './tensorflowPoseService';
+import type { PostureBaseline } from './postureCalibration';
+import type { PostureRuleConfig } from './postureRules';
+
+// Messages from TensorFlowPoseService to the worker
+export type PoseWorkerRequest =
+  | { type: 'init'; detector: PoseDetectorBackend; baseline: PostureBaseline | null; rules: PostureRuleConfig }
+  | { type: 'frame'; frame: ImageBitmap; timestamp: number }
+  | { type: 'setBaseline'; baseline: PostureBaseline | null }
+  | { type: 'setRules'; rules: PostureRuleConfig }
+  | { type: 'startCalibration'; durationMs: number }
+  | { type: 'cancelCalibration' };
+
+// Messages from the worker back to TensorFlowPoseService
+export type PoseWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string; fatal: boolean }
+  | {
+      type: 'frameProcessed';
+      analysis: PostureAnalysis | null;
+      signal: FrameSignal | null;
+      overlay: OverlayFrame | null;
+      landmarks: PoseLandmarks | null;
+      timestamp: number;
+    }
+  | { type: 'calibrationComplete'; result: CalibrationResult };
+
+// The DOM lib typings don't include DedicatedWorkerGlobalScope, but its
+// messaging surface matches Worker's
+const ctx = self as unknown as Worker;
+
+let detector: PoseDetectorAdapter | null = null;
+let analyzer: PostureAnalyzer | null = null;
+
+const post = (message: PoseWorkerResponse) => ctx.postMessage(message);
+
+const initialize = async (backend: PoseDetectorBackend, baseline: PostureBaseline | null, rules: PostureRuleConfig) => {
+  try {
+    await tf.ready();
+    console.log(`Pose worker: TensorFlow.js backend ready (${tf.getBackend()})`);
+
+    detector = await PoseDetectorAdapter.create(backend);
+    analyzer = new PostureAnalyzer(backend, baseline, (result) => {
+      post({ type: 'calibrationComplete', result });
+    }, rules);
+    post({ type: 'ready' });
+  } catch (error) {
+    console.error('Pose worker: initialization failed:', error);
+    post({ type: 'error', message: `${error}`, fatal: true });
+  }
+};
+
+const processFrame = async (frame: ImageBitmap, timestamp: number) => {
+  let analysis: PostureAnalysis | null = null;
+  let signal: FrameSignal | null = null;
+  let overlay: OverlayFrame | null = null;
+  let landmarks: PoseLandmarks | null = null;
+
+  try {
+    if (detector && analyzer) {
+      landmarks = await detector.estimateLandmarks(frame);
+      if (landmarks) {
+        analysis = analyzer.processLandmarks(landmarks, timestamp);
+        signal = analyzer.getFrameSignal();
+        overlay = analyzer.getOverlayFrame();
+      } else {
+        console.log('No poses detected');
+      }
+    }
+  } catch (error) {
+    console.error('Pose worker: error during pose detection:', error);
+  } finally {
+    frame.close();
+  }
+
+  // Always acknowledge so the main thread can send the next frame
+  // Raw landmarks go back too so the main thread can record them
+  post({ type: 'frameProcessed', analysis, signal, overlay, landmarks, timestamp });
+};
+
+ctx.onmessage = (event: MessageEvent<PoseWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      initialize(message.detector, message.baseline, message.rules);
+      break;
+    case 'frame':
+      processFrame(message.frame, message.timestamp);
+      break;
+    case 'setBaseline':
+      analyzer?.setBaseline(message.baseline);
+      break;
+    case 'setRules':
+      analyzer?.setRules(message.rules);
+      break;
+    case 'startCalibration':
+      analyzer?.startCalibration(message.durationMs);
+      break;
+    case 'cancelCalibration':
+      analyzer?.cancelCalibration();
+      break;
+  }
+};
@@ -0,0 +1,769 @@
+import { createEmptyLandmarks } from './poseDetectors';
+import type { PoseDetectorBackend } from './poseDetectors';
+import type { PostureAnalysis, PoseLandmarks } from './tensorflowPoseService';
+import {
+  PostureMetrics,
+  PostureBaseline,
+  MIN_CALIBRATION_SAMPLES,
+  createBaseline,
+  compareToBaseline
+} from './postureCalibration';
+import { createIssue, hasIssue } from './postureIssues';
+import type { PostureIssue, PostureIssueCode, PostureIssueSeverity } from './postureIssues';
+import { DEFAULT_POSTURE_RULES } from './postureRules';
+import type { PostureRuleConfig, MetricRule } from './postureRules';
+
+export type CalibrationResult = { baseline: PostureBaseline } | { error: string };
+
+// Per-frame summary used to decide how often to sample
+export interface FrameSignal {
+  score: number; // Unsmoothed score of the latest frame
+  developingIssue: boolean; // An issue has started showing up but isn't consistent enough to report yet
+  personVisible: boolean; // Enough of the upper body was visible to count someone as present
+  lookingAway: boolean; // Head turned well away from the screen
+}
+
+// What the latest frame looked like to the analyzer, for drawing over the video
+export interface OverlayFrame {
+  landmarks: PoseLandmarks; // Smoothed landmarks the metrics were measured on
+  issues: PostureIssue[]; // Rules violated in this frame, before the consistency filter
+  neckAngle: number;
+  shoulderAlignment: number;
+  headPosition: number;
+}
+
+// The measurement behind a camera-distance issue and the limit it crossed
+interface IssueMeasurement {
+  value: number;
+  threshold: number;
+}
+
+/**
+ * Turns a stream of raw landmarks into smoothed PostureAnalysis updates.
+ * Has no DOM dependencies so the same scoring runs on the main thread and
+ * inside the pose detection worker.
+ */
+class PostureAnalyzer {
+  private detectorBackend: PoseDetectorBackend;
+  private onCalibrationComplete: ((result: CalibrationResult) => void) | null;
+  private currentAnalysis: PostureAnalysis | null = null;
+  private lastFrameAnalysis: PostureAnalysis | null = null;
+  private lastFrameLandmarks: PoseLandmarks | null = null;
+  private lastFrameIssues: PostureIssue[] = [];
+  private lastUpdateTime = 0;
+  private postureHistory: PostureAnalysis[] = [];
+  private landmarkHistory: PoseLandmarks[] = []; // Store raw landmark data for smoothing
+  private readonly UPDATE_INTERVAL = 2000; // Update every 2 seconds for better responsiveness
+  private readonly SMOOTHING_WINDOW = 12; // Use last 12 readings for balanced smoothing
+  private readonly LANDMARK_SMOOTHING_WINDOW = 6; // Smooth landmarks over 6 readings
+  private issueConsistency: { [key: string]: number } = {}; // +1 per reading with the issue, -3 per reading without
+  private baseline: PostureBaseline | null;
+  private rules: PostureRuleConfig; // Thresholds, penalties and how many readings in a row an issue needs (consistencyThreshold)
+  private calibration: { samples: PostureMetrics[]; endsAt: number } | null = null;
+
+  constructor(
+    detectorBackend: PoseDetectorBackend,
+    baseline: PostureBaseline | null = null,
+    onCalibrationComplete?: (result: CalibrationResult) => void,
+    rules: PostureRuleConfig = DEFAULT_POSTURE_RULES
+  ) {
+    this.detectorBackend = detectorBackend;
+    this.baseline = baseline;
+    this.rules = rules;
+    this.onCalibrationComplete = onCalibrationComplete || null;
+  }
+
+  // Feed one frame of raw landmarks. Returns the smoothed analysis when an
+  // update is due (every UPDATE_INTERVAL), otherwise null.
+  processLandmarks(rawLandmarks: PoseLandmarks, now: number = Date.now()): PostureAnalysis | null {
+    // Add to landmark history for smoothing
+    this.landmarkHistory.push(rawLandmarks);
+    if (this.landmarkHistory.length > this.LANDMARK_SMOOTHING_WINDOW) {
+      this.landmarkHistory.shift();
+    }
+    
+    // Get smoothed landmarks
+    const landmarks = this.smoothLandmarks();
+    
+    if (this.calibration) {
+      this.recordCalibrationSample(landmarks, now);
+    }
+    
+    // Debug: Log key landmark visibility
+    console.log('Pose detection debug:', {
+      nose: landmarks.nose.visibility,
+      leftShoulder: landmarks.leftShoulder.visibility,
+      rightShoulder: landmarks.rightShoulder.visibility,
+      leftEar: landmarks.leftEar.visibility,
+      rightEar: landmarks.rightEar.visibility
+    });
+    
+    const analysis = this.analyzePosture(landmarks);
+    this.lastFrameAnalysis = analysis;
+    this.lastFrameLandmarks = landmarks;
+    
+    // Add to history for smoothing
+    this.postureHistory.push(analysis);
+    if (this.postureHistory.length > this.SMOOTHING_WINDOW) {
+      this.postureHistory.shift();
+    }
+    
+    // Only update if enough time has passed
+    if (now - this.lastUpdateTime >= this.UPDATE_INTERVAL) {
+      const smoothedAnalysis = this.smoothPostureAnalysis();
+      this.currentAnalysis = smoothedAnalysis;
+      this.lastUpdateTime = now;
+      return smoothedAnalysis;
+    }
+
+    return null;
+  }
+
+  getCurrentAnalysis(): PostureAnalysis | null {
+    return this.currentAnalysis;
+  }
+
+  getFrameSignal(): FrameSignal | null {
+    if (!this.lastFrameAnalysis) return null;
+
+    return {
+      score: this.lastFrameAnalysis.score,
+      developingIssue: Object.values(this.issueConsistency).some(
+        count => count > 0 && count < this.rules.consistencyThreshold
+      ),
+      personVisible: !hasIssue(this.lastFrameAnalysis.issues, 'not_in_frame'),
+      lookingAway: this.lastFrameLandmarks ? this.isLookingAway(this.lastFrameLandmarks) : false
+    };
+  }
+
+  getOverlayFrame(): OverlayFrame | null {
+    if (!this.lastFrameAnalysis || !this.lastFrameLandmarks) return null;
+
+    return {
+      landmarks: this.lastFrameLandmarks,
+      issues: this.lastFrameIssues,
+      neckAngle: this.lastFrameAnalysis.neckAngle,
+      shoulderAlignment: this.lastFrameAnalysis.shoulderAlignment,
+      headPosition: this.lastFrameAnalysis.headPosition
+    };
+  }
+
+  getBaseline(): PostureBaseline | null {
+    return this.baseline;
+  }
+
+  setBaseline(baseline: PostureBaseline | null): void {
+    this.baseline = baseline;
+    this.resetAnalysisHistory();
+  }
+
+  getRules(): PostureRuleConfig {
+    return this.rules;
+  }
+
+  setRules(rules: PostureRuleConfig): void {
+    this.rules = rules;
+    this.resetAnalysisHistory();
+  }
+
+  // Start collecting upright-posture samples; the result is reported through
+  // onCalibrationComplete once the window has elapsed
+  startCalibration(durationMs: number, now: number = Date.now()): void {
+    this.calibration = {
+      samples: [],
+      endsAt: now + durationMs
+    };
+  }
+
+  cancelCalibration(): void {
+    this.calibration = null;
+  }
+
+  private recordCalibrationSample(landmarks: PoseLandmarks, now: number): void {
+    if (!this.calibration) return;
+
+    if (this.countVisibleKeyLandmarks(landmarks) >= 2) {
+      this.calibration.samples.push(this.measurePosture(landmarks));
+    }
+
+    if (now < this.calibration.endsAt) return;
+
+    const { samples } = this.calibration;
+    this.calibration = null;
+
+    if (samples.length < MIN_CALIBRATION_SAMPLES) {
+      this.onCalibrationComplete?.({
+        error: `Only ${samples.length} usable frames were captured. Make sure your head and shoulders are visible and try again.`
+      });
+      return;
+    }
+
+    const baseline = createBaseline(samples, this.detectorBackend);
+    this.setBaseline(baseline);
+    console.log('Posture calibration complete:', baseline);
+    this.onCalibrationComplete?.({ baseline });
+  }
+
+  // Scores from before a baseline change aren't comparable with those after it
+  private resetAnalysisHistory(): void {
+    this.postureHistory = [];
+    this.issueConsistency = {};
+  }
+
+  private smoothLandmarks(): PoseLandmarks {
+    if (this.landmarkHistory.length === 0) {
+      return this.landmarkHistory[0] || createEmptyLandmarks();
+    }
+
+    // If we don't have enough history, return the most recent
+    if (this.landmarkHistory.length < 2) {
+      return this.landmarkHistory[this.landmarkHistory.length - 1];
+    }
+
+    // Calculate average positions for each landmark
+    const avgLandmarks: PoseLandmarks = {
+      nose: this.averageLandmark(this.landmarkHistory.map(l => l.nose)),
+      leftEye: this.averageLandmark(this.landmarkHistory.map(l => l.leftEye)),
+      rightEye: this.averageLandmark(this.landmarkHistory.map(l => l.rightEye)),
+      leftEar: this.averageLandmark(this.landmarkHistory.map(l => l.leftEar)),
+      rightEar: this.averageLandmark(this.landmarkHistory.map(l => l.rightEar)),
+      leftShoulder: this.averageLandmark(this.landmarkHistory.map(l => l.leftShoulder)),
+      rightShoulder: this.averageLandmark(this.landmarkHistory.map(l => l.rightShoulder)),
+      leftElbow: this.averageLandmark(this.landmarkHistory.map(l => l.leftElbow)),
+      rightElbow: this.averageLandmark(this.landmarkHistory.map(l => l.rightElbow)),
+      leftWrist: this.averageLandmark(this.landmarkHistory.map(l => l.leftWrist)),
+      rightWrist: this.averageLandmark(this.landmarkHistory.map(l => l.rightWrist)),
+      leftHip: this.averageLandmark(this.landmarkHistory.map(l => l.leftHip)),
+      rightHip: this.averageLandmark(this.landmarkHistory.map(l => l.rightHip)),
+      leftKnee: this.averageLandmark(this.landmarkHistory.map(l => l.leftKnee)),
+      rightKnee: this.averageLandmark(this.landmarkHistory.map(l => l.rightKnee)),
+      leftAnkle: this.averageLandmark(this.landmarkHistory.map(l => l.leftAnkle)),
+      rightAnkle: this.averageLandmark(this.landmarkHistory.map(l => l.rightAnkle))
+    };
+
+    return avgLandmarks;
+  }
+
+  private averageLandmark(landmarks: Array<{ x: number; y: number; z: number; visibility: number }>): { x: number; y: number; z: number; visibility: number } {
+    const validLandmarks = landmarks.filter(l => l.visibility > 0.1);
+    
+    if (validLandmarks.length === 0) {
+      return landmarks[0] || { x: 0, y: 0, z: 0, visibility: 0 };
+    }
+
+    const avgX = validLandmarks.reduce((sum, l) => sum + l.x, 0) / validLandmarks.length;
+    const avgY = validLandmarks.reduce((sum, l) => sum + l.y, 0) / validLandmarks.length;
+    const avgZ = validLandmarks.reduce((sum, l) => sum + l.z, 0) / validLandmarks.length;
+    const avgVisibility = validLandmarks.reduce((sum, l) => sum + l.visibility, 0) / validLandmarks.length;
+
+    return {
+      x: avgX,
+      y: avgY,
+      z: avgZ,
+      visibility: avgVisibility
+    };
+  }
+
+  private smoothPostureAnalysis(): PostureAnalysis {
+    if (this.postureHistory.length === 0) {
+      return this.currentAnalysis || {
+        score: 85,
+        issues: [],
+        feedback: 'Initializing posture analysis...',
+        neckAngle: 0,
+        shoulderAlignment: 0,
+        spineAlignment: 0,
+        headPosition: 0,
+        shoulderHeight: 0,
+        calibrated: this.baseline !== null
+      };
+    }
+
+    // Calculate average values
+    const avgScore = this.postureHistory.reduce((sum, analysis) => sum + analysis.score, 0) / this.postureHistory.length;
+    const avgNeckAngle = this.postureHistory.reduce((sum, analysis) => sum + analysis.neckAngle, 0) / this.postureHistory.length;
+    const avgShoulderAlignment = this.postureHistory.reduce((sum, analysis) => sum + analysis.shoulderAlignment, 0) / this.postureHistory.length;
+    const avgSpineAlignment = this.postureHistory.reduce((sum, analysis) => sum + analysis.spineAlignment, 0) / this.postureHistory.length;
+    const avgHeadPosition = this.postureHistory.reduce((sum, analysis) => sum + analysis.headPosition, 0) / this.postureHistory.length;
+    const avgShoulderHeight = this.postureHistory.reduce((sum, analysis) => sum + analysis.shoulderHeight, 0) / this.postureHistory.length;
+
+    // Get the most recent issues and feedback (don't average these)
+    const latestAnalysis = this.postureHistory[this.postureHistory.length - 1];
+    const { issues, feedback } = latestAnalysis;
+
+    // Reset consistency tracking if posture has improved significantly
+    if (avgScore > 8.0) {
+      this.issueConsistency = {};
+    }
+    
+    // Also reset individual issue counters if they haven't been detected recently
+    for (const [issue, count] of Object.entries(this.issueConsistency)) {
+      if (count === 0) {
+        delete this.issueConsistency[issue];
+      }
+    }
+
+    return {
+      score: Math.round(avgScore),
+      issues,
+      feedback,
+      neckAngle: Math.round(avgNeckAngle * 10) / 10,
+      shoulderAlignment: Math.round(avgShoulderAlignment * 10) / 10,
+      spineAlignment: Math.round(avgSpineAlignment * 10) / 10,
+      headPosition: Math.round(avgHeadPosition * 10) / 10,
+      shoulderHeight: Math.round(avgShoulderHeight * 10) / 10,
+      calibrated: latestAnalysis.calibrated
+    };
+  }
+
+  private analyzePosture(landmarks: PoseLandmarks): PostureAnalysis {
+    let totalScore = 10;
+    this.lastFrameIssues = [];
+
+    // Only require 2 out of 3 key landmarks to be visible
+    const visibleLandmarks = this.countVisibleKeyLandmarks(landmarks);
+    
+    if (visibleLandmarks < 2) {
+      console.log('Person detection debug:', {
+        nose: landmarks.nose.visibility,
+        leftShoulder: landmarks.leftShoulder.visibility,
+        rightShoulder: landmarks.rightShoulder.visibility,
+        visibleCount: visibleLandmarks
+      });
+      
+      // Check if user is too far away by looking at shoulder distance
+      const leftShoulder = landmarks.leftShoulder;
+      const rightShoulder = landmarks.rightShoulder;
+      
+      if (leftShoulder.visibility > 0.1 && rightShoulder.visibility > 0.1) {
+        const shoulderDistance = Math.sqrt(
+          Math.pow(leftShoulder.x - rightShoulder.x, 2) + 
+          Math.pow(leftShoulder.y - rightShoulder.y, 2)
+        );
+        
+        // If shoulders are very small, user is too far away
+        if (shoulderDistance < 0.1) {
+          return {
+            score: 5, // Lower score for being too far
+            issues: [createIssue('too_far_from_camera', 'moderate', shoulderDistance, 0.1)],
+            feedback: null,
+            neckAngle: 0,
+            shoulderAlignment: 0,
+            spineAlignment: 0,
+            headPosition: 0,
+            shoulderHeight: 0,
+            calibrated: false
+          };
+        }
+      }
+      
+      // Provide a neutral posture score for other detection issues
+      return {
+        score: 7.5, // Neutral score instead of 0 (7.5/10)
+        issues: [createIssue('not_in_frame', 'mild', visibleLandmarks, 2)],
+        feedback: null,
+        neckAngle: 0,
+        shoulderAlignment: 0,
+        spineAlignment: 0,
+        headPosition: 0,
+        shoulderHeight: 0,
+        calibrated: false
+      };
+    }
+
+    // Calculate all posture metrics, relative to the user's baseline when calibrated
+    const measured = this.measurePosture(landmarks);
+    const { neckAngle, shoulderAlignment, headPosition, shoulderHeight, spineAlignment } =
+      this.baseline ? compareToBaseline(measured, this.baseline) : measured;
+    const slouchOffset = this.calculateSlouchOffset(landmarks);
+    const headNeckScore = this.calculateHeadNeckScore(landmarks);
+    const tooCloseToCamera = this.detectTooCloseToCamera(landmarks);
+    const tooFarFromCamera = this.detectTooFarFromCamera(landmarks);
+
+    // Track potential issues (but don't immediately report them)
+    const potentialIssues: { [code: string]: PostureIssue } = {};
+    const flag = (code: PostureIssueCode, severity: PostureIssueSeverity, value: number, threshold: number) => {
+      potentialIssues[code] = createIssue(code, severity, value, threshold);
+    };
+
+    const rules = this.rules;
+
+    // Angle-style metrics, each reported in two tiers
+    totalScore -= this.applyMetricRule(rules.forwardHead, neckAngle, 'forward_head', 'slight_forward_head', flag);
+    totalScore -= this.applyMetricRule(rules.shoulderAlignment, shoulderAlignment, 'uneven_shoulders', 'slight_shoulder_imbalance', flag);
+    totalScore -= this.applyMetricRule(rules.headTilt, headPosition, 'head_tilt', 'slight_head_tilt', flag);
+    totalScore -= this.applyMetricRule(rules.shoulderHeight, shoulderHeight, 'shoulder_height_imbalance', 'slight_shoulder_height', flag);
+    totalScore -= this.applyMetricRule(rules.spineAlignment, spineAlignment, 'spine_alignment', 'slight_spine_deviation', flag);
+
+    // Check for slouching
+    if (rules.slouching.enabled && slouchOffset > rules.slouching.threshold) {
+      flag('slouching', 'moderate', slouchOffset, rules.slouching.threshold);
+      totalScore -= rules.slouching.penalty;
+    }
+
+    // Check head/neck alignment (lower scores are worse)
+    if (rules.headNeck.enabled) {
+      if (headNeckScore < rules.headNeck.threshold) {
+        flag('head_neck_alignment', 'moderate', headNeckScore, rules.headNeck.threshold);
+        totalScore -= rules.headNeck.penalty;
+      } else if (headNeckScore < rules.headNeck.slightThreshold) {
+        flag('slight_head_neck', 'mild', headNeckScore, rules.headNeck.slightThreshold);
+        totalScore -= rules.headNeck.slightPenalty;
+      }
+    }
+
+    if (rules.cameraDistance.enabled) {
+      // Check if too close to camera
+      if (tooCloseToCamera) {
+        flag('too_close_to_camera', 'moderate', tooCloseToCamera.value, tooCloseToCamera.threshold);
+        totalScore -= rules.cameraDistance.penalty;
+      }
+
+      // Check if too far from camera
+      if (tooFarFromCamera) {
+        flag('too_far_from_camera', 'moderate', tooFarFromCamera.value, tooFarFromCamera.threshold);
+        totalScore -= rules.cameraDistance.penalty;
+      }
+    }
+
+    // Update consistency tracking - reset counters for issues not currently detected
+    for (const [code, count] of Object.entries(this.issueConsistency)) {
+      if (!potentialIssues[code]) {
+        // Decrease counter more aggressively for issues not currently detected
+        this.issueConsistency[code] = Math.max(0, count - 3);
+      }
+    }
+    
+    // Increase counters for currently detected issues
+    for (const code of Object.keys(potentialIssues)) {
+      this.issueConsistency[code] = (this.issueConsistency[code] || 0) + 1;
+    }
+
+    // Only report issues that are consistent over time AND currently detected
+    this.lastFrameIssues = Object.values(potentialIssues);
+    const consistentIssues = Object.values(potentialIssues).filter(
+      issue => this.issueConsistency[issue.code] >= this.rules.consistencyThreshold
+    );
+
+    // Add positive feedback for good posture
+    let feedback: string | null = null;
+    if (totalScore >= 8.0) {
+      feedback = 'Excellent posture! Keep it up!';
+    } else if (totalScore >= 7.0) {
+      feedback = 'Good posture overall, minor adjustments needed';
+    } else if (totalScore >= 6.0) {
+      feedback = 'Posture is improving, keep working on it';
+    }
+
+    // Apply minimum score floor to allow natural variation
+    const finalScore = Math.max(2, Math.min(10, totalScore)); // Minimum score of 2 to allow more variation
+    
+    return {
+      score: finalScore,
+      issues: consistentIssues,
+      feedback,
+      neckAngle,
+      shoulderAlignment,
+      spineAlignment,
+      headPosition,
+      shoulderHeight,
+      calibrated: this.baseline !== null
+    };
+  }
+
+  // Flags the main or slight issue for a metric and returns the score penalty
+  private applyMetricRule(
+    rule: MetricRule,
+    value: number,
+    code: PostureIssueCode,
+    slightCode: PostureIssueCode,
+    flag: (code: PostureIssueCode, severity: PostureIssueSeverity, value: number, threshold: number) => void
+  ): number {
+    if (!rule.enabled) return 0;
+
+    if (value > rule.threshold) {
+      flag(code, this.rateSeverity(value, rule.threshold), value, rule.threshold);
+      return Math.min(rule.maxPenalty, value * rule.weight);
+    }
+    if (value > rule.slightThreshold) {
+      flag(slightCode, 'mild', value, rule.slightThreshold);
+      return Math.min(rule.slightMaxPenalty, value * rule.slightWeight);
+    }
+    return 0;
+  }
+
+  // Issues well past their threshold are reported as severe
+  private rateSeverity(value: number, threshold: number): PostureIssueSeverity {
+    return value >= threshold * 1.5 ? 'severe' : 'moderate';
+  }
+
+  // Head yaw estimate: with the face toward the camera the nose sits between
+  // the ears. Turning the head slides it toward one ear and eventually hides
+  // the other, and facing fully away hides the nose.
+  private isLookingAway(landmarks: PoseLandmarks): boolean {
+    const { nose, leftEar, rightEar, leftShoulder, rightShoulder } = landmarks;
+    const shouldersVisible = leftShoulder.visibility > 0.3 && rightShoulder.visibility > 0.3;
+    const leftEarVisible = leftEar.visibility > 0.3;
+    const rightEarVisible = rightEar.visibility > 0.3;
+
+    if (nose.visibility <= 0.3) return shouldersVisible;
+    if (leftEarVisible !== rightEarVisible) return true;
+    if (!leftEarVisible) return false;
+
+    const earDistance = Math.abs(leftEar.x - rightEar.x);
+    if (earDistance === 0) return false;
+    const offset = (nose.x - (leftEar.x + rightEar.x) / 2) / earDistance;
+    return Math.abs(offset) > 0.35;
+  }
+
+  private countVisibleKeyLandmarks(landmarks: PoseLandmarks): number {
+    // Check if landmarks are visible - MUCH MORE LENIENT
+    const noseVisible = landmarks.nose.visibility > 0.2; // Reduced from 0.5 to 0.2
+    const leftShoulderVisible = landmarks.leftShoulder.visibility > 0.2; // Reduced from 0.5 to 0.2
+    const rightShoulderVisible = landmarks.rightShoulder.visibility > 0.2; // Reduced from 0.5 to 0.2
+
+    return [noseVisible, leftShoulderVisible, rightShoulderVisible].filter(Boolean).length;
+  }
+
+  private measurePosture(landmarks: PoseLandmarks): PostureMetrics {
+    return {
+      neckAngle: this.calculateNeckAngle(landmarks),
+      shoulderAlignment: this.calculateShoulderAlignment(landmarks),
+      spineAlignment: this.calculateSpineAlignment(landmarks),
+      headPosition: this.calculateHeadPosition(landmarks),
+      shoulderHeight: this.calculateShoulderHeight(landmarks)
+    };
+  }
+
+  private calculateNeckAngle(landmarks: PoseLandmarks): number {
+    const nose = landmarks.nose;
+    const leftEar = landmarks.leftEar;
+    const leftShoulder = landmarks.leftShoulder;
+
+    if (nose.visibility < 0.5 || leftEar.visibility < 0.5 || leftShoulder.visibility < 0.5) {
+      return 0;
+    }
+
+    // Vector from shoulder to ear
+    const vec1X = leftEar.x - leftShoulder.x;
+    const vec1Y = leftEar.y - leftShoulder.y;
+
+    // Vector from ear to nose
+    const vec2X = nose.x - leftEar.x;
+    const vec2Y = nose.y - leftEar.y;
+
+    // Dot product
+    const dotProduct = vec1X * vec2X + vec1Y * vec2Y;
+
+    // Magnitudes
+    const mag1 = Math.sqrt(vec1X * vec1X + vec1Y * vec1Y);
+    const mag2 = Math.sqrt(vec2X * vec2X + vec2Y * vec2Y);
+
+    if (mag1 === 0 || mag2 === 0) return 0;
+
+    // Angle in radians
+    const angleRad = Math.acos(Math.max(-1, Math.min(1, dotProduct / (mag1 * mag2))));
+
+    // Convert to degrees
+    const angleDeg = angleRad * 180 / Math.PI;
+
+    // A perfectly straight neck might be around 180 degrees.
+    // A smaller angle indicates forward head posture.
+    return Math.max(0, 180 - angleDeg);
+  }
+
+  private calculateShoulderAlignment(landmarks: PoseLandmarks): number {
+    const leftShoulder = landmarks.leftShoulder;
+    const rightShoulder = landmarks.rightShoulder;
+
+    if (leftShoulder.visibility < 0.5 || rightShoulder.visibility < 0.5) {
+      return 0;
+    }
+
+    // Calculate the angle of the line connecting the two shoulders relative to the horizontal
+    const angleRad = Math.atan2(rightShoulder.y - leftShoulder.y, rightShoulder.x - leftShoulder.x);
+    const angleDeg = Math.abs(angleRad * 180 / Math.PI);
+
+    // We want deviation from 0 degrees (perfectly horizontal)
+    return angleDeg;
+  }
+
+  private calculateSpineAlignment(landmarks: PoseLandmarks): number {
+    const leftShoulder = landmarks.leftShoulder;
+    const rightShoulder = landmarks.rightShoulder;
+    const leftHip = landmarks.leftHip;
+    const rightHip = landmarks.rightHip;
+
+    if (leftShoulder.visibility < 0.5 || rightShoulder.visibility < 0.5 ||
+        leftHip.visibility < 0.5 || rightHip.visibility < 0.5) {
+      return 0;
+    }
+
+    // Midpoint of shoulders
+    const shoulderMidX = (leftShoulder.x + rightShoulder.x) / 2;
+    const shoulderMidY = (leftShoulder.y + rightShoulder.y) / 2;
+
+    // Midpoint of hips
+    const hipMidX = (leftHip.x + rightHip.x) / 2;
+    const hipMidY = (leftHip.y + rightHip.y) / 2;
+
+    // Angle of the torso line (shoulder midpoint to hip midpoint) relative to vertical
+    const angleRad = Math.atan2(hipMidX - shoulderMidX, hipMidY - shoulderMidY);
+    const angleDeg = Math.abs(angleRad * 180 / Math.PI);
+
+    // Deviation from 0 degrees (perfectly vertical)
+    return angleDeg;
+  }
+
+  private calculateHeadPosition(landmarks: PoseLandmarks): number {
+    const leftEar = landmarks.leftEar;
+    const rightEar = landmarks.rightEar;
+    const nose = landmarks.nose;
+
+    if (leftEar.visibility < 0.5 || rightEar.visibility < 0.5 || nose.visibility < 0.5) {
+      return 0;
+    }
+
+    // Angle of the line connecting ears relative to horizontal (for head tilt)
+    const earAngleRad = Math.atan2(rightEar.y - leftEar.y, rightEar.x - leftEar.x);
+    const earAngleDeg = Math.abs(earAngleRad * 180 / Math.PI);
+
+    return earAngleDeg;
+  }
+
+  private calculateShoulderHeight(landmarks: PoseLandmarks): number {
+    const leftShoulder = landmarks.leftShoulder;
+    const rightShoulder = landmarks.rightShoulder;
+
+    if (leftShoulder.visibility < 0.5 || rightShoulder.visibility < 0.5) {
+      return 0;
+    }
+
+    return Math.abs(leftShoulder.y - rightShoulder.y) * 10;
+  }
+
+  // How far the shoulders sit forward of the hips; 0 when not measurable
+  private calculateSlouchOffset(landmarks: PoseLandmarks): number {
+    const leftShoulder = landmarks.leftShoulder;
+    const rightShoulder = landmarks.rightShoulder;
+    const leftHip = landmarks.leftHip;
+    const rightHip = landmarks.rightHip;
+
+    if (leftShoulder.visibility < 0.5 || rightShoulder.visibility < 0.5 || 
+        leftHip.visibility < 0.5 || rightHip.visibility < 0.5) {
+      return 0;
+    }
+
+    // Check if shoulders are significantly forward of hips
+    const shoulderCenterX = (leftShoulder.x + rightShoulder.x) / 2;
+    const hipCenterX = (leftHip.x + rightHip.x) / 2;
+
+    return Math.max(0, shoulderCenterX - hipCenterX);
+  }
+
+  private calculateHeadNeckScore(landmarks: PoseLandmarks): number {
+    const nose = landmarks.nose;
+    const leftEar = landmarks.leftEar;
+    const rightEar = landmarks.rightEar;
+    const leftShoulder = landmarks.leftShoulder;
+    const rightShoulder = landmarks.rightShoulder;
+
+    if (nose.visibility < 0.5 || leftEar.visibility < 0.5 || rightEar.visibility < 0.5 || 
+        leftShoulder.visibility < 0.5 || rightShoulder.visibility < 0.5) {
+      return 0;
+    }
+
+    let score = 10;
+
+    // Check head alignment with shoulders
+    const earCenterY = (leftEar.y + rightEar.y) / 2;
+    const shoulderCenterY = (leftShoulder.y + rightShoulder.y) / 2;
+    const headShoulderAlignment = Math.abs(earCenterY - shoulderCenterY);
+    
+    if (headShoulderAlignment > 0.15) {
+      score -= Math.min(2, headShoulderAlignment * 15);
+    }
+
+    // Check head tilt
+    const headTilt = Math.abs(leftEar.y - rightEar.y);
+    if (headTilt > 0.08) {
+      score -= Math.min(1.8, headTilt * 20);
+    }
+
+    // Check forward head posture
+    const noseShoulderDistance = Math.abs(nose.x - (leftShoulder.x + rightShoulder.x) / 2);
+    if (noseShoulderDistance > 0.2) {
+      score -= Math.min(2.5, noseShoulderDistance * 10);
+    }
+
+    return Math.max(0, score);
+  }
+
+  private detectTooCloseToCamera(landmarks: PoseLandmarks): IssueMeasurement | null {
+    const leftShoulder = landmarks.leftShoulder;
+    const rightShoulder = landmarks.rightShoulder;
+    const nose = landmarks.nose;
+
+    if (leftShoulder.visibility < 0.5 || rightShoulder.visibility < 0.5 || nose.visibility < 0.5) {
+      return null;
+    }
+
+    // Calculate the distance between shoulders (shoulder width)
+    const shoulderDistance = Math.sqrt(
+      Math.pow(leftShoulder.x - rightShoulder.x, 2) + 
+      Math.pow(leftShoulder.y - rightShoulder.y, 2)
+    );
+
+    // Calculate the distance from nose to shoulder center
+    const shoulderCenterX = (leftShoulder.x + rightShoulder.x) / 2;
+    const shoulderCenterY = (leftShoulder.y + rightShoulder.y) / 2;
+    const noseToShoulderDistance = Math.sqrt(
+      Math.pow(nose.x - shoulderCenterX, 2) + 
+      Math.pow(nose.y - shoulderCenterY, 2)
+    );
+
+    // If the person is too close, the shoulder distance will be very large relative to the image
+    // and the nose-to-shoulder distance will be small relative to shoulder width
+    const distanceRatio = noseToShoulderDistance / shoulderDistance;
+    
+    // If shoulders take up more than 80% of the image width or nose is very close to shoulders
+    if (shoulderDistance > 0.8) return { value: shoulderDistance, threshold: 0.8 };
+    if (distanceRatio < 0.3) return { value: distanceRatio, threshold: 0.3 };
+    return null;
+  }
+
+  private detectTooFarFromCamera(landmarks: PoseLandmarks): IssueMeasurement | null {
+    const leftShoulder = landmarks.leftShoulder;
+    const rightShoulder = landmarks.rightShoulder;
+    const nose = landmarks.nose;
+
+    if (leftShoulder.visibility < 0.5 || rightShoulder.visibility < 0.5 || nose.visibility < 0.5) {
+      return null;
+    }
+
+    // Calculate the distance between shoulders (shoulder width)
+    const shoulderDistance = Math.sqrt(
+      Math.pow(leftShoulder.x - rightShoulder.x, 2) + 
+      Math.pow(leftShoulder.y - rightShoulder.y, 2)
+    );
+
+    // Calculate the distance from nose to shoulder center
+    const shoulderCenterX = (leftShoulder.x + rightShoulder.x) / 2;
+    const shoulderCenterY = (leftShoulder.y + rightShoulder.y) / 2;
+    const noseToShoulderDistance = Math.sqrt(
+      Math.pow(nose.x - shoulderCenterX, 2) + 
+      Math.pow(nose.y - shoulderCenterY, 2)
+    );
+
+    // If the person is too far, the shoulder distance will be very small relative to the image
+    // and the nose-to-shoulder distance will be large relative to shoulder width
+    const distanceRatio = noseToShoulderDistance / shoulderDistance;
+    
+    // If shoulders take up less than 15% of the image width or nose is very far from shoulders
+    if (shoulderDistance < 0.15) return { value: shoulderDistance, threshold: 0.15 };
+    if (distanceRatio > 0.8) return { value: distanceRatio, threshold: 0.8 };
+    return null;
+  }
+}
+
+export default PostureAnalyzer;
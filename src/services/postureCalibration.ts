@@ -0,0 +1,96 @@
+import type { PoseDetectorBackend } from './poseDetectors';
+
+// Raw posture metrics measured from a single set of landmarks
+export interface PostureMetrics {
+  neckAngle: number;
+  shoulderAlignment: number;
+  spineAlignment: number;
+  headPosition: number;
+  shoulderHeight: number;
+}
+
+// A user's "sitting up straight" reference, recorded during calibration
+export interface PostureBaseline extends PostureMetrics {
+  detector: PoseDetectorBackend; // Metrics differ between models, so a baseline only applies to the one it was recorded with
+  sampleCount: number;
+  recordedAt: number; // timestamp
+}
+
+export const CALIBRATION_DURATION = 10000; // 10 seconds of upright sitting
+export const MIN_CALIBRATION_SAMPLES = 15; // Roughly 1.5 fps over the window, enough for a stable median
+
+const STORAGE_KEY = 'postureCalibrationBaseline';
+
+const METRIC_KEYS: (keyof PostureMetrics)[] = [
+  'neckAngle',
+  'shoulderAlignment',
+  'spineAlignment',
+  'headPosition',
+  'shoulderHeight'
+];
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Median of each metric over the calibration window. The metric calculators
+// return 0 when the landmarks they need aren't visible, so zeros are ignored.
+export const createBaseline = (samples: PostureMetrics[], detector: PoseDetectorBackend): PostureBaseline => {
+  const baseline = {
+    detector,
+    sampleCount: samples.length,
+    recordedAt: Date.now()
+  } as PostureBaseline;
+
+  for (const key of METRIC_KEYS) {
+    baseline[key] = median(samples.map(sample => sample[key]).filter(value => value !== 0));
+  }
+
+  return baseline;
+};
+
+// How far each metric has drifted from the baseline. Forward head only counts
+// in one direction; the tilt and alignment metrics count either way.
+export const compareToBaseline = (metrics: PostureMetrics, baseline: PostureBaseline): PostureMetrics => {
+  const deviation = { ...metrics };
+
+  for (const key of METRIC_KEYS) {
+    // Nothing to compare against if either side couldn't be measured
+    if (metrics[key] === 0 || baseline[key] === 0) continue;
+
+    deviation[key] = key === 'neckAngle'
+      ? Math.max(0, metrics[key] - baseline[key])
+      : Math.abs(metrics[key] - baseline[key]);
+  }
+
+  return deviation;
+};
+
+export const loadBaseline = (): PostureBaseline | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error loading posture baseline:', error);
+    return null;
+  }
+};
+
+export const saveBaseline = (baseline: PostureBaseline): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(baseline));
+  } catch (error) {
+    console.error('Error saving posture baseline:', error);
+  }
+};
+
+export const clearBaseline = (): void => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing posture baseline:', error);
+  }
+};
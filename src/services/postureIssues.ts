@@ -0,0 +1,128 @@
+export type PostureIssueCode =
+  | 'forward_head'
+  | 'slight_forward_head'
+  | 'uneven_shoulders'
+  | 'slight_shoulder_imbalance'
+  | 'head_tilt'
+  | 'slight_head_tilt'
+  | 'shoulder_height_imbalance'
+  | 'slight_shoulder_height'
+  | 'spine_alignment'
+  | 'slight_spine_deviation'
+  | 'slouching'
+  | 'head_neck_alignment'
+  | 'slight_head_neck'
+  | 'too_close_to_camera'
+  | 'too_far_from_camera'
+  | 'not_in_frame';
+
+export type PostureIssueSeverity = 'mild' | 'moderate' | 'severe';
+
+export interface PostureIssue {
+  code: PostureIssueCode;
+  severity: PostureIssueSeverity;
+  value: number; // The measured metric that triggered the issue
+  threshold: number; // The threshold it crossed
+  message: string; // Display text, see ISSUE_MESSAGES
+}
+
+// Human-readable text for each issue. Kept separate from the detection logic
+// so alerts, analytics and the AI prompt can all work from the codes.
+export const ISSUE_MESSAGES: Record<PostureIssueCode, string> = {
+  forward_head: 'Forward head posture - Try pulling your chin back and aligning your ears over your shoulders',
+  slight_forward_head: 'Slight forward head - Gently tuck your chin and lengthen the back of your neck',
+  uneven_shoulders: 'Uneven shoulders - Try to level your shoulders by relaxing the higher one',
+  slight_shoulder_imbalance: 'Slight shoulder imbalance - Focus on keeping both shoulders at the same height',
+  head_tilt: 'Head tilted - Try to keep your head level and centered',
+  slight_head_tilt: 'Slight head tilt - Gently straighten your head to center',
+  shoulder_height_imbalance: 'Shoulder height imbalance - Relax your shoulders and let them hang naturally',
+  slight_shoulder_height: 'Slight shoulder height difference - Focus on keeping shoulders level',
+  spine_alignment: 'Poor spine alignment - Sit up straight, imagine a string pulling you up from the top of your head',
+  slight_spine_deviation: 'Slight spine deviation - Gently straighten your back and engage your core',
+  slouching: 'Slouching detected - Roll your shoulders back and down, open your chest',
+  head_neck_alignment: 'Poor head and neck alignment - Try to align your head directly over your shoulders',
+  slight_head_neck: 'Slight head/neck misalignment - Gently adjust your head position',
+  too_close_to_camera: 'Too close to camera - Move back to get better posture detection',
+  too_far_from_camera: 'Too far from camera - Move closer for better posture detection',
+  not_in_frame: 'Position yourself more clearly in front of the camera for better detection'
+};
+
+// Short labels for charts, badges and prompts
+export const ISSUE_LABELS: Record<PostureIssueCode, string> = {
+  forward_head: 'Forward head',
+  slight_forward_head: 'Slight forward head',
+  uneven_shoulders: 'Uneven shoulders',
+  slight_shoulder_imbalance: 'Slight shoulder imbalance',
+  head_tilt: 'Head tilt',
+  slight_head_tilt: 'Slight head tilt',
+  shoulder_height_imbalance: 'Shoulder height imbalance',
+  slight_shoulder_height: 'Slight shoulder height difference',
+  spine_alignment: 'Spine alignment',
+  slight_spine_deviation: 'Slight spine deviation',
+  slouching: 'Slouching',
+  head_neck_alignment: 'Head/neck alignment',
+  slight_head_neck: 'Slight head/neck misalignment',
+  too_close_to_camera: 'Too close to camera',
+  too_far_from_camera: 'Too far from camera',
+  not_in_frame: 'Not in frame'
+};
+
+// Issues about camera placement rather than the user's posture
+export const SETUP_ISSUE_CODES: PostureIssueCode[] = ['too_close_to_camera', 'too_far_from_camera', 'not_in_frame'];
+
+export type PostureIssueCategory = 'head_neck' | 'shoulders' | 'spine' | 'setup';
+
+// Body area each issue belongs to, for grouping in analytics
+export const ISSUE_CATEGORIES: Record<PostureIssueCode, PostureIssueCategory> = {
+  forward_head: 'head_neck',
+  slight_forward_head: 'head_neck',
+  head_tilt: 'head_neck',
+  slight_head_tilt: 'head_neck',
+  head_neck_alignment: 'head_neck',
+  slight_head_neck: 'head_neck',
+  uneven_shoulders: 'shoulders',
+  slight_shoulder_imbalance: 'shoulders',
+  shoulder_height_imbalance: 'shoulders',
+  slight_shoulder_height: 'shoulders',
+  spine_alignment: 'spine',
+  slight_spine_deviation: 'spine',
+  slouching: 'spine',
+  too_close_to_camera: 'setup',
+  too_far_from_camera: 'setup',
+  not_in_frame: 'setup'
+};
+
+export const ISSUE_CATEGORY_LABELS: Record<PostureIssueCategory, string> = {
+  head_neck: 'Head & neck',
+  shoulders: 'Shoulders',
+  spine: 'Spine & slouching',
+  setup: 'Camera setup'
+};
+
+export const createIssue = (
+  code: PostureIssueCode,
+  severity: PostureIssueSeverity,
+  value: number,
+  threshold: number
+): PostureIssue => ({
+  code,
+  severity,
+  value: Math.round(value * 100) / 100,
+  threshold,
+  message: ISSUE_MESSAGES[code]
+});
+
+export const hasIssue = (issues: PostureIssue[], ...codes: PostureIssueCode[]): boolean =>
+  issues.some(issue => codes.includes(issue.code));
+
+const SEVERITY_RANK: Record<PostureIssueSeverity, number> = { mild: 0, moderate: 1, severe: 2 };
+
+// The issue to lead with in alerts: the most severe posture issue, falling
+// back to camera setup issues only when nothing else was detected
+export const getMainIssue = (issues: PostureIssue[]): PostureIssue | null => {
+  const ranked = [...issues].sort((a, b) => {
+    const setupDiff = Number(SETUP_ISSUE_CODES.includes(a.code)) - Number(SETUP_ISSUE_CODES.includes(b.code));
+    return setupDiff !== 0 ? setupDiff : SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity];
+  });
+  return ranked[0] || null;
+};
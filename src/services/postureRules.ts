@@ -0,0 +1,142 @@
+// Rule for an angle-style metric that is reported in two tiers. The penalty
+// grows with the metric (value * weight) up to maxPenalty.
+export interface MetricRule {
+  enabled: boolean;
+  threshold: number; // Above this the main issue is reported
+  weight: number;
+  maxPenalty: number;
+  slightThreshold: number; // Above this (but below threshold) the "slight" issue is reported
+  slightWeight: number;
+  slightMaxPenalty: number;
+}
+
+// Head/neck alignment is a 0-10 score where lower is worse, so it triggers
+// below its thresholds and costs a flat penalty
+export interface HeadNeckRule {
+  enabled: boolean;
+  threshold: number;
+  penalty: number;
+  slightThreshold: number;
+  slightPenalty: number;
+}
+
+export const HEAD_NECK_SCORE_MAX = 10;
+
+export interface SlouchingRule {
+  enabled: boolean;
+  threshold: number; // How far the shoulders sit forward of the hips
+  penalty: number;
+}
+
+export interface CameraDistanceRule {
+  enabled: boolean;
+  penalty: number; // Applied for both too close and too far
+}
+
+export interface PostureRuleConfig {
+  forwardHead: MetricRule;
+  shoulderAlignment: MetricRule;
+  headTilt: MetricRule;
+  shoulderHeight: MetricRule;
+  spineAlignment: MetricRule;
+  slouching: SlouchingRule;
+  headNeck: HeadNeckRule;
+  cameraDistance: CameraDistanceRule;
+  consistencyThreshold: number; // Frames an issue must persist for before it is reported
+}
+
+export type PostureRulePreset = 'strict' | 'balanced' | 'lenient';
+
+export type MetricRuleKey = 'forwardHead' | 'shoulderAlignment' | 'headTilt' | 'shoulderHeight' | 'spineAlignment';
+
+export const METRIC_RULE_LABELS: Record<MetricRuleKey, string> = {
+  forwardHead: 'Forward head (neck angle °)',
+  shoulderAlignment: 'Shoulder alignment (°)',
+  headTilt: 'Head tilt (°)',
+  shoulderHeight: 'Shoulder height difference',
+  spineAlignment: 'Spine alignment (°)'
+};
+
+// The values the analyzer has always used, with head/neck on its 0-10 score scale
+const BALANCED_RULES: PostureRuleConfig = {
+  forwardHead: { enabled: true, threshold: 30, weight: 0.08, maxPenalty: 2.0, slightThreshold: 20, slightWeight: 0.04, slightMaxPenalty: 0.8 },
+  shoulderAlignment: { enabled: true, threshold: 20, weight: 0.08, maxPenalty: 1.5, slightThreshold: 12, slightWeight: 0.04, slightMaxPenalty: 0.6 },
+  headTilt: { enabled: true, threshold: 25, weight: 0.08, maxPenalty: 1.8, slightThreshold: 15, slightWeight: 0.04, slightMaxPenalty: 0.7 },
+  shoulderHeight: { enabled: true, threshold: 30, weight: 0.05, maxPenalty: 1.2, slightThreshold: 22, slightWeight: 0.015, slightMaxPenalty: 0.4 },
+  spineAlignment: { enabled: true, threshold: 40, weight: 0.04, maxPenalty: 1.0, slightThreshold: 32, slightWeight: 0.015, slightMaxPenalty: 0.4 },
+  slouching: { enabled: true, threshold: 0.10, penalty: 1.3 },
+  headNeck: { enabled: true, threshold: 6, penalty: 1.0, slightThreshold: 7, slightPenalty: 0.5 },
+  cameraDistance: { enabled: true, penalty: 2.0 },
+  consistencyThreshold: 3
+};
+
+// Flags issues earlier and costs more per issue
+const STRICT_RULES: PostureRuleConfig = {
+  forwardHead: { enabled: true, threshold: 22, weight: 0.1, maxPenalty: 2.5, slightThreshold: 14, slightWeight: 0.05, slightMaxPenalty: 1.0 },
+  shoulderAlignment: { enabled: true, threshold: 15, weight: 0.1, maxPenalty: 2.0, slightThreshold: 9, slightWeight: 0.05, slightMaxPenalty: 0.8 },
+  headTilt: { enabled: true, threshold: 18, weight: 0.1, maxPenalty: 2.2, slightThreshold: 10, slightWeight: 0.05, slightMaxPenalty: 0.9 },
+  shoulderHeight: { enabled: true, threshold: 22, weight: 0.06, maxPenalty: 1.5, slightThreshold: 15, slightWeight: 0.02, slightMaxPenalty: 0.5 },
+  spineAlignment: { enabled: true, threshold: 30, weight: 0.05, maxPenalty: 1.3, slightThreshold: 22, slightWeight: 0.02, slightMaxPenalty: 0.5 },
+  slouching: { enabled: true, threshold: 0.07, penalty: 1.6 },
+  headNeck: { enabled: true, threshold: 7, penalty: 1.3, slightThreshold: 8, slightPenalty: 0.7 },
+  cameraDistance: { enabled: true, penalty: 2.0 },
+  consistencyThreshold: 2
+};
+
+// Tolerates more movement before flagging anything
+const LENIENT_RULES: PostureRuleConfig = {
+  forwardHead: { enabled: true, threshold: 40, weight: 0.06, maxPenalty: 1.5, slightThreshold: 28, slightWeight: 0.03, slightMaxPenalty: 0.6 },
+  shoulderAlignment: { enabled: true, threshold: 26, weight: 0.06, maxPenalty: 1.2, slightThreshold: 16, slightWeight: 0.03, slightMaxPenalty: 0.4 },
+  headTilt: { enabled: true, threshold: 32, weight: 0.06, maxPenalty: 1.4, slightThreshold: 20, slightWeight: 0.03, slightMaxPenalty: 0.5 },
+  shoulderHeight: { enabled: true, threshold: 38, weight: 0.04, maxPenalty: 1.0, slightThreshold: 28, slightWeight: 0.01, slightMaxPenalty: 0.3 },
+  spineAlignment: { enabled: true, threshold: 50, weight: 0.03, maxPenalty: 0.8, slightThreshold: 40, slightWeight: 0.01, slightMaxPenalty: 0.3 },
+  slouching: { enabled: true, threshold: 0.14, penalty: 1.0 },
+  headNeck: { enabled: true, threshold: 5, penalty: 0.8, slightThreshold: 6, slightPenalty: 0.4 },
+  cameraDistance: { enabled: true, penalty: 1.5 },
+  consistencyThreshold: 5
+};
+
+export const POSTURE_RULE_PRESETS: Record<PostureRulePreset, PostureRuleConfig> = {
+  strict: STRICT_RULES,
+  balanced: BALANCED_RULES,
+  lenient: LENIENT_RULES
+};
+
+export const POSTURE_RULE_PRESET_OPTIONS: { value: PostureRulePreset; label: string; description: string }[] = [
+  { value: 'strict', label: 'Strict', description: 'Flags small deviations quickly' },
+  { value: 'balanced', label: 'Balanced', description: 'Default thresholds' },
+  { value: 'lenient', label: 'Lenient', description: 'Only flags clear, sustained issues' }
+];
+
+export const DEFAULT_POSTURE_RULES = BALANCED_RULES;
+
+// Deep copy so edits in the settings form never touch the preset objects
+export const getPresetRules = (preset: PostureRulePreset): PostureRuleConfig =>
+  JSON.parse(JSON.stringify(POSTURE_RULE_PRESETS[preset]));
+
+// Which preset a configuration matches, or null once it has been customised
+export const findMatchingPreset = (rules: PostureRuleConfig): PostureRulePreset | null => {
+  const serialized = JSON.stringify(rules);
+  const match = POSTURE_RULE_PRESET_OPTIONS.find(
+    option => JSON.stringify(POSTURE_RULE_PRESETS[option.value]) === serialized
+  );
+  return match ? match.value : null;
+};
+
+// Fill in anything missing from an older or partial stored configuration
+export const normalizeRules = (rules?: Partial<PostureRuleConfig>): PostureRuleConfig => {
+  const base = getPresetRules('balanced');
+  if (!rules) return base;
+
+  return {
+    forwardHead: { ...base.forwardHead, ...rules.forwardHead },
+    shoulderAlignment: { ...base.shoulderAlignment, ...rules.shoulderAlignment },
+    headTilt: { ...base.headTilt, ...rules.headTilt },
+    shoulderHeight: { ...base.shoulderHeight, ...rules.shoulderHeight },
+    spineAlignment: { ...base.spineAlignment, ...rules.spineAlignment },
+    slouching: { ...base.slouching, ...rules.slouching },
+    headNeck: { ...base.headNeck, ...rules.headNeck },
+    cameraDistance: { ...base.cameraDistance, ...rules.cameraDistance },
+    consistencyThreshold: rules.consistencyThreshold ?? base.consistencyThreshold
+  };
+};
@@ -0,0 +1,58 @@
+export interface PresenceEvent {
+  type: 'absent' | 'returned';
+  timestamp: number; // When the user was last seen (absent) or came back (returned)
+  awayMs: number; // Length of the absence; 0 for 'absent' events
+}
+
+const ABSENT_AFTER = 15000; // No person in view for 15 seconds means the user has left
+const RETURNED_AFTER = 3000; // Must be seen continuously for 3 seconds to count as back
+
+/**
+ * Debounces the per-frame "is anyone there" signal into absent/returned
+ * events, so looking away or a few missed detections don't end a session.
+ */
+class PresenceDetector {
+  private present = true;
+  private lastSeen: number;
+  private seenSince: number | null = null;
+  private absentSince: number | null = null;
+
+  constructor(now: number = Date.now()) {
+    this.lastSeen = now;
+  }
+
+  // Feed one detection result; returns an event when presence changes
+  update(personVisible: boolean, now: number = Date.now()): PresenceEvent | null {
+    if (personVisible) {
+      this.lastSeen = now;
+
+      if (!this.present) {
+        this.seenSince = this.seenSince ?? now;
+        if (now - this.seenSince >= RETURNED_AFTER) {
+          const awayMs = this.seenSince - (this.absentSince ?? this.seenSince);
+          this.present = true;
+          this.absentSince = null;
+          this.seenSince = null;
+          return { type: 'returned', timestamp: now, awayMs };
+        }
+      }
+      return null;
+    }
+
+    this.seenSince = null;
+
+    if (this.present && now - this.lastSeen >= ABSENT_AFTER) {
+      this.present = false;
+      this.absentSince = this.lastSeen;
+      return { type: 'absent', timestamp: this.lastSeen, awayMs: 0 };
+    }
+
+    return null;
+  }
+
+  isPresent(): boolean {
+    return this.present;
+  }
+}
+
+export default PresenceDetector;
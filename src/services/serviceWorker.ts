@@ -0,0 +1,25 @@
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+// Registers public/sw.js once, for offline caching and notification actions.
+// Resolves to null where service workers aren't available.
+export const registerServiceWorker = (): Promise<ServiceWorkerRegistration | null> => {
+  if (!registration) {
+    registration = (async () => {
+      if (!('serviceWorker' in navigator)) {
+        console.log('Service workers are not supported, the app will not work offline');
+        return null;
+      }
+
+      try {
+        // Relative to the page, so it also works when the app is served from a sub-path
+        const result = await navigator.serviceWorker.register('sw.js');
+        console.log('Service worker registered with scope:', result.scope);
+        return result;
+      } catch (error) {
+        console.error('Error registering service worker:', error);
+        return null;
+      }
+    })();
+  }
+  return registration;
+};
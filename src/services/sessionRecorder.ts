@@ -0,0 +1,169 @@
+import HistoryStore, { historyStore, MinuteRecord, SessionRecord, IssueCounts } from './historyStore';
+import type { PostureIssue } from './postureIssues';
+
+const MINUTE = 60000;
+
+const addIssues = (counts: IssueCounts, issues: PostureIssue[]) => {
+  for (const issue of issues) {
+    counts[issue.code] = (counts[issue.code] || 0) + 1;
+  }
+};
+
+/**
+ * Aggregates the tracking events of one monitoring session into a session
+ * record and per-minute records, writing them to the history store as each
+ * minute closes.
+ */
+class SessionRecorder {
+  private store: HistoryStore;
+  private session: SessionRecord | null = null;
+  private minute: MinuteRecord | null = null;
+
+  constructor(store: HistoryStore = historyStore) {
+    this.store = store;
+  }
+
+  start(now: number = Date.now()): void {
+    if (this.session) this.stop(now);
+
+    this.session = {
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      startTime: now,
+      endTime: now,
+      scoreTotal: 0,
+      samples: 0,
+      issues: {},
+      screenTime: 0,
+      offHoursScreenTime: 0,
+      breaks: 0,
+      alertsShown: 0,
+      alertsDismissed: 0,
+      snoozes: 0
+    };
+    this.minute = null;
+    this.persist();
+  }
+
+  stop(now: number = Date.now()): void {
+    if (!this.session) return;
+    this.session.endTime = now;
+    this.persist();
+    this.session = null;
+    this.minute = null;
+  }
+
+  isRecording(): boolean {
+    return this.session !== null;
+  }
+
+  recordScore(score: number, issues: PostureIssue[] = [], now: number = Date.now()): void {
+    const minute = this.minuteAt(now);
+    if (!minute || !this.session) return;
+
+    minute.scoreTotal += score;
+    minute.samples++;
+    minute.minScore = minute.minScore === null ? score : Math.min(minute.minScore, score);
+    addIssues(minute.issues, issues);
+
+    this.session.scoreTotal += score;
+    this.session.samples++;
+    addIssues(this.session.issues, issues);
+  }
+
+  recordScreenTime(minutes: number = 1, offHours: boolean = false, now: number = Date.now()): void {
+    const minute = this.minuteAt(now);
+    if (!minute || !this.session) return;
+    minute.screenTime += minutes;
+    this.session.screenTime += minutes;
+    if (offHours) {
+      minute.offHoursScreenTime = (minute.offHoursScreenTime || 0) + minutes;
+      this.session.offHoursScreenTime = (this.session.offHoursScreenTime || 0) + minutes;
+    }
+  }
+
+  recordBreak(now: number = Date.now()): void {
+    const minute = this.minuteAt(now);
+    if (!minute || !this.session) return;
+    minute.breaks++;
+    this.session.breaks++;
+    this.persist(); // Breaks are rare and matter for compliance, save right away
+  }
+
+  recordAlertShown(now: number = Date.now()): void {
+    const minute = this.minuteAt(now);
+    if (!minute || !this.session) return;
+    minute.alertsShown++;
+    this.session.alertsShown++;
+  }
+
+  recordAlertDismissed(now: number = Date.now()): void {
+    const minute = this.minuteAt(now);
+    if (!minute || !this.session) return;
+    minute.alertsDismissed++;
+    this.session.alertsDismissed++;
+  }
+
+  recordSnooze(now: number = Date.now()): void {
+    const minute = this.minuteAt(now);
+    if (!minute || !this.session) return;
+    minute.snoozes = (minute.snoozes || 0) + 1;
+    this.session.snoozes = (this.session.snoozes || 0) + 1;
+  }
+
+  // Write whatever has been collected so far, e.g. on a timer
+  flush(now: number = Date.now()): void {
+    if (!this.session) return;
+    this.session.endTime = now;
+    this.persist();
+  }
+
+  // The bucket for the minute containing `now`, closing the previous one
+  private minuteAt(now: number): MinuteRecord | null {
+    if (!this.session) return null;
+
+    const timestamp = Math.floor(now / MINUTE) * MINUTE;
+    if (this.minute && this.minute.timestamp === timestamp) {
+      return this.minute;
+    }
+
+    if (this.minute) {
+      this.session.endTime = now;
+      this.persist();
+    }
+
+    this.minute = {
+      sessionId: this.session.id,
+      timestamp,
+      scoreTotal: 0,
+      samples: 0,
+      minScore: null,
+      issues: {},
+      screenTime: 0,
+      offHoursScreenTime: 0,
+      breaks: 0,
+      alertsShown: 0,
+      alertsDismissed: 0,
+      snoozes: 0
+    };
+    return this.minute;
+  }
+
+  private persist(): void {
+    // Snapshot so later updates don't race the asynchronous write
+    const session = this.session ? { ...this.session, issues: { ...this.session.issues } } : null;
+    const minute = this.minute ? { ...this.minute, issues: { ...this.minute.issues } } : null;
+
+    if (session) {
+      this.store.saveSession(session).catch(error => {
+        console.error('Error saving session history:', error);
+      });
+    }
+    if (minute) {
+      this.store.saveMinute(minute).catch(error => {
+        console.error('Error saving minute history:', error);
+      });
+    }
+  }
+}
+
+export default SessionRecorder;
@@ -0,0 +1,42 @@
+// Ways to put off a break or posture alert
+export type SnoozeOption = 'snooze_5' | 'snooze_10' | 'snooze_15' | 'after_meeting' | 'end_of_hour';
+
+export type SnoozeTarget = 'break' | 'posture';
+
+const MINUTE = 60000;
+const MIN_MEETING_SNOOZE = 10 * MINUTE; // A meeting ending sooner than this is taken to be the next one
+
+export const SNOOZE_OPTIONS: { value: SnoozeOption; label: string }[] = [
+  { value: 'snooze_5', label: '5 min' },
+  { value: 'snooze_10', label: '10 min' },
+  { value: 'snooze_15', label: '15 min' },
+  { value: 'after_meeting', label: 'After this meeting' },
+  { value: 'end_of_hour', label: 'Until end of hour' }
+];
+
+// When a snooze chosen at `now` runs out. Meetings are assumed to end on the
+// hour or half hour.
+export const getSnoozeUntil = (option: SnoozeOption, now: number = Date.now()): number => {
+  switch (option) {
+    case 'snooze_5':
+      return now + 5 * MINUTE;
+    case 'snooze_10':
+      return now + 10 * MINUTE;
+    case 'snooze_15':
+      return now + 15 * MINUTE;
+    case 'after_meeting': {
+      const date = new Date(now);
+      date.setMinutes(date.getMinutes() < 30 ? 30 : 60, 0, 0);
+      const next = date.getTime();
+      return next - now < MIN_MEETING_SNOOZE ? next + 30 * MINUTE : next;
+    }
+    case 'end_of_hour': {
+      const date = new Date(now);
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      return date.getTime();
+    }
+  }
+};
+
+export const formatSnoozeTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -0,0 +1,757 @@
+import type { StretchSuggestion } from './geminiService';
+import type { PostureIssueCode } from './postureIssues';
+
+export type StretchEquipment = 'none' | 'chair' | 'desk' | 'wall' | 'doorway';
+
+// Conditions under which an exercise should be skipped
+export type Contraindication =
+  | 'neck_injury'
+  | 'shoulder_injury'
+  | 'back_injury'
+  | 'wrist_pain'
+  | 'knee_pain'
+  | 'dizziness'
+  | 'high_blood_pressure'
+  | 'pregnancy';
+
+export const CONTRAINDICATION_LABELS: Record<Contraindication, string> = {
+  neck_injury: 'Neck injury or pain',
+  shoulder_injury: 'Shoulder injury',
+  back_injury: 'Back injury or disc problems',
+  wrist_pain: 'Wrist pain or RSI',
+  knee_pain: 'Knee pain',
+  dizziness: 'Dizziness or vertigo',
+  high_blood_pressure: 'High blood pressure',
+  pregnancy: 'Pregnancy'
+};
+
+// Keep only known conditions from stored or imported settings
+export const normalizeContraindications = (items?: unknown): Contraindication[] =>
+  Array.isArray(items)
+    ? items.filter((item): item is Contraindication => typeof item === 'string' && item in CONTRAINDICATION_LABELS)
+    : [];
+
+export interface LibraryStretch extends StretchSuggestion {
+  id: string;
+  equipment: StretchEquipment;
+  issueCodes: PostureIssueCode[]; // Empty for general desk-work relief
+  contraindications: Contraindication[];
+}
+
+const FORWARD_HEAD: PostureIssueCode[] = ['forward_head', 'slight_forward_head', 'head_neck_alignment', 'slight_head_neck'];
+const HEAD_TILT: PostureIssueCode[] = ['head_tilt', 'slight_head_tilt'];
+const SHOULDER_LEVEL: PostureIssueCode[] = ['uneven_shoulders', 'slight_shoulder_imbalance', 'shoulder_height_imbalance', 'slight_shoulder_height'];
+const SPINE: PostureIssueCode[] = ['spine_alignment', 'slight_spine_deviation'];
+const SLOUCHING: PostureIssueCode[] = ['slouching', ...SPINE];
+
+/**
+ * Exercises that can be done at or next to a desk, picked by the selection
+ * engine in stretchSelector.ts when no model is configured or reachable.
+ * Each is tagged with the posture issues it helps with and when to skip it.
+ */
+export const STRETCH_LIBRARY: LibraryStretch[] = [
+  // Head and neck
+  {
+    id: 'chin-tucks',
+    name: 'Chin Tucks',
+    description: 'Retrains the deep neck flexors to hold your head over your shoulders',
+    duration: '10 reps (about 45 seconds)',
+    difficulty: 'easy',
+    targetAreas: ['deep neck flexors', 'suboccipitals'],
+    instructions: [
+      'Sit tall with your eyes level',
+      'Glide your chin straight back as if making a double chin, without tipping your head down',
+      'Hold for 3 seconds while breathing normally',
+      'Release slowly and repeat 10 times'
+    ],
+    equipment: 'none',
+    issueCodes: FORWARD_HEAD,
+    contraindications: []
+  },
+  {
+    id: 'wall-chin-tuck',
+    name: 'Wall Chin Tuck Hold',
+    description: 'Chin tuck against a wall for feedback on where neutral is',
+    duration: '5 holds of 10 seconds',
+    difficulty: 'medium',
+    targetAreas: ['deep neck flexors', 'upper back'],
+    instructions: [
+      'Stand with your heels a few centimetres from a wall and your back against it',
+      'Tuck your chin and slide the back of your head up the wall',
+      'Hold for 10 seconds without pressing hard into the wall',
+      'Relax for a breath and repeat 5 times'
+    ],
+    equipment: 'wall',
+    issueCodes: FORWARD_HEAD,
+    contraindications: ['neck_injury']
+  },
+  {
+    id: 'suboccipital-stretch',
+    name: 'Suboccipital Stretch',
+    description: 'Releases the small muscles at the base of the skull that tighten when the head juts forward',
+    duration: '30 seconds',
+    difficulty: 'easy',
+    targetAreas: ['suboccipitals', 'upper neck'],
+    instructions: [
+      'Sit tall and make a small nod, chin towards your throat',
+      'Interlace your fingers behind your head',
+      'Let the weight of your hands add a gentle stretch at the base of your skull',
+      'Breathe slowly for 30 seconds, then release'
+    ],
+    equipment: 'none',
+    issueCodes: FORWARD_HEAD,
+    contraindications: ['neck_injury']
+  },
+  {
+    id: 'deep-neck-flexor-hold',
+    name: 'Seated Deep Neck Flexor Hold',
+    description: 'Builds endurance in the muscles that keep your head from drifting forward',
+    duration: '5 holds of 10 seconds',
+    difficulty: 'medium',
+    targetAreas: ['deep neck flexors'],
+    instructions: [
+      'Sit with your back against the chair and eyes level',
+      'Make a small chin nod and hold it without clenching your jaw',
+      'Keep breathing through your nose for 10 seconds',
+      'Rest for 5 seconds and repeat 5 times'
+    ],
+    equipment: 'chair',
+    issueCodes: FORWARD_HEAD,
+    contraindications: []
+  },
+  {
+    id: 'levator-scapulae-stretch',
+    name: 'Levator Scapulae Stretch',
+    description: 'Stretches the muscle from the neck to the shoulder blade that tightens with a raised shoulder',
+    duration: '30 seconds each side',
+    difficulty: 'easy',
+    targetAreas: ['levator scapulae', 'neck'],
+    instructions: [
+      'Sit on your right hand to keep that shoulder down',
+      'Turn your head 45 degrees to the left and look down towards your left armpit',
+      'Rest your left hand on the back of your head for a light stretch',
+      'Hold for 30 seconds, then switch sides'
+    ],
+    equipment: 'chair',
+    issueCodes: [...FORWARD_HEAD, ...SHOULDER_LEVEL],
+    contraindications: ['neck_injury']
+  },
+  {
+    id: 'upper-trap-stretch',
+    name: 'Upper Trapezius Side Stretch',
+    description: 'Lengthens the upper traps, which pull the head and shoulder out of level',
+    duration: '30 seconds each side',
+    difficulty: 'easy',
+    targetAreas: ['upper trapezius', 'neck'],
+    instructions: [
+      'Hold the side of your chair seat with your right hand',
+      'Tilt your left ear towards your left shoulder without turning your head',
+      'Rest your left hand on your head for a light extra stretch',
+      'Hold for 30 seconds, then switch sides'
+    ],
+    equipment: 'chair',
+    issueCodes: [...HEAD_TILT, ...SHOULDER_LEVEL],
+    contraindications: ['neck_injury']
+  },
+  {
+    id: 'scalene-stretch',
+    name: 'Scalene Stretch',
+    description: 'Stretches the front and side of the neck, often tight with a tilted or forward head',
+    duration: '20 seconds each side',
+    difficulty: 'easy',
+    targetAreas: ['scalenes', 'side of neck'],
+    instructions: [
+      'Place both hands flat on your upper chest below your collarbone',
+      'Tilt your head to the left, then lift your chin slightly up and away',
+      'Hold for 20 seconds while breathing into your chest',
+      'Return to centre and repeat on the right'
+    ],
+    equipment: 'none',
+    issueCodes: [...HEAD_TILT, ...FORWARD_HEAD],
+    contraindications: ['neck_injury', 'dizziness']
+  },
+  {
+    id: 'neck-rotations',
+    name: 'Slow Neck Rotations',
+    description: 'Restores turning range in a neck held still at the screen',
+    duration: '5 turns each side (about 40 seconds)',
+    difficulty: 'easy',
+    targetAreas: ['neck', 'sternocleidomastoid'],
+    instructions: [
+      'Sit tall with your chin slightly tucked',
+      'Turn your head slowly to look over your right shoulder',
+      'Pause for 2 seconds, return to centre and turn to the left',
+      'Repeat 5 times each side, keeping your shoulders still'
+    ],
+    equipment: 'none',
+    issueCodes: HEAD_TILT,
+    contraindications: ['dizziness']
+  },
+  {
+    id: 'neck-isometrics',
+    name: 'Neck Isometric Holds',
+    description: 'Strengthens the neck in all directions without moving it',
+    duration: '4 directions, 5 seconds each, 3 rounds',
+    difficulty: 'medium',
+    targetAreas: ['neck flexors', 'neck extensors', 'lateral neck'],
+    instructions: [
+      'Place your palm on your forehead and press your head into it without letting it move',
+      'Hold for 5 seconds at about a third of your strength',
+      'Repeat with your hand on the back of your head, then on each side',
+      'Do 3 rounds, breathing out during each press'
+    ],
+    equipment: 'none',
+    issueCodes: [...FORWARD_HEAD, ...HEAD_TILT],
+    contraindications: ['neck_injury', 'high_blood_pressure']
+  },
+  {
+    id: 'half-neck-rolls',
+    name: 'Half Neck Rolls',
+    description: 'Gentle front-half circles to relieve general neck tension',
+    duration: '30 seconds',
+    difficulty: 'easy',
+    targetAreas: ['neck', 'upper trapezius'],
+    instructions: [
+      'Drop your chin towards your chest',
+      'Roll your head slowly towards your right shoulder and back to centre',
+      'Roll towards your left shoulder and back to centre',
+      'Keep the movement slow and avoid rolling your head backwards'
+    ],
+    equipment: 'none',
+    issueCodes: [],
+    contraindications: ['neck_injury', 'dizziness']
+  },
+
+  // Shoulders
+  {
+    id: 'shoulder-rolls',
+    name: 'Backward Shoulder Rolls',
+    description: 'Loosens the shoulders and draws them back from a rounded position',
+    duration: '10 rolls (about 30 seconds)',
+    difficulty: 'easy',
+    targetAreas: ['shoulders', 'upper trapezius', 'rhomboids'],
+    instructions: [
+      'Let your arms hang by your sides',
+      'Lift your shoulders towards your ears',
+      'Roll them back, squeezing your shoulder blades, then down',
+      'Repeat 10 times with slow breaths'
+    ],
+    equipment: 'none',
+    issueCodes: [...SHOULDER_LEVEL, 'slouching'],
+    contraindications: []
+  },
+  {
+    id: 'shoulder-blade-squeeze',
+    name: 'Shoulder Blade Squeeze',
+    description: 'Wakes up the mid-back muscles that hold the shoulders back',
+    duration: '10 reps of 5 seconds',
+    difficulty: 'easy',
+    targetAreas: ['rhomboids', 'middle trapezius'],
+    instructions: [
+      'Sit tall, away from the chair back',
+      'Squeeze your shoulder blades together and slightly down',
+      'Hold for 5 seconds without shrugging',
+      'Relax and repeat 10 times'
+    ],
+    equipment: 'chair',
+    issueCodes: [...SLOUCHING, ...SHOULDER_LEVEL],
+    contraindications: []
+  },
+  {
+    id: 'shrug-and-drop',
+    name: 'Shrug and Drop',
+    description: 'Releases shoulders that creep up towards the ears while typing',
+    duration: '8 reps (about 30 seconds)',
+    difficulty: 'easy',
+    targetAreas: ['upper trapezius', 'shoulders'],
+    instructions: [
+      'Breathe in and lift both shoulders as high as you can',
+      'Hold for 2 seconds',
+      'Breathe out and let them drop completely',
+      'Repeat 8 times, noticing which side sits higher'
+    ],
+    equipment: 'none',
+    issueCodes: SHOULDER_LEVEL,
+    contraindications: []
+  },
+  {
+    id: 'cross-body-stretch',
+    name: 'Cross-Body Shoulder Stretch',
+    description: 'Stretches the back of the shoulder and the upper back',
+    duration: '30 seconds each side',
+    difficulty: 'easy',
+    targetAreas: ['posterior deltoid', 'upper back'],
+    instructions: [
+      'Bring your right arm across your chest at shoulder height',
+      'Hold it above the elbow with your left hand',
+      'Draw it closer while keeping your right shoulder down',
+      'Hold for 30 seconds, then switch sides'
+    ],
+    equipment: 'none',
+    issueCodes: SHOULDER_LEVEL,
+    contraindications: ['shoulder_injury']
+  },
+  {
+    id: 'scapular-depression',
+    name: 'Scapular Depression Hold',
+    description: 'Strengthens the lower traps that pull a raised shoulder back down',
+    duration: '5 holds of 5 seconds',
+    difficulty: 'medium',
+    targetAreas: ['lower trapezius', 'latissimus dorsi'],
+    instructions: [
+      'Place your hands on the chair seat beside your hips',
+      'Press down so your shoulders move away from your ears, keeping your arms straight',
+      'Hold for 5 seconds without lifting off the seat',
+      'Relax and repeat 5 times'
+    ],
+    equipment: 'chair',
+    issueCodes: SHOULDER_LEVEL,
+    contraindications: ['shoulder_injury', 'wrist_pain']
+  },
+  {
+    id: 'overhead-side-reach',
+    name: 'Overhead Side Reach',
+    description: 'Lengthens the side of the trunk and evens out a leaning posture',
+    duration: '20 seconds each side',
+    difficulty: 'easy',
+    targetAreas: ['latissimus dorsi', 'obliques', 'shoulders'],
+    instructions: [
+      'Sit tall with both feet flat on the floor',
+      'Reach your right arm overhead and lean gently to the left',
+      'Keep both hips on the chair and breathe into your right ribs',
+      'Hold for 20 seconds, then switch sides'
+    ],
+    equipment: 'chair',
+    issueCodes: [...SHOULDER_LEVEL, ...SPINE],
+    contraindications: ['shoulder_injury']
+  },
+  {
+    id: 'w-retractions',
+    name: 'W Retractions',
+    description: 'Strengthens the shoulder blade retractors and external rotators',
+    duration: '10 reps (about 45 seconds)',
+    difficulty: 'medium',
+    targetAreas: ['rhomboids', 'rotator cuff', 'middle trapezius'],
+    instructions: [
+      'Raise your arms into a W shape with elbows bent and palms forward',
+      'Squeeze your shoulder blades together and down',
+      'Rotate your hands slightly back and hold for 3 seconds',
+      'Relax and repeat 10 times'
+    ],
+    equipment: 'none',
+    issueCodes: [...SLOUCHING, ...SHOULDER_LEVEL],
+    contraindications: ['shoulder_injury']
+  },
+  {
+    id: 'ytw-raises',
+    name: 'Standing Y-T-W Raises',
+    description: 'Works the whole upper back in three positions',
+    duration: '5 reps of each letter (about 60 seconds)',
+    difficulty: 'hard',
+    targetAreas: ['lower trapezius', 'rhomboids', 'rear deltoids'],
+    instructions: [
+      'Stand and hinge forward slightly at the hips with a flat back',
+      'Raise your arms into a Y with thumbs up, hold for 2 seconds and lower',
+      'Repeat with arms out to the sides as a T, then elbows bent as a W',
+      'Do 5 reps of each, keeping your neck long'
+    ],
+    equipment: 'none',
+    issueCodes: [...SLOUCHING, ...SHOULDER_LEVEL],
+    contraindications: ['shoulder_injury', 'back_injury']
+  },
+
+  // Chest and upper back
+  {
+    id: 'doorway-chest-stretch',
+    name: 'Doorway Chest Stretch',
+    description: 'Opens the chest muscles that pull the shoulders forward',
+    duration: '30 seconds',
+    difficulty: 'easy',
+    targetAreas: ['pectorals', 'anterior deltoids'],
+    instructions: [
+      'Stand in a doorway with forearms on the frame, elbows at shoulder height',
+      'Step one foot through and lean forward until you feel a stretch across your chest',
+      'Keep your chin tucked and your lower back neutral',
+      'Hold for 30 seconds with slow breaths'
+    ],
+    equipment: 'doorway',
+    issueCodes: SLOUCHING,
+    contraindications: ['shoulder_injury']
+  },
+  {
+    id: 'clasped-chest-opener',
+    name: 'Clasped Hands Chest Opener',
+    description: 'Stretches the chest and front of the shoulders without equipment',
+    duration: '20 seconds, twice',
+    difficulty: 'easy',
+    targetAreas: ['pectorals', 'biceps', 'front of shoulders'],
+    instructions: [
+      'Interlace your fingers behind your back',
+      'Straighten your arms and lift your hands slightly away from your back',
+      'Lift your chest without arching your lower back',
+      'Hold for 20 seconds, rest and repeat'
+    ],
+    equipment: 'none',
+    issueCodes: SLOUCHING,
+    contraindications: ['shoulder_injury']
+  },
+  {
+    id: 'chair-thoracic-extension',
+    name: 'Chair-Back Thoracic Extension',
+    description: 'Uses the top of the chair back to bend the upper spine the opposite way to a slouch',
+    duration: '5 reps (about 45 seconds)',
+    difficulty: 'easy',
+    targetAreas: ['thoracic spine', 'chest'],
+    instructions: [
+      'Sit back so the top of the chair meets your mid-back',
+      'Support your head with your hands, elbows pointing forward',
+      'Lean back over the chair, lifting your chest towards the ceiling',
+      'Hold for 3 seconds, return and repeat 5 times'
+    ],
+    equipment: 'chair',
+    issueCodes: SLOUCHING,
+    contraindications: ['back_injury']
+  },
+  {
+    id: 'seated-cat-cow',
+    name: 'Seated Cat-Cow',
+    description: 'Moves the whole spine through flexion and extension',
+    duration: '8 cycles (about 45 seconds)',
+    difficulty: 'easy',
+    targetAreas: ['spine', 'upper back', 'chest'],
+    instructions: [
+      'Sit on the front of your chair with your hands on your knees',
+      'Breathe in, lift your chest and let your back arch gently',
+      'Breathe out, round your spine and draw your chin in',
+      'Repeat 8 times, moving with your breath'
+    ],
+    equipment: 'chair',
+    issueCodes: SLOUCHING,
+    contraindications: []
+  },
+  {
+    id: 'seated-spinal-twist',
+    name: 'Seated Spinal Twist',
+    description: 'Rotates the spine to release the back muscles',
+    duration: '20 seconds each side',
+    difficulty: 'easy',
+    targetAreas: ['spine', 'obliques', 'back'],
+    instructions: [
+      'Sit up straight in your chair',
+      'Place your right hand on the back of the chair and your left hand on your right knee',
+      'Breathe in to grow tall, breathe out and twist gently to the right',
+      'Hold for 20 seconds, then repeat on the left'
+    ],
+    equipment: 'chair',
+    issueCodes: SPINE,
+    contraindications: ['back_injury', 'pregnancy']
+  },
+  {
+    id: 'seated-side-bend',
+    name: 'Seated Side Bend',
+    description: 'Stretches the side of the trunk to rebalance a spine that leans one way',
+    duration: '20 seconds each side',
+    difficulty: 'easy',
+    targetAreas: ['obliques', 'quadratus lumborum'],
+    instructions: [
+      'Sit tall and hold the left side of the seat with your left hand',
+      'Reach your right hand over your head towards the left',
+      'Keep your chest facing forward rather than rotating',
+      'Hold for 20 seconds, then switch sides'
+    ],
+    equipment: 'chair',
+    issueCodes: SPINE,
+    contraindications: []
+  },
+  {
+    id: 'standing-back-bend',
+    name: 'Standing Back Extension',
+    description: 'Reverses hours of sitting bent forward',
+    duration: '5 reps (about 30 seconds)',
+    difficulty: 'easy',
+    targetAreas: ['lower back', 'hip flexors', 'chest'],
+    instructions: [
+      'Stand with your feet hip-width apart',
+      'Place your hands on your lower back, fingers pointing down',
+      'Lean back gently, looking slightly up, as far as is comfortable',
+      'Hold for 2 seconds, return and repeat 5 times'
+    ],
+    equipment: 'none',
+    issueCodes: SLOUCHING,
+    contraindications: ['back_injury', 'dizziness']
+  },
+  {
+    id: 'desk-lat-stretch',
+    name: 'Desk Lat Stretch',
+    description: 'Stretches the lats and upper back using the desk edge',
+    duration: '30 seconds',
+    difficulty: 'medium',
+    targetAreas: ['latissimus dorsi', 'upper back', 'shoulders'],
+    instructions: [
+      'Stand facing your desk and place both hands on its edge',
+      'Walk your feet back and hinge at the hips until your back is flat',
+      'Let your chest sink towards the floor between your arms',
+      'Hold for 30 seconds, breathing into your back'
+    ],
+    equipment: 'desk',
+    issueCodes: SLOUCHING,
+    contraindications: ['shoulder_injury', 'back_injury']
+  },
+  {
+    id: 'tall-sit-hold',
+    name: 'Tall Sit Hold',
+    description: 'Practises upright sitting with the core switched on',
+    duration: '3 holds of 20 seconds',
+    difficulty: 'medium',
+    targetAreas: ['core', 'spinal erectors'],
+    instructions: [
+      'Sit on the front half of your chair with your feet flat',
+      'Imagine a string lifting the crown of your head',
+      'Draw your belly button in lightly and keep breathing',
+      'Hold for 20 seconds, relax and repeat 3 times'
+    ],
+    equipment: 'chair',
+    issueCodes: SLOUCHING,
+    contraindications: []
+  },
+  {
+    id: 'wall-posture-reset',
+    name: 'Wall Posture Reset',
+    description: 'Shows your body what neutral alignment feels like',
+    duration: '30 seconds',
+    difficulty: 'easy',
+    targetAreas: ['full spine', 'neck', 'shoulders'],
+    instructions: [
+      'Stand with your heels, buttocks, shoulder blades and head against a wall',
+      'Slide a hand behind your lower back; there should be just enough room for it',
+      'Tuck your chin slightly so the back of your head stays on the wall',
+      'Hold for 30 seconds, then step away keeping the position'
+    ],
+    equipment: 'wall',
+    issueCodes: [...FORWARD_HEAD, ...SLOUCHING],
+    contraindications: []
+  },
+  {
+    id: 'wall-angels',
+    name: 'Wall Angels',
+    description: 'Improves shoulder and upper back mobility against a wall',
+    duration: '8 reps (about 45 seconds)',
+    difficulty: 'medium',
+    targetAreas: ['thoracic spine', 'lower trapezius', 'shoulders'],
+    instructions: [
+      'Stand with your back against a wall and arms in a goalpost shape',
+      'Keep your head, upper back and arms in contact with the wall',
+      'Slide your arms up as far as you can without losing contact',
+      'Slide back down and repeat 8 times'
+    ],
+    equipment: 'wall',
+    issueCodes: [...SLOUCHING, ...FORWARD_HEAD],
+    contraindications: ['shoulder_injury']
+  },
+  {
+    id: 'wall-slide-lift-off',
+    name: 'Wall Slide with Lift-Off',
+    description: 'A harder wall slide that makes the lower traps do the work',
+    duration: '8 reps (about 60 seconds)',
+    difficulty: 'hard',
+    targetAreas: ['lower trapezius', 'serratus anterior'],
+    instructions: [
+      'Face the wall with your forearms on it in a V shape',
+      'Slide your arms up the wall while keeping your shoulders down',
+      'At the top, lift your hands a few centimetres off the wall and hold for 2 seconds',
+      'Lower and repeat 8 times'
+    ],
+    equipment: 'wall',
+    issueCodes: [...SLOUCHING, ...FORWARD_HEAD],
+    contraindications: ['shoulder_injury']
+  },
+  {
+    id: 'desk-push-ups',
+    name: 'Desk Push-Ups',
+    description: 'Incline push-ups that build the serratus and chest stability',
+    duration: '10 reps (about 45 seconds)',
+    difficulty: 'hard',
+    targetAreas: ['chest', 'serratus anterior', 'triceps'],
+    instructions: [
+      'Place your hands on a sturdy desk edge, slightly wider than your shoulders',
+      'Walk your feet back until your body is in a straight line',
+      'Lower your chest towards the desk, then push away, spreading your shoulder blades at the top',
+      'Repeat 10 times, keeping your neck long'
+    ],
+    equipment: 'desk',
+    issueCodes: SLOUCHING,
+    contraindications: ['wrist_pain', 'shoulder_injury']
+  },
+
+  // General desk-work relief
+  {
+    id: 'wrist-flexor-stretch',
+    name: 'Wrist Flexor Stretch',
+    description: 'Stretches the wrists and forearms after typing',
+    duration: '15 seconds each side',
+    difficulty: 'easy',
+    targetAreas: ['wrists', 'forearms'],
+    instructions: [
+      'Extend your right arm with your palm facing up',
+      'Use your left hand to gently pull your fingers back towards you',
+      'Hold for 15 seconds',
+      'Repeat with the left arm'
+    ],
+    equipment: 'none',
+    issueCodes: [],
+    contraindications: ['wrist_pain']
+  },
+  {
+    id: 'wrist-extensor-stretch',
+    name: 'Wrist Extensor Stretch',
+    description: 'Stretches the top of the forearm, which works hard when using a mouse',
+    duration: '15 seconds each side',
+    difficulty: 'easy',
+    targetAreas: ['wrists', 'forearm extensors'],
+    instructions: [
+      'Extend your right arm with your palm facing down',
+      'Bend your wrist so your fingers point at the floor',
+      'Use your left hand to press the back of your hand gently towards you',
+      'Hold for 15 seconds, then switch arms'
+    ],
+    equipment: 'none',
+    issueCodes: [],
+    contraindications: ['wrist_pain']
+  },
+  {
+    id: 'tendon-glides',
+    name: 'Finger Tendon Glides',
+    description: 'Moves the finger tendons through their full range after long typing sessions',
+    duration: '5 cycles (about 40 seconds)',
+    difficulty: 'easy',
+    targetAreas: ['fingers', 'hands', 'wrists'],
+    instructions: [
+      'Start with your fingers straight and together',
+      'Bend them into a hook fist, then a full fist, then a flat fist with straight fingers',
+      'Hold each position for 2 seconds',
+      'Repeat the sequence 5 times with both hands'
+    ],
+    equipment: 'none',
+    issueCodes: [],
+    contraindications: []
+  },
+  {
+    id: 'seated-figure-four',
+    name: 'Seated Figure-Four Stretch',
+    description: 'Stretches the hips and glutes that stiffen with sitting',
+    duration: '30 seconds each side',
+    difficulty: 'easy',
+    targetAreas: ['glutes', 'hips', 'piriformis'],
+    instructions: [
+      'Sit on the front of your chair with both feet flat',
+      'Cross your right ankle over your left knee',
+      'Keep your back straight and hinge forward slightly from the hips',
+      'Hold for 30 seconds, then switch sides'
+    ],
+    equipment: 'chair',
+    issueCodes: [],
+    contraindications: ['knee_pain']
+  },
+  {
+    id: 'standing-hip-flexor',
+    name: 'Standing Hip Flexor Stretch',
+    description: 'Opens the front of the hips, which tilt the pelvis when tight',
+    duration: '30 seconds each side',
+    difficulty: 'medium',
+    targetAreas: ['hip flexors', 'quadriceps'],
+    instructions: [
+      'Stand in a split stance holding the desk for balance, right foot behind',
+      'Tuck your pelvis under and squeeze your right glute',
+      'Shift your weight forward slightly until you feel the front of your right hip stretch',
+      'Hold for 30 seconds, then switch sides'
+    ],
+    equipment: 'desk',
+    issueCodes: SPINE,
+    contraindications: ['knee_pain']
+  },
+  {
+    id: 'seated-hamstring-stretch',
+    name: 'Seated Hamstring Stretch',
+    description: 'Stretches the back of the legs, which pull on the lower back when tight',
+    duration: '30 seconds each side',
+    difficulty: 'easy',
+    targetAreas: ['hamstrings', 'calves'],
+    instructions: [
+      'Sit on the front edge of your chair',
+      'Straighten your right leg with the heel on the floor and toes up',
+      'Hinge forward from your hips with a straight back',
+      'Hold for 30 seconds, then switch legs'
+    ],
+    equipment: 'chair',
+    issueCodes: [],
+    contraindications: ['back_injury']
+  },
+  {
+    id: 'desk-calf-raises',
+    name: 'Desk Calf Raises',
+    description: 'Gets the blood moving in the legs after sitting',
+    duration: '15 reps (about 30 seconds)',
+    difficulty: 'easy',
+    targetAreas: ['calves', 'ankles'],
+    instructions: [
+      'Stand behind your chair or at the desk, holding it lightly',
+      'Rise up onto the balls of your feet',
+      'Pause at the top for a second, then lower slowly',
+      'Repeat 15 times'
+    ],
+    equipment: 'desk',
+    issueCodes: [],
+    contraindications: []
+  },
+  {
+    id: 'chair-squats',
+    name: 'Chair Squats',
+    description: 'Wakes up the legs and glutes between long sitting stretches',
+    duration: '10 reps (about 40 seconds)',
+    difficulty: 'medium',
+    targetAreas: ['glutes', 'quadriceps', 'core'],
+    instructions: [
+      'Stand in front of your chair with your feet hip-width apart',
+      'Sit back slowly until you lightly touch the seat',
+      'Drive through your heels to stand up tall, squeezing your glutes',
+      'Repeat 10 times'
+    ],
+    equipment: 'chair',
+    issueCodes: [],
+    contraindications: ['knee_pain']
+  },
+  {
+    id: 'ragdoll-fold',
+    name: 'Ragdoll Forward Fold',
+    description: 'Lets the whole back hang and decompress',
+    duration: '30 seconds',
+    difficulty: 'medium',
+    targetAreas: ['lower back', 'hamstrings', 'neck'],
+    instructions: [
+      'Stand with feet hip-width apart and knees softly bent',
+      'Fold forward and hold opposite elbows, letting your head hang',
+      'Sway gently side to side and breathe slowly',
+      'Roll up one vertebra at a time, head last'
+    ],
+    equipment: 'none',
+    issueCodes: [],
+    contraindications: ['back_injury', 'high_blood_pressure', 'dizziness', 'pregnancy']
+  },
+  {
+    id: 'box-breathing',
+    name: 'Box Breathing Reset',
+    description: 'Slow breathing that relaxes the neck and shoulder muscles that help you breathe when stressed',
+    duration: '4 rounds (about 60 seconds)',
+    difficulty: 'easy',
+    targetAreas: ['diaphragm', 'neck', 'shoulders'],
+    instructions: [
+      'Sit tall and rest your hands on your belly',
+      'Breathe in through your nose for 4 seconds, letting your belly rise',
+      'Hold for 4 seconds, breathe out for 4 seconds, hold for 4 seconds',
+      'Repeat 4 rounds, keeping your shoulders still'
+    ],
+    equipment: 'chair',
+    issueCodes: [],
+    contraindications: []
+  }
+];
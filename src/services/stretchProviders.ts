@@ -0,0 +1,365 @@
+import { redactError, redactSecrets } from '../config/apiKeys';
+import { apiKeyStore } from './apiKeyStore';
+import type { UserData } from './geminiService';
+
+// Which LLM backend generates stretch suggestions
+export type StretchProviderType = 'gemini' | 'openai' | 'local' | 'proxy';
+
+export interface StretchProviderConfig {
+  type: StretchProviderType;
+  openaiBaseUrl: string; // Any OpenAI-compatible API, e.g. an internal gateway
+  openaiModel: string; // The key is kept by apiKeyStore, not in settings
+  localBaseUrl: string; // Ollama or llama.cpp server, through their OpenAI-compatible API
+  localModel: string;
+  proxyUrl: string; // PostureGuard proxy server, see server/index.ts
+}
+
+export const DEFAULT_STRETCH_PROVIDER: StretchProviderConfig = {
+  type: 'gemini',
+  openaiBaseUrl: 'https://api.openai.com/v1',
+  openaiModel: 'gpt-4o-mini',
+  localBaseUrl: 'http://localhost:11434/v1',
+  localModel: 'llama3.1',
+  proxyUrl: ''
+};
+
+// Shown in the settings modal
+export const STRETCH_PROVIDER_OPTIONS: { value: StretchProviderType; label: string; description: string }[] = [
+  { value: 'gemini', label: 'Google Gemini', description: 'Google AI Studio API' },
+  { value: 'openai', label: 'OpenAI-compatible', description: 'OpenAI or any gateway with the same chat completions API' },
+  { value: 'local', label: 'Local model', description: 'Ollama or llama.cpp running on this machine' },
+  { value: 'proxy', label: 'Team proxy', description: "Your organisation's PostureGuard server, which holds the key" }
+];
+
+// Only known fields are kept, so a key saved here by older versions is dropped
+export const normalizeStretchProvider = (config?: Partial<StretchProviderConfig>): StretchProviderConfig => ({
+  type: STRETCH_PROVIDER_OPTIONS.some(option => option.value === config?.type)
+    ? (config?.type as StretchProviderType)
+    : DEFAULT_STRETCH_PROVIDER.type,
+  openaiBaseUrl: config?.openaiBaseUrl ?? DEFAULT_STRETCH_PROVIDER.openaiBaseUrl,
+  openaiModel: config?.openaiModel ?? DEFAULT_STRETCH_PROVIDER.openaiModel,
+  localBaseUrl: config?.localBaseUrl ?? DEFAULT_STRETCH_PROVIDER.localBaseUrl,
+  localModel: config?.localModel ?? DEFAULT_STRETCH_PROVIDER.localModel,
+  proxyUrl: config?.proxyUrl ?? DEFAULT_STRETCH_PROVIDER.proxyUrl
+});
+
+// A JSON Schema object, as in STRETCH_RESPONSE_SCHEMA
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Sends a stretch prompt to an LLM and returns the raw text it produced.
+ * Building the prompt and parsing the answer stay with the caller, so every
+ * provider gets the same prompt and returns the same format. When a response
+ * schema is given the provider asks the model for JSON in that shape, where
+ * the API supports it.
+ */
+export interface StretchProvider {
+  readonly name: string;
+  isConfigured(): boolean; // False without the key or address it needs, so there's nothing to call
+  testConnection(): Promise<boolean>;
+  generate(prompt: string, responseSchema?: JsonSchema): Promise<string>;
+  // Providers that build the prompt themselves, like the proxy, take the user data instead
+  generateForUser?(userData: UserData, previousSuggestions: string[]): Promise<string>;
+}
+
+const GENERATION_TEMPERATURE = 0.9;
+const MAX_OUTPUT_TOKENS = 2048;
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// Gemini takes an OpenAPI-style schema: upper-case types and no additionalProperties
+const toGeminiSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const converted: Record<string, unknown> = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    if (key === 'additionalProperties') return;
+    if (key === 'type' && typeof value === 'string') {
+      converted.type = value.toUpperCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      converted.properties = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [name, toGeminiSchema(property)])
+      );
+    } else {
+      converted[key] = toGeminiSchema(value);
+    }
+  });
+  return converted;
+};
+
+export class GeminiProvider implements StretchProvider {
+  readonly name = 'Gemini';
+  private apiKey?: string;
+  private baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+  // Tried in order of preference
+  private models = ['gemini-2.5-pro', 'gemini-1.5-flash-latest', 'gemini-1.5-flash', 'gemini-pro'];
+
+  // The proxy server passes its own key; in the browser it comes from apiKeyStore
+  constructor(apiKey?: string) {
+    this.apiKey = apiKey;
+  }
+
+  isConfigured(): boolean {
+    return this.getApiKey().length > 0;
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      console.log('GeminiProvider: Testing API connection...');
+      const response = await fetch(`${this.baseUrl}/models`, { headers: this.getHeaders() });
+      console.log('GeminiProvider: Test API response status:', response.status);
+      if (!response.ok) {
+        console.error('GeminiProvider: API test error response:', redactSecrets(await response.text()));
+      }
+      return response.ok;
+    } catch (error) {
+      console.error('GeminiProvider: Test API connection failed:', redactError(error));
+      return false;
+    }
+  }
+
+  async generate(prompt: string, responseSchema?: JsonSchema): Promise<string> {
+    let lastError: unknown = null;
+
+    for (const model of this.models) {
+      try {
+        console.log(`GeminiProvider: Trying model: ${model}`);
+        const response = await fetch(`${this.baseUrl}/models/${model}:generateContent`, {
+          method: 'POST',
+          headers: {
+            ...this.getHeaders(),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            contents: [{
+              parts: [{
+                text: prompt
+              }]
+            }],
+            generationConfig: {
+              temperature: GENERATION_TEMPERATURE,
+              topK: 40,
+              topP: 0.95,
+              maxOutputTokens: MAX_OUTPUT_TOKENS,
+              ...(responseSchema && {
+                responseMimeType: 'application/json',
+                responseSchema: toGeminiSchema(responseSchema)
+              })
+            }
+          })
+        });
+
+        console.log(`GeminiProvider: API response status for ${model}:`, response.status);
+        if (!response.ok) {
+          console.error(`GeminiProvider: API error response for ${model}:`, redactSecrets(await response.text()));
+          throw new Error(`Gemini API error: ${response.status}`);
+        }
+
+        const data = await response.json();
+        const generatedText = data.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (!generatedText) {
+          throw new Error('No content generated from Gemini API');
+        }
+        return generatedText;
+      } catch (error) {
+        console.error(`GeminiProvider: Error with model ${model}:`, redactError(error));
+        lastError = error; // Try the next model
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('All Gemini models failed');
+  }
+
+  // Sent as a header so the key never appears in a URL
+  private getHeaders(): Record<string, string> {
+    return { 'x-goog-api-key': this.getApiKey() };
+  }
+
+  private getApiKey(): string {
+    return this.apiKey ?? apiKeyStore.getKey('gemini');
+  }
+}
+
+export class OpenAICompatibleProvider implements StretchProvider {
+  readonly name: string = 'OpenAI-compatible';
+  protected baseUrl: string;
+  protected model: string;
+  private apiKey?: string;
+
+  constructor(baseUrl: string, model: string, apiKey?: string) {
+    this.baseUrl = trimSlash(baseUrl);
+    this.model = model;
+    this.apiKey = apiKey;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl && this.model && this.getApiKey());
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      console.log(`${this.name}: Testing connection to ${redactSecrets(this.baseUrl)}...`);
+      const response = await fetch(`${this.baseUrl}/models`, { headers: this.getHeaders() });
+      console.log(`${this.name}: Test response status:`, response.status);
+      return response.ok;
+    } catch (error) {
+      console.error(`${this.name}: Test connection failed:`, redactError(error));
+      return false;
+    }
+  }
+
+  async generate(prompt: string, responseSchema?: JsonSchema): Promise<string> {
+    console.log(`${this.name}: Requesting ${this.model}`);
+    let response = await this.requestCompletion(prompt, responseSchema);
+
+    // Older servers and some gateways reject structured output; the prompt still asks for JSON
+    if (response.status === 400 && responseSchema) {
+      console.log(`${this.name}: Structured output not supported, retrying without it`);
+      response = await this.requestCompletion(prompt);
+    }
+
+    console.log(`${this.name}: Response status:`, response.status);
+    if (!response.ok) {
+      console.error(`${this.name}: Error response:`, redactSecrets(await response.text()));
+      throw new Error(`${this.name} API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const generatedText = data.choices?.[0]?.message?.content;
+    if (!generatedText) {
+      throw new Error(`No content generated by ${this.model}`);
+    }
+    return generatedText;
+  }
+
+  private requestCompletion(prompt: string, responseSchema?: JsonSchema): Promise<Response> {
+    return fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...this.getHeaders(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: GENERATION_TEMPERATURE,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        ...(responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'stretch_suggestions', strict: true, schema: responseSchema }
+          }
+        })
+      })
+    });
+  }
+
+  protected getApiKey(): string {
+    return this.apiKey ?? apiKeyStore.getKey('openai');
+  }
+
+  private getHeaders(): Record<string, string> {
+    const apiKey = this.getApiKey();
+    return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+  }
+}
+
+// Ollama and llama.cpp's server both speak the OpenAI chat completions API and
+// don't need a key
+export class LocalModelProvider extends OpenAICompatibleProvider {
+  readonly name: string = 'Local model';
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl && this.model);
+  }
+
+  protected getApiKey(): string {
+    return '';
+  }
+}
+
+const PROXY_USER_KEY = 'postureGuardProxyUser';
+
+// A random ID for this browser, so the proxy can apply its quota per user
+const getProxyUserId = (): string => {
+  try {
+    let id = localStorage.getItem(PROXY_USER_KEY);
+    if (!id) {
+      id = crypto.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+      localStorage.setItem(PROXY_USER_KEY, id);
+    }
+    return id;
+  } catch (error) {
+    return 'anonymous';
+  }
+};
+
+// The proxy server holds the key and builds the prompt, so the browser only
+// sends the user data
+export class StretchProxyProvider implements StretchProvider {
+  readonly name = 'Team proxy';
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = trimSlash(baseUrl);
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl);
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      console.log(`${this.name}: Testing connection to ${redactSecrets(this.baseUrl)}...`);
+      const response = await fetch(`${this.baseUrl}/api/health`);
+      console.log(`${this.name}: Test response status:`, response.status);
+      return response.ok;
+    } catch (error) {
+      console.error(`${this.name}: Test connection failed:`, redactError(error));
+      return false;
+    }
+  }
+
+  async generate(): Promise<string> {
+    throw new Error('The proxy builds its own prompt, use generateForUser');
+  }
+
+  async generateForUser(userData: UserData, previousSuggestions: string[]): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/api/stretches`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-PostureGuard-User': getProxyUserId()
+      },
+      body: JSON.stringify({ ...userData, previousSuggestions })
+    });
+
+    console.log(`${this.name}: Response status:`, response.status, response.headers.get('X-Cache') ?? '');
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw new Error(`Your hourly limit on the team proxy is used up${
+        retryAfter > 0 ? `, try again in ${Math.ceil(retryAfter / 60)} min` : ''
+      }`);
+    }
+    if (!response.ok) {
+      console.error(`${this.name}: Error response:`, redactSecrets(await response.text()));
+      throw new Error(`${this.name} error: ${response.status}`);
+    }
+    return response.text();
+  }
+}
+
+export const createStretchProvider = (config: StretchProviderConfig): StretchProvider => {
+  switch (config.type) {
+    case 'proxy':
+      return new StretchProxyProvider(config.proxyUrl);
+    case 'openai':
+      return new OpenAICompatibleProvider(config.openaiBaseUrl, config.openaiModel);
+    case 'local':
+      return new LocalModelProvider(config.localBaseUrl, config.localModel);
+    case 'gemini':
+    default:
+      return new GeminiProvider();
+  }
+};
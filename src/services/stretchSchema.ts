@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import type { StretchSuggestion } from './geminiService';
+
+// A suggestion the model returned that couldn't be used, and why
+export interface StretchRejection {
+  index: number; // Position in the model's response, 0-based
+  name?: string;
+  reason: string;
+}
+
+export interface StretchValidationResult {
+  suggestions: StretchSuggestion[];
+  rejected: StretchRejection[];
+  repaired: number; // Kept after fixing e.g. a numeric duration or a capitalized difficulty
+}
+
+// Models often use other words for the three levels
+const DIFFICULTY_ALIASES: Record<string, StretchSuggestion['difficulty']> = {
+  easy: 'easy',
+  beginner: 'easy',
+  gentle: 'easy',
+  low: 'easy',
+  medium: 'medium',
+  moderate: 'medium',
+  intermediate: 'medium',
+  hard: 'hard',
+  advanced: 'hard',
+  difficult: 'hard',
+  high: 'hard'
+};
+
+const text = z.string().trim().min(1, 'must not be empty');
+
+// A list of strings, also accepting a single string with one entry per line or comma
+const stringList = (separator: RegExp) => z.preprocess(
+  value => typeof value === 'string' ? value.split(separator) : value,
+  z.array(z.string().trim()).transform(items => items.filter(item => item.length > 0))
+);
+
+const stretchSuggestionSchema = z.object({
+  name: text,
+  description: text,
+  duration: z.preprocess(
+    value => typeof value === 'number' ? `${value} seconds` : value,
+    text
+  ),
+  difficulty: z.preprocess(
+    value => typeof value === 'string' ? DIFFICULTY_ALIASES[value.trim().toLowerCase()] ?? value : value,
+    z.enum(['easy', 'medium', 'hard'])
+  ),
+  targetAreas: stringList(/,/),
+  instructions: stringList(/\n+/)
+    .pipe(z.array(z.string()).min(1, 'needs at least one step'))
+    // Drop the "1." numbering some models add to each step
+    .transform(steps => steps.map(step => step.replace(/^\d+[.)]\s*/, '')))
+});
+
+// JSON Schema for the same shape, sent to providers that support structured output.
+// The response is an object rather than a bare array because OpenAI's JSON mode
+// only returns objects.
+export const STRETCH_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          duration: { type: 'string' },
+          difficulty: { type: 'string', enum: ['easy', 'medium', 'hard'] },
+          targetAreas: { type: 'array', items: { type: 'string' } },
+          instructions: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['name', 'description', 'duration', 'difficulty', 'targetAreas', 'instructions'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['suggestions'],
+  additionalProperties: false
+};
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .map(issue => issue.path.length > 0 ? `${issue.path.join('.')} ${issue.message.toLowerCase()}` : issue.message)
+    .join('; ');
+
+// Pull the JSON out of a response, tolerating code fences and text around it
+export const extractStretchJson = (response: string): unknown => {
+  const cleaned = response.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    const start = cleaned.search(/[[{]/);
+    const end = Math.max(cleaned.lastIndexOf(']'), cleaned.lastIndexOf('}'));
+    if (start === -1 || end <= start) {
+      throw new Error('Response contains no JSON');
+    }
+    return JSON.parse(cleaned.substring(start, end + 1));
+  }
+};
+
+// Whether validation changed any of the fields it checks. Key order and extra
+// keys the model added don't count, only a value that was coerced or cleaned up.
+const wasRepaired = (parsed: Record<string, unknown>, item: Record<string, unknown>) =>
+  Object.keys(parsed).some(field => JSON.stringify(parsed[field]) !== JSON.stringify(item[field]));
+
+// Check each suggestion on its own so one bad item doesn't lose the rest
+export const validateStretchSuggestions = (data: unknown): StretchValidationResult => {
+  const items = Array.isArray(data)
+    ? data
+    : (data as { suggestions?: unknown } | null)?.suggestions;
+
+  if (!Array.isArray(items)) {
+    throw new Error('Response has no list of suggestions');
+  }
+
+  const result: StretchValidationResult = { suggestions: [], rejected: [], repaired: 0 };
+
+  items.forEach((item, index) => {
+    const parsed = stretchSuggestionSchema.safeParse(item);
+    const name = typeof (item as { name?: unknown })?.name === 'string'
+      ? (item as { name: string }).name
+      : undefined;
+
+    if (!parsed.success) {
+      result.rejected.push({ index, name, reason: describeIssues(parsed.error) });
+      return;
+    }
+
+    if (wasRepaired(parsed.data, item as Record<string, unknown>)) {
+      result.repaired++;
+    }
+    result.suggestions.push(parsed.data as StretchSuggestion);
+  });
+
+  // The proxy server has already validated the model's output, so keep what it reported
+  const upstream = data as Partial<StretchValidationResult> | null;
+  if (!Array.isArray(data) && Array.isArray(upstream?.rejected)) {
+    result.rejected.push(...upstream.rejected.filter(item => typeof item?.reason === 'string'));
+  }
+  if (!Array.isArray(data) && typeof upstream?.repaired === 'number') {
+    result.repaired += upstream.repaired;
+  }
+
+  return result;
+};
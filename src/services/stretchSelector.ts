@@ -0,0 +1,119 @@
+import type { StretchSuggestion } from './geminiService';
+import type { MinuteRecord } from './historyStore';
+import {
+  ISSUE_CATEGORIES,
+  PostureIssue,
+  PostureIssueCategory,
+  PostureIssueCode,
+  PostureIssueSeverity,
+  SETUP_ISSUE_CODES
+} from './postureIssues';
+import { STRETCH_LIBRARY, LibraryStretch, Contraindication, CONTRAINDICATION_LABELS } from './stretchLibrary';
+
+// Share of recent samples (0-1) in which each issue was detected
+export type RecentIssueShare = Partial<Record<PostureIssueCode, number>>;
+
+export interface StretchSelectionContext {
+  issues: PostureIssue[]; // From the current PostureAnalysis
+  recentIssues: RecentIssueShare; // From the last hour of history, see summarizeRecentIssues
+  screenTime: number; // minutes
+  postureScore: number; // 0-10
+  recentStretches: string[]; // Lower-case names of stretches suggested lately
+  limitations: Contraindication[]; // Exercises tagged with any of these are never picked
+}
+
+const SEVERITY_WEIGHT: Record<PostureIssueSeverity, number> = { mild: 1, moderate: 2, severe: 3 };
+const DEFAULT_STRETCH_COUNT = 4;
+const MAX_PER_AREA = 2; // Keep a set from being all neck stretches
+const RECENT_PENALTY = 4;
+
+type StretchArea = PostureIssueCategory | 'general';
+
+const areaOf = (stretch: LibraryStretch): StretchArea =>
+  stretch.issueCodes.length > 0 ? ISSUE_CATEGORIES[stretch.issueCodes[0]] : 'general';
+
+// Turn recent minute records into how often each issue was seen
+export const summarizeRecentIssues = (minutes: MinuteRecord[]): RecentIssueShare => {
+  const samples = minutes.reduce((sum, minute) => sum + minute.samples, 0);
+  if (samples === 0) return {};
+
+  const share: RecentIssueShare = {};
+  minutes.forEach(minute => {
+    Object.entries(minute.issues).forEach(([code, count]) => {
+      const issueCode = code as PostureIssueCode;
+      share[issueCode] = (share[issueCode] ?? 0) + (count ?? 0) / samples;
+    });
+  });
+  return share;
+};
+
+const scoreStretch = (stretch: LibraryStretch, context: StretchSelectionContext): number => {
+  let score = 0;
+
+  // What's wrong right now counts most, by severity
+  context.issues
+    .filter(issue => !SETUP_ISSUE_CODES.includes(issue.code) && stretch.issueCodes.includes(issue.code))
+    .forEach(issue => { score += SEVERITY_WEIGHT[issue.severity] * 2; });
+
+  // Then what has kept coming back over the last hour
+  stretch.issueCodes.forEach(code => { score += (context.recentIssues[code] ?? 0) * 3; });
+
+  // General relief (wrists, hips, legs) becomes more useful the longer you've sat
+  if (stretch.issueCodes.length === 0) {
+    score += context.screenTime > 60 ? 1.5 : context.screenTime > 30 ? 1 : 0.5;
+  }
+
+  // Start with gentler exercises when posture is poor
+  if (stretch.difficulty === 'hard' && context.postureScore < 6) score -= 2;
+  if (stretch.difficulty === 'medium' && context.postureScore < 4) score -= 1;
+
+  if (context.recentStretches.includes(stretch.name.toLowerCase())) score -= RECENT_PENALTY;
+
+  // A little randomness so asking again gives a different set
+  return score + Math.random() * 0.75;
+};
+
+/**
+ * Picks stretches from the built-in library for the current posture and
+ * recent history. Runs entirely on the device.
+ */
+export const selectStretches = (
+  context: StretchSelectionContext,
+  count: number = DEFAULT_STRETCH_COUNT
+): LibraryStretch[] => {
+  const ranked = STRETCH_LIBRARY
+    .filter(stretch => !stretch.contraindications.some(item => context.limitations.includes(item)))
+    .map(stretch => ({ stretch, score: scoreStretch(stretch, context) }))
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.stretch);
+
+  const picked: LibraryStretch[] = [];
+  const perArea: Partial<Record<StretchArea, number>> = {};
+
+  for (const stretch of ranked) {
+    if (picked.length >= count) break;
+    const area = areaOf(stretch);
+    if ((perArea[area] ?? 0) >= MAX_PER_AREA) continue;
+    picked.push(stretch);
+    perArea[area] = (perArea[area] ?? 0) + 1;
+  }
+
+  // After half an hour at the desk, always include something beyond the upper body
+  if (context.screenTime >= 30 && count > 2 && !perArea.general) {
+    const general = ranked.find(stretch => areaOf(stretch) === 'general');
+    if (general) picked[picked.length - 1] = general;
+  }
+
+  return picked;
+};
+
+// Library entries as suggestions, with their contraindications spelled out
+export const toStretchSuggestion = (stretch: LibraryStretch): StretchSuggestion => ({
+  name: stretch.name,
+  description: stretch.description,
+  duration: stretch.duration,
+  difficulty: stretch.difficulty,
+  targetAreas: stretch.targetAreas,
+  instructions: stretch.instructions,
+  cautions: stretch.contraindications.map(item => CONTRAINDICATION_LABELS[item])
+});
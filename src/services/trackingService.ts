@@ -1,3 +1,22 @@
+import { PoseDetectorBackend, DEFAULT_POSE_DETECTOR } from './poseDetectors';
+import { DEFAULT_TARGET_FPS } from './detectionScheduler';
+import { PostureIssue, getMainIssue } from './postureIssues';
+import { PostureRuleConfig, DEFAULT_POSTURE_RULES, normalizeRules } from './postureRules';
+import SessionRecorder from './sessionRecorder';
+import {
+  ScheduleMode,
+  ScheduleState,
+  CycleConfig,
+  DEFAULT_CUSTOM_CYCLE,
+  getCycleConfig,
+  isLongBreakNext,
+  normalizeCycle
+} from './breakSchedule';
+import { StretchProviderConfig, DEFAULT_STRETCH_PROVIDER, normalizeStretchProvider } from './stretchProviders';
+import { Contraindication, normalizeContraindications } from './stretchLibrary';
+import { SnoozeOption, SnoozeTarget, getSnoozeUntil } from './snooze';
+import { WorkingHours, WorkStatus, DEFAULT_WORKING_HOURS, getWorkStatus, normalizeWorkingHours } from './workingHours';
+
 interface TrackingData {
   screenTime: number;
   postureScore: number;
@@ -10,13 +29,35 @@ interface TrackingData {
   sessionTime: number; // Total session time in minutes
 }
 
+// How the camera preview is shown while privacy mode is on
+export type PrivacyPreview = 'hidden' | 'blur' | 'silhouette';
+
 export interface Settings {
   reminderInterval: number; // minutes
   postureCheckInterval: number; // seconds
   enableNotifications: boolean;
   enableBreakAlerts: boolean;
+  poseDetector: PoseDetectorBackend; // Pose model used by the webcam monitor
+  targetFps: number; // Pose detection frames per second while posture is changing
+  powerSaverOnBattery: boolean; // Reduce detection rate when running on battery
+  postureRules: PostureRuleConfig; // Thresholds and penalties used to score posture
+  privacyMode: boolean; // Never show or keep camera frames, only posture metrics
+  privacyPreview: PrivacyPreview;
+  presenceDetection: boolean; // Pause screen time while nobody is at the desk
+  autoBreakMinutes: number; // Absences at least this long count as a break
+  scheduleMode: ScheduleMode; // Reminder interval or a fixed work/break cycle
+  customCycle: CycleConfig; // Used when scheduleMode is 'custom'
+  eyeBreaks: boolean; // 20-20-20 micro-reminders, separate from full breaks
+  eyeBreakInterval: number; // minutes
+  eyeBreakDuration: number; // seconds
+  eyeBreakPoseConfirm: boolean; // Only count look-away time the camera can confirm
+  workingHours: WorkingHours; // No alerts outside these hours
+  stretchProvider: StretchProviderConfig; // LLM backend for stretch suggestions
+  stretchLimitations: Contraindication[]; // Built-in stretches tagged with these are never suggested
 }
 
+const DISMISSED_BREAK_SNOOZE = 5 * 60000; // When a dismissed break alert comes back
+
 class TrackingService {
   private data: TrackingData;
   private postureCheckInterval: NodeJS.Timeout | null = null;
@@ -26,19 +67,29 @@ class TrackingService {
   private onPostureChange: (score: number) => void;
   private onScreenTimeUpdate: (screenTime: number) => void;
   private onBreakAlert: (() => void) | null = null;
-  private onPostureAlert: ((issues: string[], score: number) => void) | null = null;
+  private onPostureAlert: ((issues: PostureIssue[], score: number) => void) | null = null;
   private settings: Settings;
   private lastPostureAlertTime: number = 0;
   private postureAlertActive: boolean = false;
   private breakAlertActive: boolean = false;
-  private lastBreakAlertTime: number = 0;
+  private breakSnoozedUntil: number = 0; // No break alerts before this time
+  private postureSnoozedUntil: number = 0; // No posture alerts before this time
   private isPageVisible: boolean = true;
+  private userAbsentSince: number | null = null;
+  private history = new SessionRecorder(); // Long-term per-session and per-minute history
+  private schedule!: ScheduleState;
+  private scheduleTimer: ReturnType<typeof setTimeout> | null = null;
+  private onScheduleChange: ((state: ScheduleState) => void) | null = null;
+  private isTracking = false;
+  private workStatus: WorkStatus = 'working';
+  private lunchStartedAt: number | null = null;
+  private onWorkStatusChange: ((status: WorkStatus) => void) | null = null;
 
   constructor(
     onPostureChange: (score: number) => void,
     onScreenTimeUpdate: (screenTime: number) => void,
     onBreakAlert?: () => void,
-    onPostureAlert?: (issues: string[], score: number) => void,
+    onPostureAlert?: (issues: PostureIssue[], score: number) => void,
     settings?: Settings
   ) {
     this.onPostureChange = onPostureChange;
@@ -51,7 +102,24 @@ class TrackingService {
           reminderInterval: 45, // 45 minutes (less frequent breaks)
           postureCheckInterval: 60, // 60 seconds (much slower checking)
           enableNotifications: true,
-          enableBreakAlerts: true
+          enableBreakAlerts: true,
+          poseDetector: DEFAULT_POSE_DETECTOR,
+          targetFps: DEFAULT_TARGET_FPS,
+          powerSaverOnBattery: true,
+          postureRules: DEFAULT_POSTURE_RULES,
+          privacyMode: false,
+          privacyPreview: 'silhouette',
+          presenceDetection: true,
+          autoBreakMinutes: 5,
+          scheduleMode: 'interval',
+          customCycle: DEFAULT_CUSTOM_CYCLE,
+          eyeBreaks: true,
+          eyeBreakInterval: 20,
+          eyeBreakDuration: 20,
+          eyeBreakPoseConfirm: true,
+          workingHours: DEFAULT_WORKING_HOURS,
+          stretchProvider: DEFAULT_STRETCH_PROVIDER,
+          stretchLimitations: []
         };
     
     this.data = {
@@ -68,18 +136,35 @@ class TrackingService {
 
     this.loadStoredData();
     this.setupVisibilityListener();
+    this.startWorkPhase(0);
   }
 
   startTracking(): void {
     this.postureAlertActive = false; // Reset alert state for new session
+    this.isTracking = true;
+    this.updateWorkStatus();
+    this.startIntervals();
+    this.startWorkPhase(0);
+    this.history.start();
+    this.saveData();
+  }
+
+  stopTracking(): void {
+    this.isTracking = false;
+    this.clearIntervals();
+    this.clearScheduleTimer();
+    this.history.stop();
+    this.saveData();
+  }
+
+  private startIntervals(): void {
     this.startPostureMonitoring();
     this.startScreenTimeTracking();
     this.startSessionTimeTracking();
     this.startBreakAlerts();
-    this.saveData();
   }
 
-  stopTracking(): void {
+  private clearIntervals(): void {
     if (this.postureCheckInterval) {
       clearInterval(this.postureCheckInterval);
       this.postureCheckInterval = null;
@@ -96,38 +181,269 @@ class TrackingService {
       clearInterval(this.breakAlertInterval);
       this.breakAlertInterval = null;
     }
-    this.saveData();
   }
 
   takeBreak(): void {
+    this.recordBreak();
+
+    // Cycle modes time the break itself; interval mode just restarts the countdown
+    const cycle = this.getCycle();
+    if (!cycle) {
+      this.startWorkPhase(this.schedule.completedCycles + 1);
+    } else if (this.schedule.phase !== 'break' && this.schedule.phase !== 'long_break') {
+      this.startBreakPhase(cycle);
+    }
+  }
+
+  // End a running break, or skip a due one, without counting the cycle as complete
+  skipBreak(): void {
+    if (this.schedule.phase === 'work') return;
+    console.log(`Skipping ${this.schedule.phase.replace('_', ' ')}`);
+    this.breakAlertActive = false;
+    this.startWorkPhase(this.schedule.completedCycles);
+  }
+
+  getScheduleState(): ScheduleState {
+    return { ...this.schedule };
+  }
+
+  // Receive the schedule whenever it changes phase. Pass null to stop.
+  setScheduleListener(listener: ((state: ScheduleState) => void) | null): void {
+    this.onScheduleChange = listener;
+  }
+
+  getWorkStatus(): WorkStatus {
+    return this.workStatus;
+  }
+
+  // Receive the working hours status when it changes. Pass null to stop.
+  setWorkStatusListener(listener: ((status: WorkStatus) => void) | null): void {
+    this.onWorkStatusChange = listener;
+  }
+
+  // Work out where we are in the working hours schedule and handle the
+  // move into or out of lunch
+  private updateWorkStatus(now: number = Date.now()): WorkStatus {
+    const status = getWorkStatus(this.settings.workingHours, new Date(now));
+    if (status === this.workStatus) return status;
+
+    const previous = this.workStatus;
+    this.workStatus = status;
+    console.log(`Work status changed: ${previous} -> ${status}`);
+
+    if (status === 'lunch') {
+      this.lunchStartedAt = now;
+    } else if (previous === 'lunch') {
+      this.finishLunch();
+    } else if (previous === 'off_hours' && this.isTracking) {
+      // A new working day: the evening away from work was rest enough, so
+      // start the break countdown afresh instead of alerting straight away
+      this.data.lastBreakTime = now;
+      this.data.screenTime = 0;
+      this.startWorkPhase(0, now);
+      this.onScreenTimeUpdate(this.data.screenTime);
+      this.saveData();
+    }
+
+    this.onWorkStatusChange?.(status);
+    return status;
+  }
+
+  // Lunch counts as a break, unless coming back from it already did
+  private finishLunch(): void {
+    const lunchStartedAt = this.lunchStartedAt;
+    this.lunchStartedAt = null;
+    if (!this.isTracking || this.userAbsentSince !== null) return; // Returning will credit the break
+    if (lunchStartedAt !== null && this.data.lastBreakTime >= lunchStartedAt) return;
+
+    console.log('Lunch is over - counting it as a break');
+    this.recordBreak();
+    this.startWorkPhase(this.schedule.completedCycles + 1);
+    this.onScreenTimeUpdate(this.data.screenTime);
+  }
+
+  // Alerts only go out during working hours, outside lunch and quiet periods
+  private canAlert(): boolean {
+    return this.workStatus === 'working';
+  }
+
+  private recordBreak(): void {
     this.data.lastBreakTime = Date.now();
     this.data.breakCount++;
     this.data.screenTime = 0; // Reset screen time after break
     this.breakAlertActive = false; // Clear the break alert state
+    this.breakSnoozedUntil = 0; // A new break countdown starts now
+    this.history.recordBreak();
     this.saveData();
   }
 
+  private getCycle(): CycleConfig | null {
+    return getCycleConfig(this.settings.scheduleMode, this.settings.customCycle);
+  }
+
+  private startWorkPhase(completedCycles: number, now: number = Date.now()): void {
+    const cycle = this.getCycle();
+    // Interval mode counts from the last break, which may predate this session
+    const phaseStartedAt = cycle ? now : this.data.lastBreakTime;
+
+    this.schedule = {
+      mode: this.settings.scheduleMode,
+      phase: 'work',
+      phaseStartedAt,
+      phaseEndsAt: phaseStartedAt + (cycle ? cycle.workMinutes : this.settings.reminderInterval) * 60000,
+      completedCycles,
+      cyclesBeforeLongBreak: cycle?.cyclesBeforeLongBreak ?? 0,
+      breakInterrupted: false
+    };
+    this.scheduleNextPhase();
+  }
+
+  private startBreakPhase(cycle: CycleConfig, now: number = Date.now()): void {
+    const long = isLongBreakNext(cycle, this.schedule.completedCycles);
+    console.log(`Starting ${long ? 'long ' : ''}break of ${long ? cycle.longBreakMinutes : cycle.breakMinutes} minutes`);
+
+    this.schedule = {
+      ...this.schedule,
+      phase: long ? 'long_break' : 'break',
+      phaseStartedAt: now,
+      phaseEndsAt: now + (long ? cycle.longBreakMinutes : cycle.breakMinutes) * 60000,
+      breakInterrupted: false
+    };
+    this.scheduleNextPhase();
+  }
+
+  // Arm a timer for the end of the current phase and publish the new state
+  private scheduleNextPhase(): void {
+    this.clearScheduleTimer();
+
+    // Interval mode has no timed phases, its reminder comes from the break alert check
+    if (this.isTracking && this.schedule.mode !== 'interval' && this.schedule.phaseEndsAt !== null) {
+      this.scheduleTimer = setTimeout(
+        () => this.handlePhaseEnd(),
+        Math.max(0, this.schedule.phaseEndsAt - Date.now())
+      );
+    }
+
+    this.onScheduleChange?.(this.getScheduleState());
+  }
+
+  private handlePhaseEnd(): void {
+    this.scheduleTimer = null;
+
+    if (this.schedule.phase === 'work') {
+      this.markBreakDue();
+      this.checkBreakDue();
+    } else if (this.schedule.phase === 'break' || this.schedule.phase === 'long_break') {
+      console.log('Break finished, starting the next work cycle');
+      this.startWorkPhase(this.schedule.completedCycles + 1);
+    }
+  }
+
+  private markBreakDue(): void {
+    if (this.schedule.phase !== 'work') return;
+    this.schedule = { ...this.schedule, phase: 'break_due', phaseStartedAt: Date.now(), phaseEndsAt: null };
+    this.onScheduleChange?.(this.getScheduleState());
+  }
+
+  private clearScheduleTimer(): void {
+    if (this.scheduleTimer) {
+      clearTimeout(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+  }
+
+  private isOnBreak(): boolean {
+    return this.schedule.phase === 'break' || this.schedule.phase === 'long_break';
+  }
+
+  // Called when the pose stream stops seeing the user. Screen time and break
+  // reminders are held until they come back.
+  markUserAbsent(since: number = Date.now()): void {
+    if (!this.settings.presenceDetection || this.userAbsentSince !== null) return;
+    this.userAbsentSince = since;
+    console.log('User away - pausing screen time');
+  }
+
+  // Returns true when the absence was long enough to be credited as a break
+  markUserReturned(awayMs: number): boolean {
+    if (this.userAbsentSince === null) return false;
+    this.userAbsentSince = null;
+
+    if (awayMs >= this.settings.autoBreakMinutes * 60000) {
+      console.log(`User back after ${Math.round(awayMs / 60000)} minutes - counting it as a break`);
+      // The time away was the break, so go straight into the next work cycle
+      this.recordBreak();
+      this.startWorkPhase(this.schedule.completedCycles + 1);
+      this.onScreenTimeUpdate(this.data.screenTime);
+      return true;
+    }
+
+    console.log('User back - resuming screen time');
+    return false;
+  }
+
+  isUserAbsent(): boolean {
+    return this.userAbsentSince !== null;
+  }
+
   getCurrentData(): TrackingData {
     return { ...this.data };
   }
 
   dismissBreakAlert(): void {
     this.breakAlertActive = false;
+    // A plain dismiss brings the reminder back after a short while
+    this.breakSnoozedUntil = Date.now() + DISMISSED_BREAK_SNOOZE;
+    this.history.recordAlertDismissed();
   }
 
   dismissPostureAlert(): void {
     console.log('Dismissing posture alert - resetting postureAlertActive to false');
     this.postureAlertActive = false;
+    this.history.recordAlertDismissed();
+  }
+
+  // Put off break or posture alerts. Returns when they can come back.
+  snoozeAlert(target: SnoozeTarget, option: SnoozeOption): number {
+    const now = Date.now();
+    const until = getSnoozeUntil(option, now);
+    console.log(`Snoozing ${target} alerts until ${new Date(until).toLocaleTimeString()}`);
+
+    if (target === 'break') {
+      this.breakAlertActive = false;
+      this.breakSnoozedUntil = until;
+    } else {
+      this.postureAlertActive = false;
+      this.postureSnoozedUntil = until;
+    }
+    this.history.recordSnooze(now);
+    return until;
+  }
+
+  getSnoozedUntil(target: SnoozeTarget): number | null {
+    const until = target === 'break' ? this.breakSnoozedUntil : this.postureSnoozedUntil;
+    return until > Date.now() ? until : null;
   }
 
 
   updateSettings(newSettings: Settings): void {
-    this.settings = { ...newSettings };
+    const scheduleChanged = newSettings.scheduleMode !== this.settings.scheduleMode ||
+      JSON.stringify(newSettings.customCycle) !== JSON.stringify(this.settings.customCycle);
+    this.settings = { ...newSettings, workingHours: normalizeWorkingHours(newSettings.workingHours) };
+    if (!this.settings.presenceDetection) {
+      this.userAbsentSince = null;
+    }
     this.saveSettings();
+    this.updateWorkStatus();
     
-    // Restart intervals with new settings
-    this.stopTracking();
-    this.startTracking();
+    // Restart intervals with new settings, keeping the current history session
+    this.postureAlertActive = false;
+    this.clearIntervals();
+    this.startIntervals();
+    if (scheduleChanged || this.schedule.mode === 'interval') {
+      this.startWorkPhase(scheduleChanged ? 0 : this.schedule.completedCycles);
+    }
+    this.saveData();
   }
 
   private setupVisibilityListener(): void {
@@ -159,7 +475,7 @@ class TrackingService {
     this.saveData();
   }
 
-  updatePostureScore(score: number, issues?: string[]): void {
+  updatePostureScore(score: number, issues?: PostureIssue[]): void {
     this.data.postureScore = score;
     this.data.postureHistory.push(score);
     
@@ -170,6 +486,15 @@ class TrackingService {
     
     // Calculate average posture score
     this.data.averagePostureScore = this.data.postureHistory.reduce((a, b) => a + b, 0) / this.data.postureHistory.length;
+    this.history.recordScore(score, issues);
+
+    // Posture updates only arrive while someone is at the desk, so once the user
+    // has had a minute to get up, seeing them means the break isn't being taken
+    if (this.isOnBreak() && !this.schedule.breakInterrupted && Date.now() - this.schedule.phaseStartedAt > 60000) {
+      console.log('User is back at the desk before the break ended');
+      this.schedule = { ...this.schedule, breakInterrupted: true };
+      this.onScheduleChange?.(this.getScheduleState());
+    }
     
     
     // Check for very bad posture and trigger alert if notifications are enabled
@@ -177,8 +502,12 @@ class TrackingService {
     const timeSinceLastAlert = now - this.lastPostureAlertTime;
     const alertCooldown = 60000; // 1 minute buffer after alert is dismissed
 
-    // Check if we can trigger a new alert
+    // Check if we can trigger a new alert, but never during a scheduled break
+    // or outside working hours
     const canTriggerAlert = this.settings.enableNotifications && 
+                           !this.isOnBreak() && 
+                           this.canAlert() && 
+                           now >= this.postureSnoozedUntil && 
                            score < 3 && 
                            issues && issues.length > 0 && 
                            !this.postureAlertActive && 
@@ -189,17 +518,19 @@ class TrackingService {
       score,
       hasIssues: issues && issues.length > 0,
       postureAlertActive: this.postureAlertActive,
+      postureSnoozedUntil: this.postureSnoozedUntil,
       timeSinceLastAlert,
       alertCooldown,
       canTriggerAlert
     });
     
     if (canTriggerAlert) {
-      // Only show the main issue (first one) to avoid overwhelming the user
-      const mainIssue = issues[0];
-      console.log('Triggering posture alert:', mainIssue);
-      if (this.onPostureAlert) {
+      // Only show the main issue to avoid overwhelming the user
+      const mainIssue = getMainIssue(issues);
+      console.log('Triggering posture alert:', mainIssue?.code);
+      if (this.onPostureAlert && mainIssue) {
         this.onPostureAlert([mainIssue], score);
+        this.history.recordAlertShown();
         this.postureAlertActive = true; // Mark as active
         this.lastPostureAlertTime = now; // Update the last alert time
       }
@@ -225,7 +556,17 @@ class TrackingService {
 
   private startScreenTimeTracking(): void {
     this.screenTimeInterval = setInterval(() => {
+      if (this.userAbsentSince !== null) return; // Nobody at the screen
+
+      // Off-hours time is kept in history but doesn't run down the break countdown
+      if (this.updateWorkStatus() === 'off_hours') {
+        this.history.recordScreenTime(1, true);
+        this.saveData();
+        return;
+      }
+
       this.data.screenTime += 1; // Increment by 1 minute
+      this.history.recordScreenTime(1);
       this.onScreenTimeUpdate(this.data.screenTime);
       this.saveData();
     }, 60000); // Update every minute
@@ -235,6 +576,7 @@ class TrackingService {
     this.sessionTimeInterval = setInterval(() => {
       const now = Date.now();
       this.data.sessionTime = Math.floor((now - this.data.startTime) / 60000); // Convert to minutes
+      this.history.flush(now);
       this.saveData();
     }, 60000); // Update every minute
   }
@@ -242,22 +584,32 @@ class TrackingService {
   private startBreakAlerts(): void {
     if (!this.settings.enableBreakAlerts) return;
     
-    this.breakAlertInterval = setInterval(() => {
-      const now = Date.now();
-      const timeSinceLastBreak = Math.floor((now - this.data.lastBreakTime) / 60000); // Minutes
-      const timeSinceLastBreakAlert = now - this.lastBreakAlertTime;
-      const breakAlertCooldown = 300000; // 5 minutes cooldown between break alerts
-      
-      // Alert based on settings, but only if no alert is currently active and enough time has passed
-      if (timeSinceLastBreak >= this.settings.reminderInterval && 
-          this.onBreakAlert && 
-          !this.breakAlertActive && 
-          timeSinceLastBreakAlert > breakAlertCooldown) {
-        this.breakAlertActive = true;
-        this.lastBreakAlertTime = now;
-        this.onBreakAlert();
-      }
-    }, 60000); // Check every minute
+    this.breakAlertInterval = setInterval(() => this.checkBreakDue(), 60000); // Check every minute
+  }
+
+  private checkBreakDue(): void {
+    if (!this.settings.enableBreakAlerts) return;
+    if (this.updateWorkStatus() !== 'working') return;
+
+    const now = Date.now();
+    const timeSinceLastBreak = Math.floor((now - this.data.lastBreakTime) / 60000); // Minutes
+
+    // Interval mode goes by time since the last break, cycle modes by the work timer
+    const breakDue = this.schedule.mode === 'interval'
+      ? timeSinceLastBreak >= this.settings.reminderInterval
+      : this.schedule.phase === 'break_due';
+
+    // Alert based on settings, but only if no alert is currently active and it isn't snoozed
+    if (breakDue && 
+        this.userAbsentSince === null && 
+        this.onBreakAlert && 
+        !this.breakAlertActive && 
+        now >= this.breakSnoozedUntil) {
+      this.markBreakDue();
+      this.breakAlertActive = true;
+      this.history.recordAlertShown(now);
+      this.onBreakAlert();
+    }
   }
 
   private simulatePostureCheck(): number {
@@ -289,6 +641,11 @@ class TrackingService {
       if (storedSettings) {
         const parsedSettings = JSON.parse(storedSettings);
         this.settings = { ...this.settings, ...parsedSettings };
+        this.settings.postureRules = normalizeRules(parsedSettings.postureRules);
+        this.settings.customCycle = normalizeCycle(parsedSettings.customCycle);
+        this.settings.workingHours = normalizeWorkingHours(parsedSettings.workingHours);
+        this.settings.stretchProvider = normalizeStretchProvider(parsedSettings.stretchProvider);
+        this.settings.stretchLimitations = normalizeContraindications(parsedSettings.stretchLimitations);
       }
     } catch (error) {
       console.error('Error loading stored tracking data:', error);
@@ -0,0 +1,197 @@
+import * as tf from '@tensorflow/tfjs';
+import '@tensorflow/tfjs-backend-webgl';
+import PoseDetectorAdapter, { PoseDetectorBackend } from './poseDetectors';
+import PostureAnalyzer from './postureAnalyzer';
+import { DEFAULT_TARGET_FPS } from './detectionScheduler';
+import type { PostureAnalysis } from './tensorflowPoseService';
+import type { PostureBaseline } from './postureCalibration';
+import type { PostureRuleConfig } from './postureRules';
+import type { PostureIssueCode, PostureIssueSeverity } from './postureIssues';
+
+export interface VideoAnalysisOptions {
+  detector: PoseDetectorBackend;
+  rules: PostureRuleConfig;
+  baseline?: PostureBaseline | null; // Only applied if it was recorded with the same detector
+  sampleFps?: number; // Frames sampled per second of video (default matches live detection)
+}
+
+export interface TimelinePoint {
+  time: number; // seconds into the video
+  analysis: PostureAnalysis;
+}
+
+// A continuous stretch of video where an issue was reported
+export interface IssueSegment {
+  code: PostureIssueCode;
+  start: number; // seconds
+  end: number; // seconds
+  severity: PostureIssueSeverity; // Worst severity seen during the segment
+}
+
+export interface PostureTimeline {
+  fileName: string;
+  duration: number; // seconds
+  points: TimelinePoint[];
+  segments: IssueSegment[];
+  averageScore: number;
+  framesAnalyzed: number;
+  framesWithoutPose: number;
+}
+
+export interface VideoAnalysisProgress {
+  processed: number; // seconds of video processed
+  duration: number;
+}
+
+const SEVERITY_RANK: Record<PostureIssueSeverity, number> = { mild: 0, moderate: 1, severe: 2 };
+
+/**
+ * Runs posture analysis over a local video file. Frames are pulled by seeking
+ * rather than playing the video, so a recording is processed as fast as the
+ * model allows, and scored by the same PostureAnalyzer used for live webcam
+ * input with video time standing in for wall-clock time.
+ */
+class VideoPostureAnalyzer {
+  private options: VideoAnalysisOptions;
+  private onProgress: (progress: VideoAnalysisProgress) => void;
+  private cancelled = false;
+
+  constructor(options: VideoAnalysisOptions, onProgress: (progress: VideoAnalysisProgress) => void) {
+    this.options = options;
+    this.onProgress = onProgress;
+  }
+
+  async analyze(file: File): Promise<PostureTimeline> {
+    this.cancelled = false;
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.src = url;
+
+    let detector: PoseDetectorAdapter | null = null;
+
+    try {
+      await this.waitForEvent(video, 'loadeddata');
+      const duration = video.duration;
+      if (!Number.isFinite(duration) || duration <= 0) {
+        throw new Error('Could not read the length of this video');
+      }
+
+      await tf.ready();
+      detector = await PoseDetectorAdapter.create(this.options.detector);
+
+      const baseline = this.options.baseline?.detector === this.options.detector ? this.options.baseline : null;
+      const analyzer = new PostureAnalyzer(this.options.detector, baseline, undefined, this.options.rules);
+      const step = 1 / (this.options.sampleFps || DEFAULT_TARGET_FPS);
+      const points: TimelinePoint[] = [];
+      let framesAnalyzed = 0;
+      let framesWithoutPose = 0;
+
+      console.log(`Analyzing ${file.name} (${duration.toFixed(1)}s) with ${this.options.detector}`);
+
+      for (let time = 0; time < duration; time += step) {
+        if (this.cancelled) {
+          throw new Error('Video analysis cancelled');
+        }
+
+        await this.seek(video, time);
+        const landmarks = await detector.estimateLandmarks(video);
+        framesAnalyzed++;
+
+        if (landmarks) {
+          const analysis = analyzer.processLandmarks(landmarks, time * 1000);
+          if (analysis) {
+            points.push({ time, analysis });
+          }
+        } else {
+          framesWithoutPose++;
+        }
+
+        this.onProgress({ processed: time, duration });
+      }
+
+      this.onProgress({ processed: duration, duration });
+
+      return {
+        fileName: file.name,
+        duration,
+        points,
+        segments: buildIssueSegments(points, duration),
+        averageScore: points.length > 0
+          ? points.reduce((sum, point) => sum + point.analysis.score, 0) / points.length
+          : 0,
+        framesAnalyzed,
+        framesWithoutPose
+      };
+    } finally {
+      detector?.dispose();
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  private seek(video: HTMLVideoElement, time: number): Promise<void> {
+    const seeked = this.waitForEvent(video, 'seeked');
+    video.currentTime = time;
+    return seeked;
+  }
+
+  private waitForEvent(video: HTMLVideoElement, event: 'loadeddata' | 'seeked'): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const handleError = () => {
+        video.removeEventListener(event, handleEvent);
+        reject(new Error('This video format is not supported by the browser'));
+      };
+      const handleEvent = () => {
+        video.removeEventListener('error', handleError);
+        resolve();
+      };
+      video.addEventListener(event, handleEvent, { once: true });
+      video.addEventListener('error', handleError, { once: true });
+    });
+  }
+}
+
+// Each timeline point stands for the video up to the next point, so a segment
+// runs from the first point reporting an issue until the first point without it
+export const buildIssueSegments = (points: TimelinePoint[], duration: number): IssueSegment[] => {
+  const segments: IssueSegment[] = [];
+  const open = new Map<PostureIssueCode, IssueSegment>();
+
+  points.forEach((point, index) => {
+    const end = index + 1 < points.length ? points[index + 1].time : duration;
+    const present = new Set<PostureIssueCode>();
+
+    for (const issue of point.analysis.issues) {
+      present.add(issue.code);
+      const segment = open.get(issue.code);
+      if (segment) {
+        segment.end = end;
+        if (SEVERITY_RANK[issue.severity] > SEVERITY_RANK[segment.severity]) {
+          segment.severity = issue.severity;
+        }
+      } else {
+        open.set(issue.code, { code: issue.code, start: point.time, end, severity: issue.severity });
+      }
+    }
+
+    for (const [code, segment] of open) {
+      if (!present.has(code)) {
+        segments.push(segment);
+        open.delete(code);
+      }
+    }
+  });
+
+  segments.push(...open.values());
+  return segments.sort((a, b) => a.start - b.start);
+};
+
+export default VideoPostureAnalyzer;
@@ -0,0 +1,113 @@
+// A daily time range as 'HH:MM' strings. An end at or before the start runs
+// past midnight into the next day.
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+export interface WorkDay extends TimeWindow {
+  enabled: boolean;
+}
+
+export interface QuietPeriod extends TimeWindow {
+  label: string;
+}
+
+export interface WorkingHours {
+  enabled: boolean; // When off the app alerts at any hour, as before
+  days: WorkDay[]; // Indexed by Date.getDay(), Sunday first
+  lunchEnabled: boolean;
+  lunch: TimeWindow; // Applies on working days and counts as a break
+  quietPeriods: QuietPeriod[]; // No alerts, but still working time
+}
+
+// 'working' is the only status that alerts
+export type WorkStatus = 'working' | 'lunch' | 'quiet' | 'off_hours';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const WORK_STATUS_LABELS: Record<WorkStatus, string> = {
+  working: 'Working hours',
+  lunch: 'Lunch break',
+  quiet: 'Quiet period',
+  off_hours: 'Off hours'
+};
+
+const weekday = (enabled: boolean): WorkDay => ({ enabled, start: '09:00', end: '17:30' });
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  enabled: false,
+  days: [weekday(false), weekday(true), weekday(true), weekday(true), weekday(true), weekday(true), weekday(false)],
+  lunchEnabled: true,
+  lunch: { start: '12:00', end: '13:00' },
+  quietPeriods: []
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Minutes since midnight for an 'HH:MM' string, or null if it isn't one
+export const parseTime = (time: string): number | null => {
+  const match = TIME_PATTERN.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+const validTime = (time: unknown, fallback: string): string =>
+  typeof time === 'string' && parseTime(time) !== null ? time : fallback;
+
+// Where `minute` falls in a window: on the day it started, in the part that
+// ran over from the day before, or not at all
+const windowPosition = (window: TimeWindow, minute: number): 'today' | 'overnight' | null => {
+  const start = parseTime(window.start);
+  const end = parseTime(window.end);
+  if (start === null || end === null) return null;
+
+  if (start < end) {
+    return minute >= start && minute < end ? 'today' : null;
+  }
+  if (minute >= start) return 'today';
+  if (minute < end) return 'overnight';
+  return null;
+};
+
+// Whether `date` falls in a window that repeats every day
+export const isInWindow = (window: TimeWindow, date: Date): boolean =>
+  windowPosition(window, date.getHours() * 60 + date.getMinutes()) !== null;
+
+// Whether `date` is inside a shift, counting shifts that started the day before
+export const isWorkingTime = (hours: WorkingHours, date: Date): boolean => {
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const today = hours.days[date.getDay()];
+  const yesterday = hours.days[(date.getDay() + 6) % 7];
+
+  return (today?.enabled && windowPosition(today, minute) === 'today') ||
+    (yesterday?.enabled && windowPosition(yesterday, minute) === 'overnight') ||
+    false;
+};
+
+export const getWorkStatus = (hours: WorkingHours, date: Date = new Date()): WorkStatus => {
+  if (!hours.enabled) return 'working';
+  if (!isWorkingTime(hours, date)) return 'off_hours';
+  if (hours.lunchEnabled && isInWindow(hours.lunch, date)) return 'lunch';
+  if (hours.quietPeriods.some(period => isInWindow(period, date))) return 'quiet';
+  return 'working';
+};
+
+export const normalizeWorkingHours = (hours?: Partial<WorkingHours>): WorkingHours => ({
+  enabled: hours?.enabled ?? DEFAULT_WORKING_HOURS.enabled,
+  days: DEFAULT_WORKING_HOURS.days.map((fallback, index) => {
+    const day = hours?.days?.[index];
+    return {
+      enabled: day?.enabled ?? fallback.enabled,
+      start: validTime(day?.start, fallback.start),
+      end: validTime(day?.end, fallback.end)
+    };
+  }),
+  lunchEnabled: hours?.lunchEnabled ?? DEFAULT_WORKING_HOURS.lunchEnabled,
+  lunch: {
+    start: validTime(hours?.lunch?.start, DEFAULT_WORKING_HOURS.lunch.start),
+    end: validTime(hours?.lunch?.end, DEFAULT_WORKING_HOURS.lunch.end)
+  },
+  quietPeriods: (hours?.quietPeriods ?? [])
+    .filter(period => parseTime(period?.start ?? '') !== null && parseTime(period?.end ?? '') !== null)
+    .map(period => ({ start: period.start, end: period.end, label: period.label || '' }))
+});
@@ -1,20 +1,89 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// The @mediapipe/pose runtime loads these at run time from its solution path.
+// Only the "full" model is used, see poseDetectors.ts.
+const MEDIAPIPE_POSE_DIR = path.resolve(__dirname, "node_modules/@mediapipe/pose");
+const MEDIAPIPE_POSE_PATH = "mediapipe/pose";
+const MEDIAPIPE_POSE_FILES = [
+  "pose_landmark_full.tflite",
+  "pose_web.binarypb",
+  "pose_solution_packed_assets_loader.js",
+  "pose_solution_packed_assets.data",
+  "pose_solution_simd_wasm_bin.js",
+  "pose_solution_simd_wasm_bin.wasm",
+  "pose_solution_simd_wasm_bin.data",
+  "pose_solution_wasm_bin.js",
+  "pose_solution_wasm_bin.wasm",
+];
+
+const MIME_TYPES: Record<string, string> = { ".js": "text/javascript", ".wasm": "application/wasm" };
+
+// Serves the MediaPipe runtime from the installed package, in development and
+// in the build, so it works offline instead of depending on a CDN
+const mediapipeAssets = (): Plugin => ({
+  name: "mediapipe-assets",
+  configureServer(server) {
+    server.middlewares.use(`/${MEDIAPIPE_POSE_PATH}`, (req, res, next) => {
+      const file = path.basename((req.url ?? "").split("?")[0]);
+      if (!MEDIAPIPE_POSE_FILES.includes(file)) return next();
+      res.setHeader("Content-Type", MIME_TYPES[path.extname(file)] ?? "application/octet-stream");
+      fs.createReadStream(path.join(MEDIAPIPE_POSE_DIR, file)).pipe(res);
+    });
+  },
+  generateBundle() {
+    for (const file of MEDIAPIPE_POSE_FILES) {
+      this.emitFile({
+        type: "asset",
+        fileName: `${MEDIAPIPE_POSE_PATH}/${file}`,
+        source: fs.readFileSync(path.join(MEDIAPIPE_POSE_DIR, file)),
+      });
+    }
+  },
+});
+
+// Lists the built files so the service worker can cache them for offline use
+const precacheManifest = (): Plugin => ({
+  name: "precache-manifest",
+  apply: "build",
+  enforce: "post",
+  generateBundle(_, bundle) {
+    // Without the app entry nothing registers sw.js, so there would be no install or offline support
+    const hasAppEntry = Object.values(bundle).some(
+      (file) => file.type === "chunk" && file.isEntry && file.moduleIds.some((id) => id.endsWith("/src/main.tsx"))
+    );
+    if (!hasAppEntry) {
+      this.error("index.html must load /src/main.tsx, otherwise the service worker is never registered");
+    }
+    // Like the other non-default pose models, MediaPipe is cached the first time it loads
+    const files = Object.keys(bundle).filter(
+      (file) => !file.endsWith(".map") && !file.startsWith(`${MEDIAPIPE_POSE_PATH}/`)
+    );
+    this.emitFile({ type: "asset", fileName: "precache-manifest.json", source: JSON.stringify(files) });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
+  // Relative paths, so the build works from the GitHub Pages sub-path
+  base: "./",
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), mode === "development" && componentTagger(), mediapipeAssets(), precacheManifest()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  worker: {
+    // The pose detection worker pulls in TensorFlow.js, which needs code splitting
+    format: 'es'
+  },
   optimizeDeps: {
     include: ['@mediapipe/pose', '@mediapipe/camera_utils']
   },